@@ -2,10 +2,25 @@ import React from 'react';
 import { Layout } from './components/Layout';
 import { SettingsForm } from './components/SettingsForm';
 import { ChapterList } from './components/ChapterList';
+import { useProjectStore, startAutosave } from './store/useProjectStore';
+import { startLayoutEngine } from './store/useLayoutStore';
+import { startHistoryShortcuts } from './store/useEbookStore';
 
 function App() {
   const [activeTab, setActiveTab] = React.useState<'settings' | 'chapters'>('settings');
 
+  React.useEffect(() => {
+    useProjectStore.getState().initialize();
+    const stopAutosave = startAutosave();
+    const stopLayoutEngine = startLayoutEngine();
+    const stopHistoryShortcuts = startHistoryShortcuts();
+    return () => {
+      stopAutosave();
+      stopLayoutEngine();
+      stopHistoryShortcuts();
+    };
+  }, []);
+
   return (
     <Layout activeTab={activeTab} onTabChange={setActiveTab}>
       {activeTab === 'settings' ? (
@@ -0,0 +1,233 @@
+import React from 'react';
+import { X, Plus, Trash2, ChevronUp, ChevronDown } from 'lucide-react';
+import type { Chapter } from '../types';
+import { useImportPresetStore } from '../store/useImportPresetStore';
+import { useMessages } from '../store/useLocaleStore';
+import { DEFAULT_IMPORT_PRESET, compileRulePattern, planBulkImport } from '../utils/bulkImport';
+import type { ImportFile, ImportReportEntry, ImportRule, ImportTarget } from '../utils/bulkImport';
+import type { Messages } from '../utils/messages';
+
+interface BulkImportDialogProps {
+  folderName: string;
+  files: ImportFile[];
+  onConfirm: (chapters: Chapter[]) => void;
+  onCancel: () => void;
+}
+
+const fileTargets: ImportTarget[] = ['frontmatter', 'toc', 'chapter', 'subchapter', 'backmatter'];
+// A folder is a whole section, so it cannot be a sub-chapter
+const folderTargets: ImportTarget[] = ['frontmatter', 'chapter', 'backmatter'];
+
+const inputClass = "rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm";
+
+function describeEntry(entry: ImportReportEntry, t: Messages) {
+  const { report } = t.bulkImport;
+  switch (entry.outcome) {
+    case 'not-text':
+    case 'no-rule':
+    case 'no-chapter':
+      return report[entry.outcome];
+    case 'intro':
+      return report.intro(entry.title);
+    case 'subchapter':
+      return report.subchapter(entry.title, entry.parent);
+    default:
+      return report.section(t.chapterTypes[entry.outcome], entry.title);
+  }
+}
+
+// Rules are tried top to bottom and the first match wins. The report below
+// them is a dry run: nothing reaches the book until Import is pressed.
+export function BulkImportDialog({ folderName, files, onConfirm, onCancel }: BulkImportDialogProps) {
+  const { presets, savePreset, deletePreset } = useImportPresetStore();
+  const t = useMessages();
+  const [rules, setRules] = React.useState<ImportRule[]>(DEFAULT_IMPORT_PRESET.rules);
+  const [presetId, setPresetId] = React.useState(DEFAULT_IMPORT_PRESET.id);
+  const [presetName, setPresetName] = React.useState('');
+
+  const plan = React.useMemo(() => planBulkImport(files, rules), [files, rules]);
+  const importedCount = plan.report.filter((entry) => entry.imported).length;
+
+  const updateRule = (id: string, changes: Partial<ImportRule>) =>
+    setRules(rules.map((rule) => {
+      if (rule.id !== id) return rule;
+      const updated = { ...rule, ...changes };
+      // Switching a sub-chapter rule to folders needs a section target
+      if (updated.appliesTo === 'folder' && !folderTargets.includes(updated.target)) updated.target = 'chapter';
+      return updated;
+    }));
+
+  const moveRule = (index: number, offset: number) => {
+    const next = [...rules];
+    const [rule] = next.splice(index, 1);
+    next.splice(index + offset, 0, rule);
+    setRules(next);
+  };
+
+  const addRule = () =>
+    setRules([...rules, { id: crypto.randomUUID(), appliesTo: 'file', pattern: '', target: 'chapter' }]);
+
+  const handlePresetChange = (id: string) => {
+    const preset = id === DEFAULT_IMPORT_PRESET.id ? DEFAULT_IMPORT_PRESET : presets.find((p) => p.id === id);
+    if (!preset) return;
+    setPresetId(preset.id);
+    setPresetName(preset.id === DEFAULT_IMPORT_PRESET.id ? '' : preset.name);
+    setRules(preset.rules);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    setPresetId(savePreset(name, rules).id);
+  };
+
+  const handleDeletePreset = () => {
+    deletePreset(presetId);
+    handlePresetChange(DEFAULT_IMPORT_PRESET.id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-full flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">{t.bulkImport.heading(folderName)}</h3>
+            <p className="text-sm text-gray-500">
+              {t.bulkImport.help}
+            </p>
+          </div>
+          <button onClick={onCancel} className="p-1 text-gray-500 hover:bg-gray-100 rounded">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto px-6 py-4 space-y-6">
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <select value={presetId} onChange={(e) => handlePresetChange(e.target.value)} className={`${inputClass} flex-1`}>
+                <option value={DEFAULT_IMPORT_PRESET.id}>{t.bulkImport.defaultPreset}</option>
+                {presets.map((preset) => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                placeholder={t.bulkImport.presetName}
+                className={inputClass}
+              />
+              <button
+                onClick={handleSavePreset}
+                disabled={!presetName.trim()}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                {t.bulkImport.savePreset}
+              </button>
+              {presetId !== DEFAULT_IMPORT_PRESET.id && (
+                <button onClick={handleDeletePreset} className="p-2 text-red-600 hover:bg-red-50 rounded-md" title={t.bulkImport.deletePreset}>
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+
+            {rules.map((rule, index) => {
+              const invalid = !rule.pattern || !compileRulePattern(rule.pattern);
+              const targets = rule.appliesTo === 'folder' ? folderTargets : fileTargets;
+              return (
+                <div key={rule.id} className="flex items-center gap-2">
+                  <select
+                    value={rule.appliesTo}
+                    onChange={(e) => updateRule(rule.id, { appliesTo: e.target.value as ImportRule['appliesTo'] })}
+                    className={inputClass}
+                  >
+                    <option value="folder">{t.bulkImport.folder}</option>
+                    <option value="file">{t.bulkImport.file}</option>
+                  </select>
+                  <input
+                    type="text"
+                    value={rule.pattern}
+                    onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                    placeholder={t.bulkImport.pattern}
+                    className={`${inputClass} flex-1 font-mono ${invalid ? 'border-red-400' : ''}`}
+                  />
+                  <span className="text-sm text-gray-500">{t.bulkImport.becomes}</span>
+                  <select
+                    value={rule.target}
+                    onChange={(e) => updateRule(rule.id, { target: e.target.value as ImportTarget })}
+                    className={inputClass}
+                  >
+                    {targets.map((target) => (
+                      <option key={target} value={target}>
+                        {t.chapterTypes[target]}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => moveRule(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => moveRule(index, 1)}
+                    disabled={index === rules.length - 1}
+                    className="p-1 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setRules(rules.filter((r) => r.id !== rule.id))}
+                    className="p-1 text-red-600 hover:bg-red-50 rounded"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+
+            <button onClick={addRule} className="flex items-center text-sm text-blue-600 hover:text-blue-700">
+              <Plus className="w-4 h-4 mr-1" />
+              {t.bulkImport.addRule}
+            </button>
+          </div>
+
+          <div>
+            <h4 className="font-medium text-gray-900 mb-2">
+              {t.bulkImport.dryRun(importedCount, plan.report.length)}
+            </h4>
+            <table className="w-full text-sm">
+              <tbody>
+                {plan.report.map((entry) => (
+                  <tr key={entry.path} className="border-t">
+                    <td className="py-1 pr-4 font-mono text-xs text-gray-700 break-all">{entry.path}</td>
+                    <td className={`py-1 ${entry.imported ? 'text-green-700' : 'text-gray-500'}`}>{describeEntry(entry, t)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            {t.cancel}
+          </button>
+          <button
+            onClick={() => onConfirm(plan.chapters)}
+            disabled={plan.chapters.length === 0}
+            className="px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {t.bulkImport.confirm(plan.chapters.length)}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
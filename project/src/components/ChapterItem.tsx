@@ -3,6 +3,11 @@ import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { GripVertical, Trash2, Image, Plus, Minus, ChevronDown, ChevronRight } from 'lucide-react';
 import { useEbookStore } from '../store/useEbookStore';
+import { useMessages } from '../store/useLocaleStore';
+import { formatNumber, getBookText } from '../utils/bookText';
+import { ImageFormatError, imageFileTypes, readImageFile } from '../utils/imagePipeline';
+import { onNumberInput } from '../utils/numberInput';
+import { ResolutionWarning } from './ResolutionWarning';
 import type { Chapter, ChapterImage } from '../types';
 
 interface ChapterItemProps {
@@ -13,7 +18,8 @@ interface ChapterItemProps {
 }
 
 export function ChapterItem({ chapter, index }: ChapterItemProps) {
-  const { updateChapter, removeChapter, addSubChapter, removeSubChapter } = useEbookStore();
+  const { settings, updateChapter, removeChapter, addSubChapter, removeSubChapter } = useEbookStore();
+  const t = useMessages();
   const [isExpanded, setIsExpanded] = React.useState(false);
   const {
     attributes,
@@ -28,34 +34,38 @@ export function ChapterItem({ chapter, index }: ChapterItemProps) {
     transition,
   };
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      if (!file.type.startsWith('image/')) {
-        alert('Please upload an image file');
-        return;
+    e.target.value = '';
+    if (!file) return;
+
+    let url: string;
+    try {
+      url = await readImageFile(file);
+    } catch (err) {
+      if (err instanceof ImageFormatError) {
+        alert(t.images.unsupported(err.fileName));
+      } else {
+        console.error('Error reading image:', err);
+        alert(t.images.readFailed(file.name));
       }
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const newImage: ChapterImage = {
-          id: crypto.randomUUID(),
-          url: e.target?.result as string,
-          caption: '',
-          alignment: 'center',
-          width: 100,
-        };
-        updateChapter(chapter.id, {
-          ...chapter,
-          images: [...chapter.images, newImage],
-        });
-      };
-      reader.readAsDataURL(file);
+      return;
     }
+
+    const newImage: ChapterImage = {
+      id: crypto.randomUUID(),
+      url,
+      caption: '',
+      alignment: 'center',
+      width: 100,
+    };
+    // The chapter may have been edited while the image was being read
+    const current = useEbookStore.getState().chapters.find((ch) => ch.id === chapter.id) ?? chapter;
+    updateChapter(chapter.id, { images: [...current.images, newImage] });
   };
 
   const handleImageCaptionChange = (imageId: string, caption: string) => {
     updateChapter(chapter.id, {
-      ...chapter,
       images: chapter.images.map((img) =>
         img.id === imageId ? { ...img, caption } : img
       ),
@@ -64,7 +74,6 @@ export function ChapterItem({ chapter, index }: ChapterItemProps) {
 
   const handleImageAlignmentChange = (imageId: string, alignment: 'left' | 'center' | 'right') => {
     updateChapter(chapter.id, {
-      ...chapter,
       images: chapter.images.map((img) =>
         img.id === imageId ? { ...img, alignment } : img
       ),
@@ -73,15 +82,23 @@ export function ChapterItem({ chapter, index }: ChapterItemProps) {
 
   const handleImageWidthChange = (imageId: string, width: number) => {
     updateChapter(chapter.id, {
-      ...chapter,
       images: chapter.images.map((img) =>
         img.id === imageId ? { ...img, width } : img
       ),
     });
   };
 
+  const handleImageBleedChange = (imageId: string, bleed: boolean) => {
+    updateChapter(chapter.id, {
+      images: chapter.images.map((img) =>
+        img.id === imageId ? { ...img, bleed } : img
+      ),
+    });
+  };
+
   const handleAddSubChapter = () => {
-    addSubChapter(chapter.id, `Subbab ${chapter.subChapters.length + 1}`);
+    const number = formatNumber(chapter.subChapters.length + 1, settings.language);
+    addSubChapter(chapter.id, getBookText(settings.language).subChapterTitle(number));
   };
 
   const getChapterTypeColor = () => {
@@ -99,9 +116,7 @@ export function ChapterItem({ chapter, index }: ChapterItemProps) {
     const newContent = e.target.value;
     // Replace triple newlines with double newlines
     const formattedContent = newContent.replace(/\n{3,}/g, '\n\n');
-    // Replace --- with double newlines
-    const finalContent = formattedContent.replace(/---/g, '\n\n');
-    updateChapter(chapter.id, { ...chapter, content: finalContent });
+    updateChapter(chapter.id, { content: formattedContent });
   };
 
   return (
@@ -132,12 +147,14 @@ export function ChapterItem({ chapter, index }: ChapterItemProps) {
           <input
             type="text"
             value={chapter.title}
-            onChange={(e) => updateChapter(chapter.id, { ...chapter, title: e.target.value })}
+            onChange={(e) => updateChapter(chapter.id, { title: e.target.value })}
             className="flex-1 text-lg font-medium bg-transparent border-none focus:ring-0 p-0"
-            placeholder="Judul"
+            placeholder={t.chapters.titlePlaceholder}
           />
           <button
-            onClick={() => removeChapter(chapter.id)}
+            onClick={() => {
+              if (confirm(t.chapters.confirmRemove(chapter.title || t.untitled))) removeChapter(chapter.id);
+            }}
             className="p-1 text-red-600 hover:bg-red-50 rounded"
           >
             <Trash2 className="w-4 h-4" />
@@ -148,22 +165,22 @@ export function ChapterItem({ chapter, index }: ChapterItemProps) {
           <div className="mt-4 space-y-4">
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
-                <label className="block text-sm font-medium text-gray-700">Indentasi (em)</label>
+                <label className="block text-sm font-medium text-gray-700">{t.chapters.indentation}</label>
                 <input
                   type="number"
                   value={chapter.indentation}
-                  onChange={(e) => updateChapter(chapter.id, { ...chapter, indentation: parseFloat(e.target.value) })}
+                  onChange={onNumberInput((value) => updateChapter(chapter.id, { indentation: value }))}
                   min="0"
                   step="0.5"
                   className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
                 />
               </div>
               <div className="space-y-2">
-                <label className="block text-sm font-medium text-gray-700">Jarak Baris</label>
+                <label className="block text-sm font-medium text-gray-700">{t.chapters.lineSpacing}</label>
                 <input
                   type="number"
                   value={chapter.lineSpacing}
-                  onChange={(e) => updateChapter(chapter.id, { ...chapter, lineSpacing: parseFloat(e.target.value) })}
+                  onChange={onNumberInput((value) => updateChapter(chapter.id, { lineSpacing: value }))}
                   min="1"
                   step="0.1"
                   className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
@@ -171,19 +188,25 @@ export function ChapterItem({ chapter, index }: ChapterItemProps) {
               </div>
             </div>
 
-            <div className="space-y-2">
-              <label className="block text-sm font-medium text-gray-700">Konten</label>
-              <div className="text-xs text-gray-500 mb-1">
-                Gunakan markdown: **tebal**, *miring*, # Judul, 1. Daftar bernomor, - Daftar bullet
+            {chapter.type === 'toc' ? (
+              <p className="text-sm text-gray-500">
+                {t.chapters.tocHelp}
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">{t.chapters.content}</label>
+                <div className="text-xs text-gray-500 mb-1">
+                  {t.chapters.markdownHelp}
+                </div>
+                <textarea
+                  value={chapter.content}
+                  onChange={handleContentChange}
+                  rows={10}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm font-mono"
+                  placeholder={t.chapters.contentPlaceholder}
+                />
               </div>
-              <textarea
-                value={chapter.content}
-                onChange={handleContentChange}
-                rows={10}
-                className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm font-mono"
-                placeholder="Tulis konten di sini menggunakan markdown..."
-              />
-            </div>
+            )}
 
             <div className="space-y-4">
               {chapter.images.map((image) => (
@@ -193,17 +216,18 @@ export function ChapterItem({ chapter, index }: ChapterItemProps) {
                     alt={image.caption}
                     className="max-w-full h-auto rounded"
                   />
+                  <ResolutionWarning url={image.url} />
                   <div className="grid gap-4">
                     <input
                       type="text"
                       value={image.caption}
                       onChange={(e) => handleImageCaptionChange(image.id, e.target.value)}
                       className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-                      placeholder="Keterangan gambar..."
+                      placeholder={t.chapters.captionPlaceholder}
                     />
                     <div className="grid grid-cols-2 gap-4">
                       <div>
-                        <label className="block text-sm font-medium text-gray-700">Perataan</label>
+                        <label className="block text-sm font-medium text-gray-700">{t.chapters.alignment}</label>
                         <select
                           value={image.alignment}
                           onChange={(e) => handleImageAlignmentChange(
@@ -212,23 +236,34 @@ export function ChapterItem({ chapter, index }: ChapterItemProps) {
                           )}
                           className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
                         >
-                          <option value="left">Kiri</option>
-                          <option value="center">Tengah</option>
-                          <option value="right">Kanan</option>
+                          <option value="left">{t.chapters.imageAlignments.left}</option>
+                          <option value="center">{t.chapters.imageAlignments.center}</option>
+                          <option value="right">{t.chapters.imageAlignments.right}</option>
                         </select>
                       </div>
                       <div>
-                        <label className="block text-sm font-medium text-gray-700">Lebar (%)</label>
+                        <label className="block text-sm font-medium text-gray-700">{t.chapters.width}</label>
                         <input
                           type="number"
                           value={image.width}
-                          onChange={(e) => handleImageWidthChange(image.id, parseInt(e.target.value))}
+                          onChange={onNumberInput((value) => handleImageWidthChange(image.id, value), true)}
                           min="10"
                           max="100"
                           className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
                         />
                       </div>
                     </div>
+                    <div className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={image.bleed ?? false}
+                        onChange={(e) => handleImageBleedChange(image.id, e.target.checked)}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                      <label className="ml-2 block text-sm text-gray-900">
+                        {t.chapters.fullBleed}
+                      </label>
+                    </div>
                   </div>
                 </div>
               ))}
@@ -237,13 +272,13 @@ export function ChapterItem({ chapter, index }: ChapterItemProps) {
             {chapter.type === 'chapter' && (
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
-                  <h4 className="text-sm font-medium text-gray-900">Subbab</h4>
+                  <h4 className="text-sm font-medium text-gray-900">{t.chapters.subChapters}</h4>
                   <button
                     onClick={handleAddSubChapter}
                     className="inline-flex items-center px-2 py-1 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
                   >
                     <Plus className="w-4 h-4 mr-1" />
-                    Tambah Subbab
+                    {t.chapters.addSubChapter}
                   </button>
                 </div>
                 {chapter.subChapters.map((subChapter) => (
@@ -253,7 +288,6 @@ export function ChapterItem({ chapter, index }: ChapterItemProps) {
                         type="text"
                         value={subChapter.title}
                         onChange={(e) => updateChapter(chapter.id, {
-                          ...chapter,
                           subChapters: chapter.subChapters.map((sub) =>
                             sub.id === subChapter.id
                               ? { ...sub, title: e.target.value }
@@ -261,7 +295,7 @@ export function ChapterItem({ chapter, index }: ChapterItemProps) {
                           ),
                         })}
                         className="flex-1 text-sm font-medium bg-transparent border-none focus:ring-0 p-0"
-                        placeholder="Judul Subbab"
+                        placeholder={t.chapters.subChapterTitlePlaceholder}
                       />
                       <button
                         onClick={() => removeSubChapter(chapter.id, subChapter.id)}
@@ -273,7 +307,6 @@ export function ChapterItem({ chapter, index }: ChapterItemProps) {
                     <textarea
                       value={subChapter.content}
                       onChange={(e) => updateChapter(chapter.id, {
-                        ...chapter,
                         subChapters: chapter.subChapters.map((sub) =>
                           sub.id === subChapter.id
                             ? { ...sub, content: e.target.value }
@@ -282,7 +315,7 @@ export function ChapterItem({ chapter, index }: ChapterItemProps) {
                       })}
                       rows={3}
                       className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-                      placeholder="Konten subbab..."
+                      placeholder={t.chapters.subChapterContentPlaceholder}
                     />
                   </div>
                 ))}
@@ -292,11 +325,11 @@ export function ChapterItem({ chapter, index }: ChapterItemProps) {
             <div>
               <label className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 cursor-pointer">
                 <Image className="w-4 h-4 mr-2" />
-                Tambah Gambar
+                {t.chapters.addImage}
                 <input
                   type="file"
                   className="hidden"
-                  accept="image/*"
+                  accept={imageFileTypes}
                   onChange={handleImageUpload}
                 />
               </label>
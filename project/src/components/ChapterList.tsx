@@ -1,12 +1,27 @@
 import React from 'react';
 import { useEbookStore } from '../store/useEbookStore';
+import { useMessages } from '../store/useLocaleStore';
 import { DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, useSensors } from '@dnd-kit/core';
 import { arrayMove, SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy } from '@dnd-kit/sortable';
 import { ChapterItem } from './ChapterItem';
-import { Plus, Upload } from 'lucide-react';
+import { DocxImportDialog } from './DocxImportDialog';
+import { BulkImportDialog } from './BulkImportDialog';
+import { Plus, Upload, FileText, X } from 'lucide-react';
+import type { Chapter } from '../types';
+import { getBookText } from '../utils/bookText';
+import { readDocx } from '../utils/docxImport';
+import type { DocxImport } from '../utils/docxImport';
+import { TEXT_FILE_PATTERN } from '../utils/bulkImport';
+import type { ImportFile } from '../utils/bulkImport';
+
+const DOCX_ACCEPT = '.docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document';
 
 export function ChapterList() {
-  const { chapters, addChapter, reorderChapters } = useEbookStore();
+  const { chapters, settings, addChapter, addChapters, reorderChapters } = useEbookStore();
+  const t = useMessages();
+  const [bulkImport, setBulkImport] = React.useState<{ folderName: string; files: ImportFile[] } | null>(null);
+  const [docxImport, setDocxImport] = React.useState<{ fileName: string; draft: DocxImport } | null>(null);
+  const [docxError, setDocxError] = React.useState<string | null>(null);
   const sensors = useSensors(
     useSensor(PointerSensor),
     useSensor(KeyboardSensor, {
@@ -14,17 +29,11 @@ export function ChapterList() {
     })
   );
 
-  const handleAddChapter = (type: 'frontmatter' | 'chapter' | 'backmatter' | 'toc') => {
-    const defaultTitles = {
-      frontmatter: 'Kata Pengantar',
-      chapter: 'Bab Baru',
-      backmatter: 'Penutup',
-      toc: 'Daftar Isi'
-    };
-
+  const handleAddChapter = (type: Chapter['type']) => {
     addChapter({
       id: crypto.randomUUID(),
-      title: defaultTitles[type],
+      // The title goes into the book, so it follows the book's language
+      title: getBookText(settings.language).chapterTitles[type],
       content: '',
       images: [],
       type,
@@ -43,101 +52,42 @@ export function ChapterList() {
     }
   };
 
-  const processContent = (content: string): string => {
-    // Replace triple newlines with double newlines
-    let processedContent = content.replace(/\n{3,}/g, '\n\n');
-    // Replace --- with double newlines
-    processedContent = processedContent.replace(/---/g, '\n\n');
-    return processedContent.trim();
-  };
-
   const handleBulkUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
+    e.target.value = '';
     if (files.length === 0) return;
 
-    // Sort files to ensure correct order
-    files.sort((a, b) => a.webkitRelativePath.localeCompare(b.webkitRelativePath));
-
-    const chaptersMap = new Map();
-    let currentChapter: any = null;
-
-    for (const file of files) {
-      const content = await file.text();
-      const pathParts = file.webkitRelativePath.split('/');
-      const fileName = pathParts[pathParts.length - 1];
-      const folderName = pathParts.length > 2 ? pathParts[pathParts.length - 2] : null;
-
-      if (!fileName.endsWith('.txt')) continue;
-
-      const processedContent = processContent(content);
-
-      if (fileName.toLowerCase() === 'kata pengantar.txt') {
-        addChapter({
-          id: crypto.randomUUID(),
-          title: 'Kata Pengantar',
-          content: processedContent,
-          images: [],
-          type: 'frontmatter',
-          indentation: 0,
-          lineSpacing: 1.5,
-          subChapters: [],
-        });
-      } else if (fileName.toLowerCase() === 'penutup.txt') {
-        addChapter({
-          id: crypto.randomUUID(),
-          title: 'Penutup',
-          content: processedContent,
-          images: [],
-          type: 'backmatter',
-          indentation: 0,
-          lineSpacing: 1.5,
-          subChapters: [],
-        });
-      } else if (folderName && folderName.startsWith('BAB')) {
-        const chapterMatch = folderName.match(/BAB\s*(\d+)\s*-\s*(.*)/i);
-        if (chapterMatch) {
-          const chapterNumber = parseInt(chapterMatch[1]);
-          const chapterTitle = chapterMatch[2].trim();
-
-          if (!chaptersMap.has(chapterNumber)) {
-            currentChapter = {
-              id: crypto.randomUUID(),
-              title: chapterTitle,
-              content: '',
-              images: [],
-              type: 'chapter',
-              indentation: 0,
-              lineSpacing: 1.5,
-              subChapters: [],
-            };
-            chaptersMap.set(chapterNumber, currentChapter);
-          } else {
-            currentChapter = chaptersMap.get(chapterNumber);
-          }
-
-          const subChapterMatch = fileName.match(/(\d+\.\d+)\s*(.*?)\.txt$/);
-          if (subChapterMatch) {
-            currentChapter.subChapters.push({
-              id: crypto.randomUUID(),
-              title: subChapterMatch[2].trim(),
-              content: processedContent,
-            });
-          }
-        }
-      }
-    }
+    // Paths start with the chosen folder itself, which the rules do not see
+    const folderName = files[0].webkitRelativePath.split('/')[0];
+    const importFiles: ImportFile[] = await Promise.all(files.map(async (file) => ({
+      path: file.webkitRelativePath.split('/').slice(1).join('/'),
+      text: TEXT_FILE_PATTERN.test(file.name) ? await file.text() : null,
+    })));
+    setBulkImport({ folderName, files: importFiles });
+  };
 
-    // Add chapters in order
-    const sortedChapters = Array.from(chaptersMap.entries())
-      .sort(([a], [b]) => a - b)
-      .map(([_, chapter]) => chapter);
+  const handleBulkConfirm = (imported: Chapter[]) => {
+    addChapters(imported);
+    setBulkImport(null);
+  };
 
-    for (const chapter of sortedChapters) {
-      addChapter(chapter);
+  const handleDocxUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setDocxError(null);
+    try {
+      setDocxImport({ fileName: file.name, draft: await readDocx(file) });
+    } catch (err) {
+      console.error('Error reading DOCX:', err);
+      setDocxError(t.chapters.docxFailed(file.name));
     }
+  };
 
-    // Reset input
-    e.target.value = '';
+  const handleDocxConfirm = (imported: Chapter[]) => {
+    addChapters(imported);
+    setDocxImport(null);
   };
 
   const buttonClass = "w-full flex items-center justify-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500";
@@ -151,16 +101,16 @@ export function ChapterList() {
   return (
     <div className="space-y-6">
       <div>
-        <h3 className="text-lg font-medium text-gray-900">Daftar Konten</h3>
+        <h3 className="text-lg font-medium text-gray-900">{t.chapters.heading}</h3>
         <p className="mt-1 text-sm text-gray-500">
-          Kelola konten buku Anda termasuk kata pengantar, daftar isi, bab-bab, dan penutup.
+          {t.chapters.help}
         </p>
       </div>
 
       <div className="flex flex-col gap-2">
         <label className={buttonClass + " cursor-pointer"}>
           <Upload className="w-4 h-4 mr-2" />
-          Bulk Upload
+          {t.chapters.bulkUpload}
           <input
             type="file"
             className="hidden"
@@ -171,12 +121,32 @@ export function ChapterList() {
           />
         </label>
 
+        <label className={buttonClass + " cursor-pointer"}>
+          <FileText className="w-4 h-4 mr-2" />
+          {t.chapters.importDocx}
+          <input
+            type="file"
+            className="hidden"
+            accept={DOCX_ACCEPT}
+            onChange={handleDocxUpload}
+          />
+        </label>
+
+        {docxError && (
+          <div className="bg-red-50 border border-red-200 text-red-600 px-3 py-2 rounded-md text-sm flex items-start gap-2">
+            <span className="flex-1">{docxError}</span>
+            <button onClick={() => setDocxError(null)} className="p-0.5 hover:bg-red-100 rounded">
+              <X size={14} />
+            </button>
+          </div>
+        )}
+
         <button
           onClick={() => handleAddChapter('frontmatter')}
           className={buttonClass}
         >
           <Plus className="w-4 h-4 mr-2" />
-          Tambah Kata Pengantar
+          {t.chapters.add.frontmatter}
         </button>
 
         <button
@@ -184,7 +154,7 @@ export function ChapterList() {
           className={buttonClass}
         >
           <Plus className="w-4 h-4 mr-2" />
-          Tambah Daftar Isi
+          {t.chapters.add.toc}
         </button>
 
         <button
@@ -192,7 +162,7 @@ export function ChapterList() {
           className={buttonClass}
         >
           <Plus className="w-4 h-4 mr-2" />
-          Tambah Bab
+          {t.chapters.add.chapter}
         </button>
 
         <button
@@ -200,7 +170,7 @@ export function ChapterList() {
           className={buttonClass}
         >
           <Plus className="w-4 h-4 mr-2" />
-          Tambah Penutup
+          {t.chapters.add.backmatter}
         </button>
       </div>
 
@@ -237,10 +207,10 @@ export function ChapterList() {
             ))}
 
             {/* Render main chapters with automatic numbering */}
-            {mainChapters.map((chapter, index) => (
+            {mainChapters.map((chapter) => (
               <ChapterItem
                 key={chapter.id}
-                chapter={{ ...chapter, pageNumber: index + 1 }}
+                chapter={chapter}
                 index={chapters.indexOf(chapter)}
                 isExpanded={false}
                 onToggleExpand={() => {}}
@@ -260,6 +230,24 @@ export function ChapterList() {
           </SortableContext>
         </DndContext>
       </div>
+
+      {bulkImport && (
+        <BulkImportDialog
+          folderName={bulkImport.folderName}
+          files={bulkImport.files}
+          onConfirm={handleBulkConfirm}
+          onCancel={() => setBulkImport(null)}
+        />
+      )}
+
+      {docxImport && (
+        <DocxImportDialog
+          fileName={docxImport.fileName}
+          draft={docxImport.draft}
+          onConfirm={handleDocxConfirm}
+          onCancel={() => setDocxImport(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,252 @@
+import React from 'react';
+import { X, Download } from 'lucide-react';
+import type { CoverSettings } from '../types';
+import { useEbookStore } from '../store/useEbookStore';
+import { computeBookLayout, useLayoutStore } from '../store/useLayoutStore';
+import { useMessages } from '../store/useLocaleStore';
+import { COVER_SAFE_MARGIN, layoutCoverWrap } from '../utils/coverWrap';
+import type { CoverPanel, CoverWrap } from '../utils/coverWrap';
+import { coverPageCount } from '../utils/layout';
+import type { TextMeasurer } from '../utils/layout';
+import { loadPdfFontData } from '../utils/customFonts';
+import { createMeasuringDoc, createPdfMeasurer } from '../utils/layoutResources';
+import { generateCoverWrapPdf } from '../utils/pdfGenerator';
+import { downloadBlob } from '../utils/download';
+import { onNumberInput } from '../utils/numberInput';
+import { BoxView } from './PageView';
+
+interface CoverDesignerProps {
+  onClose: () => void;
+}
+
+const GUIDE_COLORS = {
+  trim: '#ef4444',
+  fold: '#3b82f6',
+  safe: '#22c55e',
+};
+
+const colorFields = ['background', 'spineColor', 'textColor'] as const;
+const overlayFields = ['frontText', 'spineText', 'blurb', 'barcodeArea'] as const;
+
+// Preview only: where the sheet is cut and folded, and what to keep text inside
+function CoverGuides({ wrap }: { wrap: CoverWrap }) {
+  const line = { fill: 'none', strokeWidth: 1, vectorEffect: 'non-scaling-stroke' as const };
+  const safeArea = (panel: CoverPanel) => (
+    <rect
+      key={panel.x}
+      x={panel.x + COVER_SAFE_MARGIN}
+      y={COVER_SAFE_MARGIN}
+      width={Math.max(0, panel.width - 2 * COVER_SAFE_MARGIN)}
+      height={wrap.height - 2 * COVER_SAFE_MARGIN}
+      stroke={GUIDE_COLORS.safe}
+      strokeDasharray="4 2"
+      {...line}
+    />
+  );
+
+  return (
+    <g>
+      <rect x={0} y={0} width={wrap.width} height={wrap.height} stroke={GUIDE_COLORS.trim} {...line} />
+      {[wrap.spine.x, wrap.spine.x + wrap.spine.width].map((x) => (
+        <line key={x} x1={x} y1={-wrap.bleed} x2={x} y2={wrap.height + wrap.bleed} stroke={GUIDE_COLORS.fold} {...line} />
+      ))}
+      {[wrap.back, wrap.front].map(safeArea)}
+      {wrap.barcode && (
+        <rect
+          x={wrap.barcode.x}
+          y={wrap.barcode.y}
+          width={wrap.barcode.width}
+          height={wrap.barcode.height}
+          stroke="#6b7280"
+          strokeDasharray="2 2"
+          {...line}
+        />
+      )}
+    </g>
+  );
+}
+
+export function CoverDesigner({ onClose }: CoverDesignerProps) {
+  const { settings, chapters, updateSettings } = useEbookStore();
+  const layout = useLayoutStore((state) => state.layout);
+  const [pageCount, setPageCount] = React.useState(0);
+  const t = useMessages();
+  const [measure, setMeasure] = React.useState<TextMeasurer | null>(null);
+  const [showGuides, setShowGuides] = React.useState(true);
+  const [generating, setGenerating] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  // Text is measured with the PDF's font metrics, as in the page preview. Only
+  // the fonts matter; the measurer is reused for every other change.
+  const { customFonts } = settings;
+  React.useEffect(() => {
+    let cancelled = false;
+    loadPdfFontData(customFonts)
+      .then((fonts) => {
+        if (!cancelled) setMeasure(() => createPdfMeasurer(createMeasuringDoc(customFonts, fonts)));
+      })
+      .catch((err) => console.error('Error loading cover fonts:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [customFonts]);
+
+  // The spine holds the print interior. Without the front cover ahead of it,
+  // chapters can start on other sides than in the preview and the page count
+  // differ, so it is laid out on its own after every preview layout.
+  React.useEffect(() => {
+    if (!layout) return;
+    const { chapters, settings } = useEbookStore.getState();
+    if (coverPageCount(settings, 'screen') === coverPageCount(settings, 'print')) {
+      setPageCount(layout.pages.length);
+      return;
+    }
+    let cancelled = false;
+    computeBookLayout(chapters, settings, 'print')
+      .then((printLayout) => {
+        if (!cancelled) setPageCount(printLayout.pages.length);
+      })
+      .catch((err) => console.error('Error laying out the print interior:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [layout]);
+
+  const wrap = React.useMemo(
+    () => (measure ? layoutCoverWrap(settings, pageCount, measure) : null),
+    [measure, settings, pageCount]
+  );
+
+  const updateCover = (changes: Partial<CoverSettings>) =>
+    updateSettings({ cover: { ...settings.cover, ...changes } });
+
+  const handleDownload = async () => {
+    try {
+      setGenerating(true);
+      setError(null);
+      const bytes = await generateCoverWrapPdf(chapters, settings);
+      downloadBlob(new Blob([bytes], { type: 'application/pdf' }), `${settings.title || 'ebook'}-cover.pdf`);
+    } catch (err) {
+      console.error('Error generating cover PDF:', err);
+      setError(t.cover.failed);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-full flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h3 className="text-lg font-medium text-gray-900">{t.cover.heading}</h3>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:bg-gray-100 rounded">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto px-6 py-4 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-600 px-3 py-2 rounded-md text-sm">{error}</div>
+          )}
+          <p className="text-xs text-gray-500">{t.cover.help}</p>
+
+          <div className="grid grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">{t.cover.paperThickness}</label>
+              <input
+                type="number"
+                value={settings.cover.paperThickness}
+                onChange={onNumberInput((value) => updateCover({ paperThickness: value }))}
+                step="0.005"
+                min="0"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+            {colorFields.map((field) => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-gray-700">{t.cover.colors[field]}</label>
+                <input
+                  type="color"
+                  value={settings.cover[field]}
+                  onChange={(e) => updateCover({ [field]: e.target.value })}
+                  className="mt-1 block h-9 w-full rounded-md border-gray-300"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-x-6 gap-y-2">
+            {overlayFields.map((field) => (
+              <div key={field} className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={settings.cover[field]}
+                  onChange={(e) => updateCover({ [field]: e.target.checked })}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <label className="ml-2 block text-sm text-gray-900">{t.cover.overlays[field]}</label>
+              </div>
+            ))}
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                checked={showGuides}
+                onChange={(e) => setShowGuides(e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <label className="ml-2 block text-sm text-gray-900">{t.cover.showGuides}</label>
+            </div>
+          </div>
+
+          {wrap && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-600">
+                {t.cover.spine(wrap.spineWidth.toFixed(1), wrap.pageCount)}
+                {' · '}
+                {t.cover.sheet((wrap.width + 2 * wrap.bleed).toFixed(1), (wrap.height + 2 * wrap.bleed).toFixed(1))}
+              </p>
+              <div className="bg-gray-100 p-4 rounded-md">
+                <svg
+                  viewBox={`${-wrap.bleed} ${-wrap.bleed} ${wrap.width + 2 * wrap.bleed} ${wrap.height + 2 * wrap.bleed}`}
+                  className="w-full h-auto bg-white shadow-md"
+                >
+                  {wrap.boxes.map((box, index) => (
+                    <BoxView key={index} box={box} bleed={wrap.bleed} />
+                  ))}
+                  {showGuides && <CoverGuides wrap={wrap} />}
+                </svg>
+              </div>
+              {showGuides && (
+                <div className="flex gap-4 text-xs text-gray-600">
+                  {(Object.keys(GUIDE_COLORS) as (keyof typeof GUIDE_COLORS)[]).map((guide) => (
+                    <span key={guide} className="flex items-center gap-1">
+                      <span className="inline-block w-3 h-0.5" style={{ backgroundColor: GUIDE_COLORS[guide] }} />
+                      {t.cover.guides[guide]}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t">
+          <button
+            onClick={handleDownload}
+            disabled={generating || !wrap}
+            className="flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Download size={16} />
+            {generating ? t.cover.generating : t.cover.download}
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            {t.cover.close}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
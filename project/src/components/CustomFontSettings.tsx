@@ -0,0 +1,173 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { useEbookStore } from '../store/useEbookStore';
+import { useMessages } from '../store/useLocaleStore';
+import type { CustomFont, EbookSettings, FontVariant } from '../types';
+import {
+  FONT_FILE_ACCEPT,
+  FontFileError,
+  cssFontFamily,
+  fontVariants,
+  readFontFile,
+  standardFontFamilies,
+} from '../utils/customFonts';
+
+type FontRoles = EbookSettings['fonts'];
+
+// Points every role set in `from` at `to`
+function renameRoleFamilies(fonts: FontRoles, from: string, to: string): FontRoles {
+  const renamed = { ...fonts };
+  (Object.keys(renamed) as (keyof FontRoles)[]).forEach((role) => {
+    if (renamed[role].family === from) {
+      renamed[role] = { ...renamed[role], family: to };
+    }
+  });
+  return renamed;
+}
+
+export function CustomFontSettings() {
+  const { settings, updateSettings } = useEbookStore();
+  const [error, setError] = React.useState<string | null>(null);
+  const t = useMessages();
+  const { customFonts } = settings;
+
+  const isNameTaken = (font: CustomFont) =>
+    standardFontFamilies.includes(font.family) ||
+    customFonts.some((other) => other.id !== font.id && other.family === font.family);
+
+  // Reads the latest fonts, an upload may finish after other edits
+  const setFontFile = (id: string, variant: FontVariant, url: string) => {
+    updateSettings({
+      customFonts: useEbookStore.getState().settings.customFonts.map((font) =>
+        font.id === id ? { ...font, files: { ...font.files, [variant]: url } } : font
+      ),
+    });
+  };
+
+  const addFont = () => {
+    let index = customFonts.length + 1;
+    while (customFonts.some((font) => font.family === `Custom Font ${index}`)) index++;
+    updateSettings({
+      customFonts: [
+        ...customFonts,
+        {
+          id: crypto.randomUUID(),
+          family: `Custom Font ${index}`,
+          files: { regular: null, bold: null, italic: null, bolditalic: null },
+        },
+      ],
+    });
+  };
+
+  const renameFont = (font: CustomFont, family: string) => {
+    updateSettings({
+      customFonts: customFonts.map((f) => (f.id === font.id ? { ...f, family } : f)),
+      fonts: renameRoleFamilies(settings.fonts, font.family, family),
+    });
+  };
+
+  const removeFont = (font: CustomFont) => {
+    if (!confirm(t.fonts.confirmRemove(font.family))) return;
+    updateSettings({
+      customFonts: customFonts.filter((f) => f.id !== font.id),
+      fonts: renameRoleFamilies(settings.fonts, font.family, 'Helvetica'),
+    });
+  };
+
+  const handleFileChange = async (
+    e: React.ChangeEvent<HTMLInputElement>,
+    font: CustomFont,
+    variant: FontVariant
+  ) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    try {
+      const blob = await readFontFile(file);
+      setFontFile(font.id, variant, URL.createObjectURL(blob));
+    } catch (err) {
+      if (err instanceof FontFileError) {
+        setError(err.reason === 'cff-outlines' ? t.fonts.cffOutlines(err.fileName) : t.fonts.notAFont(err.fileName));
+      } else {
+        console.error('Error reading font file:', err);
+        setError(t.fonts.readFailed(file.name));
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-gray-900">{t.fonts.customFonts}</h4>
+        <button
+          onClick={addFont}
+          className="flex items-center gap-1 px-2 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded-md"
+        >
+          <Plus size={14} />
+          {t.fonts.addFont}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">
+        {t.fonts.help}
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-600 px-3 py-2 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      {customFonts.map((font) => (
+        <div key={font.id} className="space-y-2 border border-gray-200 rounded-md p-3">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={font.family}
+              onChange={(e) => renameFont(font, e.target.value)}
+              className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+            <button
+              onClick={() => removeFont(font)}
+              className="p-2 text-red-600 hover:bg-red-50 rounded-md"
+              title={t.fonts.removeFont}
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+          {isNameTaken(font) && (
+            <p className="text-xs text-red-600">{t.fonts.nameTaken}</p>
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            {fontVariants.map(({ variant, label }) => (
+              <label
+                key={variant}
+                className="flex items-center justify-between gap-2 px-2 py-1 rounded-md border border-gray-200 text-xs cursor-pointer hover:bg-gray-50"
+              >
+                <span
+                  style={{
+                    fontFamily: cssFontFamily(font.family),
+                    fontWeight: variant.includes('bold') ? 'bold' : 'normal',
+                    fontStyle: variant.includes('italic') ? 'italic' : 'normal',
+                  }}
+                >
+                  {label}
+                </span>
+                <span className={font.files[variant] ? 'text-green-600' : 'text-gray-400'}>
+                  {font.files[variant] ? t.fonts.uploaded : t.fonts.upload}
+                </span>
+                <input
+                  type="file"
+                  accept={FONT_FILE_ACCEPT}
+                  className="hidden"
+                  onChange={(e) => handleFileChange(e, font, variant)}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import type { Chapter } from '../types';
+import { useMessages } from '../store/useLocaleStore';
+import { applyDocxMapping } from '../utils/docxImport';
+import type { DocxImport, DocxSectionMapping } from '../utils/docxImport';
+
+interface DocxImportDialogProps {
+  fileName: string;
+  draft: DocxImport;
+  onConfirm: (chapters: Chapter[]) => void;
+  onCancel: () => void;
+}
+
+const mappingOptions: DocxSectionMapping[] = ['frontmatter', 'chapter', 'subchapter', 'backmatter', 'skip'];
+
+const EXCERPT_LENGTH = 160;
+
+function excerpt(content: string) {
+  const text = content.replace(/\s+/g, ' ').trim();
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text;
+}
+
+// Shows what the document was split into, so sections can be retitled,
+// re-typed or dropped before anything reaches the book
+export function DocxImportDialog({ fileName, draft, onConfirm, onCancel }: DocxImportDialogProps) {
+  const t = useMessages();
+  const [titles, setTitles] = React.useState(() => draft.chapters.map((chapter) => chapter.title));
+  const [mappings, setMappings] = React.useState<DocxSectionMapping[]>(() =>
+    draft.chapters.map((chapter) => chapter.type)
+  );
+
+  const update = <T,>(values: T[], index: number, value: T) =>
+    values.map((current, i) => (i === index ? value : current));
+
+  const handleConfirm = () => {
+    const chapters = draft.chapters.map((chapter, index) => ({ ...chapter, title: titles[index] }));
+    onConfirm(applyDocxMapping(chapters, mappings));
+  };
+
+  const importedCount = mappings.filter((mapping) => mapping !== 'skip' && mapping !== 'subchapter').length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-full flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">{t.docxImport.heading(fileName)}</h3>
+            <p className="text-sm text-gray-500">
+              {t.docxImport.help}
+            </p>
+          </div>
+          <button onClick={onCancel} className="p-1 text-gray-500 hover:bg-gray-100 rounded">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto px-6 py-4 space-y-3">
+          {draft.warnings.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-3 py-2 rounded-md text-sm">
+              <span className="font-medium">{t.docxImport.warnings}</span>
+              <ul className="mt-1 space-y-0.5 max-h-24 overflow-auto text-xs">
+                {draft.warnings.map((warning, idx) => (
+                  <li key={idx}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {draft.chapters.length === 0 && (
+            <p className="text-sm text-gray-500">{t.docxImport.empty}</p>
+          )}
+
+          {draft.chapters.map((chapter, index) => (
+            <div
+              key={chapter.id}
+              className={`border rounded-lg p-4 space-y-2 ${mappings[index] === 'skip' ? 'opacity-50' : ''}`}
+            >
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={titles[index]}
+                  onChange={(e) => setTitles(update(titles, index, e.target.value))}
+                  className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm font-medium"
+                />
+                <select
+                  value={mappings[index]}
+                  onChange={(e) => setMappings(update(mappings, index, e.target.value as DocxSectionMapping))}
+                  className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                >
+                  {mappingOptions
+                    .filter((option) => option !== 'subchapter' || index > 0)
+                    .map((option) => (
+                      <option key={option} value={option}>
+                        {t.docxImport.mappings[option]}
+                      </option>
+                    ))}
+                </select>
+              </div>
+              {chapter.content && <p className="text-sm text-gray-600">{excerpt(chapter.content)}</p>}
+              {chapter.subChapters.length > 0 && (
+                <ul className="text-sm text-gray-700 list-disc pl-5">
+                  {chapter.subChapters.map((subChapter) => (
+                    <li key={subChapter.id}>{subChapter.title || t.untitled}</li>
+                  ))}
+                </ul>
+              )}
+              {chapter.images.length > 0 && (
+                <p className="text-xs text-gray-500">{t.docxImport.imageCount(chapter.images.length)}</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            {t.cancel}
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={importedCount === 0}
+            className="px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {t.docxImport.confirm(importedCount)}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Undo2, Redo2, History, ChevronDown, ChevronRight } from 'lucide-react';
+import { useEbookStore } from '../store/useEbookStore';
+import type { HistoryAction } from '../store/useEbookStore';
+import { useMessages } from '../store/useLocaleStore';
+import type { Messages } from '../utils/messages';
+import { cn } from '../utils/cn';
+
+function describeAction(action: HistoryAction, t: Messages) {
+  switch (action.kind) {
+    case 'open':
+      return t.history.open;
+    case 'add-chapter':
+      return t.history.addChapter(action.title || t.untitled);
+    case 'edit-chapter':
+      return t.history.editChapter(action.title || t.untitled);
+    case 'remove-chapter':
+      return t.history.removeChapter(action.title || t.untitled);
+    case 'add-subchapter':
+      return t.history.addSubChapter(action.title || t.untitled);
+    case 'remove-subchapter':
+      return t.history.removeSubChapter(action.title || t.untitled);
+    case 'restore-snapshot':
+      return t.history.restoreSnapshot(action.snapshot);
+    case 'restore-chapter':
+      return t.history.restoreChapter(action.title || t.untitled, action.snapshot);
+    case 'import-chapters':
+      return t.history.importChapters(action.count);
+    case 'reorder':
+      return t.history.reorder;
+    case 'settings':
+      return t.history.settings;
+  }
+}
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleTimeString([], { timeStyle: 'short' });
+}
+
+// Newest step on top. Steps above the current one were undone and stay
+// available until the next edit replaces them.
+export function HistoryPanel() {
+  const { history, historyIndex, undo, redo, jumpToHistory } = useEbookStore();
+  const t = useMessages();
+  const [isOpen, setIsOpen] = React.useState(false);
+
+  const current = history[historyIndex];
+  const iconButtonClass = "p-2 text-gray-600 hover:bg-gray-100 rounded-md disabled:opacity-50";
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex items-center gap-1">
+        <button onClick={undo} disabled={historyIndex <= 0} className={iconButtonClass} title={t.history.undo}>
+          <Undo2 size={16} />
+        </button>
+        <button
+          onClick={redo}
+          disabled={historyIndex >= history.length - 1}
+          className={iconButtonClass}
+          title={t.history.redo}
+        >
+          <Redo2 size={16} />
+        </button>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex-1 min-w-0 flex items-center gap-2 px-2 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded-md"
+          title={t.history.toggle}
+        >
+          <History size={14} className="shrink-0" />
+          <span className="flex-1 truncate text-left">{current ? describeAction(current.action, t) : ''}</span>
+          {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        </button>
+      </div>
+
+      {isOpen && (
+        <ol className="max-h-64 overflow-auto bg-white border border-gray-200 rounded-md divide-y divide-gray-100">
+          {history.map((step, index) => ({ step, index })).reverse().map(({ step, index }) => (
+            <li key={step.id}>
+              <button
+                onClick={() => jumpToHistory(index)}
+                className={cn(
+                  'w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm hover:bg-gray-50',
+                  index === historyIndex && 'bg-blue-50 text-blue-700 font-medium',
+                  index > historyIndex && 'text-gray-400'
+                )}
+              >
+                <span className="flex-1 truncate">{describeAction(step.action, t)}</span>
+                <span className="text-xs text-gray-400">{formatTime(step.time)}</span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
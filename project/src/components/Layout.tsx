@@ -1,8 +1,11 @@
 import React from 'react';
-import { Settings, BookOpen, FileDown } from 'lucide-react';
+import { Settings, BookOpen, FileDown, BookDown, Printer } from 'lucide-react';
 import { cn } from '../utils/cn';
 import { useEbookStore } from '../store/useEbookStore';
+import { useMessages } from '../store/useLocaleStore';
 import { Preview } from './Preview';
+import { ProjectSwitcher } from './ProjectSwitcher';
+import { HistoryPanel } from './HistoryPanel';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -11,11 +14,15 @@ interface LayoutProps {
 }
 
 export function Layout({ children, activeTab, onTabChange }: LayoutProps) {
+  const t = useMessages();
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="flex gap-8">
           <aside className="w-96">
+            <ProjectSwitcher />
+            <HistoryPanel />
             <nav className="flex items-center justify-center space-x-2 mb-6">
               <button
                 onClick={() => onTabChange('settings')}
@@ -27,7 +34,7 @@ export function Layout({ children, activeTab, onTabChange }: LayoutProps) {
                 )}
               >
                 <Settings size={16} />
-                Settings
+                {t.layout.settings}
               </button>
               <button
                 onClick={() => onTabChange('chapters')}
@@ -39,15 +46,30 @@ export function Layout({ children, activeTab, onTabChange }: LayoutProps) {
                 )}
               >
                 <BookOpen size={16} />
-                Chapters
+                {t.layout.chapters}
               </button>
               <button
                 onClick={() => document.getElementById('generate-pdf-btn')?.click()}
                 className="px-3 py-2 text-gray-600 hover:bg-gray-100 rounded-md flex items-center gap-2"
-                title="Generate PDF"
+                title={t.layout.generatePdf}
               >
                 <FileDown size={16} />
-                Download
+                PDF
+              </button>
+              <button
+                onClick={() => document.getElementById('generate-print-pdf-btn')?.click()}
+                className="px-3 py-2 text-gray-600 hover:bg-gray-100 rounded-md flex items-center gap-2"
+                title={t.layout.generatePrintPdf}
+              >
+                <Printer size={16} />
+              </button>
+              <button
+                onClick={() => document.getElementById('generate-epub-btn')?.click()}
+                className="px-3 py-2 text-gray-600 hover:bg-gray-100 rounded-md flex items-center gap-2"
+                title={t.layout.generateEpub}
+              >
+                <BookDown size={16} />
+                EPUB
               </button>
             </nav>
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
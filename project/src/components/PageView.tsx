@@ -0,0 +1,107 @@
+import React from 'react';
+import type { LayoutBox, LayoutPage } from '../utils/layout';
+import { PT_TO_MM } from '../utils/layout';
+import { cssFontFamily } from '../utils/customFonts';
+
+// CSS pixels per millimetre at 100% zoom
+export const PX_PER_MM = 96 / 25.4;
+
+export type PreviewPage =
+  | { kind: 'cover'; key: string; url: string }
+  | { kind: 'layout'; key: string; page: LayoutPage };
+
+interface PageViewProps {
+  page: PreviewPage;
+  width: number; // mm
+  height: number; // mm
+  zoom: number;
+  gutter?: number; // mm, shaded on the binding edge
+}
+
+// One layout box in page millimetres. Full-page images run out by `bleed`
+// on every side, as the print PDF draws them.
+export function BoxView({ box, bleed = 0 }: { box: LayoutBox; bleed?: number }) {
+  if (box.type === 'image') {
+    const grow = box.bleed ? bleed : 0;
+    return (
+      <image
+        href={box.url}
+        x={box.x - grow}
+        y={box.y - grow}
+        width={box.width + 2 * grow}
+        height={box.height + 2 * grow}
+        preserveAspectRatio={box.bleed ? 'xMidYMid slice' : 'none'}
+      />
+    );
+  }
+  if (box.type === 'line') {
+    return (
+      <line
+        x1={box.x1}
+        y1={box.y1}
+        x2={box.x2}
+        y2={box.y2}
+        stroke={box.color ?? '#000000'}
+        strokeWidth={box.width}
+      />
+    );
+  }
+  if (box.type === 'rect') {
+    return (
+      <rect
+        x={box.x}
+        y={box.y}
+        width={box.width}
+        height={box.height}
+        fill={box.fill ?? 'none'}
+        stroke={box.stroke}
+        strokeWidth={box.stroke ? 0.2 : undefined}
+      />
+    );
+  }
+  return (
+    <text
+      x={box.x}
+      y={box.y}
+      transform={box.angle ? `rotate(${-box.angle} ${box.x} ${box.y})` : undefined}
+      fill={box.color ?? '#000000'}
+      fontFamily={cssFontFamily(box.font.family)}
+      fontSize={box.font.size * PT_TO_MM}
+      fontWeight={box.font.style.includes('bold') ? 'bold' : 'normal'}
+      fontStyle={box.font.style.includes('italic') ? 'italic' : 'normal'}
+      xmlSpace="preserve"
+    >
+      {box.text}
+    </text>
+  );
+}
+
+// Draws one page in page millimetres, so boxes land where the PDF puts them.
+// SVG text sits on its baseline like jsPDF's, which HTML text cannot do.
+export const PageView = React.memo(function PageView({ page, width, height, zoom, gutter = 0 }: PageViewProps) {
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      width={width * PX_PER_MM * zoom}
+      height={height * PX_PER_MM * zoom}
+      className="bg-white shadow-md"
+    >
+      {page.kind === 'cover' ? (
+        // Covers are fitted inside the page, as in the PDF
+        <image href={page.url} width={width} height={height} preserveAspectRatio="xMidYMid meet" />
+      ) : (
+        page.page.boxes.map((box, index) => <BoxView key={index} box={box} />)
+      )}
+      {gutter > 0 && page.kind === 'layout' && (
+        <rect
+          x={page.page.side === 'recto' ? 0 : width - gutter}
+          y={0}
+          width={gutter}
+          height={height}
+          fill="#6b7280"
+          fillOpacity={0.12}
+        />
+      )}
+    </svg>
+  );
+});
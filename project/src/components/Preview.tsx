@@ -1,419 +1,122 @@
 import React from 'react';
+import { Columns2, File, ZoomIn, ZoomOut } from 'lucide-react';
 import { useEbookStore } from '../store/useEbookStore';
-import { jsPDF } from 'jspdf';
-import { PDFDocument } from 'pdf-lib';
-import { parsePDFMarkdown } from '../utils/pdfMarkdownParser';
-import { parseMarkdown } from '../utils/markdownParser';
+import { useProjectStore } from '../store/useProjectStore';
+import { useLayoutStore } from '../store/useLayoutStore';
+import { useMessages } from '../store/useLocaleStore';
+import { downloadBlob } from '../utils/download';
+import { generateBookPdf } from '../utils/pdfGenerator';
+import { generateEpub } from '../utils/epubGenerator';
+import { buildFontFaceCss } from '../utils/customFonts';
+import { cn } from '../utils/cn';
+import { PX_PER_MM, PageView } from './PageView';
+import type { PreviewPage } from './PageView';
+import type { Messages } from '../utils/messages';
+import type { PdfProfile } from '../types';
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+const THUMBNAIL_ZOOM = 0.15;
+
+// The first page is a recto on its own, every later pair faces each other
+function groupSpreads(count: number): number[][] {
+  const spreads: number[][] = count > 0 ? [[0]] : [];
+  for (let i = 1; i < count; i += 2) {
+    spreads.push(i + 1 < count ? [i, i + 1] : [i]);
+  }
+  return spreads;
+}
+
+function pageTitle(page: PreviewPage, index: number, t: Messages) {
+  if (page.kind === 'cover') return index === 0 ? t.preview.cover : t.preview.backCover;
+  return page.page.label || (page.page.kind === 'title' ? t.preview.titlePage : '');
+}
 
 export function Preview() {
   const { settings, chapters } = useEbookStore();
-  const [isGenerating, setIsGenerating] = React.useState(false);
+  const projectId = useProjectStore((state) => state.currentProjectId);
+  const { layout, error: layoutError } = useLayoutStore();
+  const t = useMessages();
+  const fontFaceCss = React.useMemo(() => buildFontFaceCss(settings.customFonts), [settings.customFonts]);
+  const [generating, setGenerating] = React.useState<string | null>(null);
   const [error, setError] = React.useState<string | null>(null);
-  const contentRef = React.useRef<HTMLDivElement>(null);
-
-  const loadImage = async (url: string): Promise<HTMLImageElement> => {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.crossOrigin = 'Anonymous';
-      img.onload = () => resolve(img);
-      img.onerror = () => reject(new Error('Failed to load image'));
-      img.src = url;
-    });
-  };
+  const [zoomIndex, setZoomIndex] = React.useState(ZOOM_LEVELS.indexOf(0.75));
+  const [spreadView, setSpreadView] = React.useState(false);
+  const [activePage, setActivePage] = React.useState(0);
+  const pageRefs = React.useRef(new Map<number, HTMLDivElement>());
+
+  const zoom = ZOOM_LEVELS[zoomIndex];
+
+  // Same page sequence as the downloaded PDF, covers included
+  const pages = React.useMemo<PreviewPage[]>(() => {
+    if (!layout) return [];
+    return [
+      ...(settings.coverImage ? [{ kind: 'cover' as const, key: 'cover', url: settings.coverImage }] : []),
+      ...layout.pages.map((page) => ({ kind: 'layout' as const, key: `page-${page.number}`, page })),
+      ...(settings.backCoverImage ? [{ kind: 'cover' as const, key: 'back-cover', url: settings.backCoverImage }] : []),
+    ];
+  }, [layout, settings.coverImage, settings.backCoverImage]);
 
-  const generateCoverPDF = async (imageUrl: string): Promise<Uint8Array> => {
-    try {
-      const doc = new jsPDF({
-        orientation: 'portrait',
-        unit: 'mm',
-        format: settings.paperSize,
-        compress: true
-      });
+  const pageWidthPx = (layout?.pageWidth ?? 0) * PX_PER_MM * zoom;
+  const spreads = spreadView ? groupSpreads(pages.length) : pages.map((_, index) => [index]);
 
-      const img = await loadImage(imageUrl);
-      const pageWidth = doc.internal.pageSize.getWidth();
-      const pageHeight = doc.internal.pageSize.getHeight();
-      
-      const imgRatio = img.width / img.height;
-      const pageRatio = pageWidth / pageHeight;
-      
-      let drawWidth = pageWidth;
-      let drawHeight = pageHeight;
-      
-      if (imgRatio > pageRatio) {
-        drawHeight = pageWidth / imgRatio;
-      } else {
-        drawWidth = pageHeight * imgRatio;
-      }
-      
-      const x = (pageWidth - drawWidth) / 2;
-      const y = (pageHeight - drawHeight) / 2;
-      
-      doc.addImage(img, 'JPEG', x, y, drawWidth, drawHeight);
-      return new Uint8Array(doc.output('arraybuffer'));
-    } catch (err) {
-      console.error('Error generating cover PDF:', err);
-      throw err;
-    }
+  const goToPage = (index: number) => {
+    setActivePage(index);
+    pageRefs.current.get(index)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
   };
 
-  function romanize(num: number): string {
-    if (!num || num <= 0) return '';
-    
-    const romanNumerals = [
-      { value: 1000, numeral: 'M' },
-      { value: 900, numeral: 'CM' },
-      { value: 500, numeral: 'D' },
-      { value: 400, numeral: 'CD' },
-      { value: 100, numeral: 'C' },
-      { value: 90, numeral: 'XC' },
-      { value: 50, numeral: 'L' },
-      { value: 40, numeral: 'XL' },
-      { value: 10, numeral: 'X' },
-      { value: 9, numeral: 'IX' },
-      { value: 5, numeral: 'V' },
-      { value: 4, numeral: 'IV' },
-      { value: 1, numeral: 'I' }
-    ];
-    
-    let result = '';
-    let remaining = num;
-    
-    for (const { value, numeral } of romanNumerals) {
-      while (remaining >= value) {
-        result += numeral;
-        remaining -= value;
-      }
-    }
-    
-    return result.toLowerCase();
-  }
-
-  const generatePdf = async () => {
+  const generatePdf = async (profile: PdfProfile) => {
     try {
-      setIsGenerating(true);
+      setGenerating(profile === 'print' ? t.preview.printPdf : 'PDF');
       setError(null);
 
-      const doc = new jsPDF({
-        unit: 'mm',
-        format: settings.paperSize,
-        orientation: 'portrait',
-        compress: true
-      });
-
-      const imagePromises: Promise<void>[] = [];
-      chapters.forEach(chapter => {
-        chapter.images.forEach(image => {
-          imagePromises.push(loadImage(image.url).then());
-        });
-      });
-      await Promise.all(imagePromises);
-
-      doc.setFont(settings.fonts.paragraph.family);
-      doc.setR2L(false);
-
-      const pageWidth = doc.internal.pageSize.getWidth();
-      const pageHeight = doc.internal.pageSize.getHeight();
-      const marginLeft = settings.margins.left * 10;
-      const marginRight = settings.margins.right * 10;
-      const marginTop = settings.margins.top * 10;
-      const marginBottom = settings.margins.bottom * 10;
-      const contentWidth = pageWidth - marginLeft - marginRight;
-
-      let romanPageCount = 1;
-      let arabicPageCount = 1;
-      let currentY = marginTop;
-
-      const addPageNumber = (isRoman: boolean, skipNumber = false) => {
-        if (settings.pageNumbering.enabled && !skipNumber) {
-          const pageNum = isRoman 
-            ? romanize(romanPageCount)
-            : arabicPageCount.toString();
-          
-          const x = settings.pageNumbering.alignment === 'center' 
-            ? pageWidth / 2
-            : settings.pageNumbering.alignment === 'right'
-              ? pageWidth - marginRight
-              : marginLeft;
-          
-          const y = settings.pageNumbering.position === 'top'
-            ? marginTop - 5
-            : pageHeight - (marginBottom / 2);
-
-          doc.setFont(settings.fonts.footer.family);
-          doc.setFontSize(settings.fonts.footer.size);
-          doc.text(pageNum, x, y, { align: settings.pageNumbering.alignment });
-        }
-      };
-
-      doc.addPage();
-      doc.setFont(settings.fonts.title.family);
-      doc.setFontSize(settings.fonts.title.size);
-      const titleY = pageHeight / 2 - (settings.fonts.title.size * settings.fonts.title.lineHeight);
-      doc.text(settings.title || 'Untitled', pageWidth / 2, titleY, { 
-        align: settings.fonts.title.alignment 
-      });
-      
-      doc.setFont(settings.fonts.subtitle.family);
-      doc.setFontSize(settings.fonts.subtitle.size);
-      const subtitleY = pageHeight / 2 + (settings.fonts.subtitle.size * settings.fonts.subtitle.lineHeight);
-      doc.text(settings.author || '', pageWidth / 2, subtitleY, { 
-        align: settings.fonts.subtitle.alignment 
-      });
-
-      romanPageCount++;
-      doc.addPage();
-      currentY = marginTop;
-
-      const frontmatterChapters = chapters.filter(ch => ch.type === 'frontmatter' || ch.type === 'toc');
-      for (const chapter of frontmatterChapters) {
-        doc.setFont(settings.fonts.subtitle.family);
-        doc.setFontSize(settings.fonts.subtitle.size);
-        doc.text(chapter.title, pageWidth / 2, currentY, { 
-          align: settings.fonts.subtitle.alignment 
-        });
-
-        currentY += settings.fonts.subtitle.lineHeight * settings.fonts.subtitle.size * 0.352778;
-        doc.setFont(settings.fonts.frontmatterContent.family);
-        doc.setFontSize(settings.fonts.frontmatterContent.size);
-
-        const paragraphs = chapter.content.split('\n\n').filter(p => p.trim());
-        for (const paragraph of paragraphs) {
-          if (currentY > pageHeight - marginBottom - 20) {
-            addPageNumber(true);
-            romanPageCount++;
-            doc.addPage();
-            currentY = marginTop;
-          }
-
-          currentY = parsePDFMarkdown(doc, paragraph, marginLeft, currentY, {
-            maxWidth: contentWidth,
-            align: settings.fonts.frontmatterContent.alignment,
-            fontSize: settings.fonts.frontmatterContent.size,
-            lineHeight: settings.fonts.frontmatterContent.lineHeight,
-            font: settings.fonts.frontmatterContent.family
-          });
-        }
-
-        addPageNumber(true);
-        romanPageCount++;
-        doc.addPage();
-        currentY = marginTop;
-      }
-
-      const mainChapters = chapters.filter(ch => ch.type === 'chapter');
-      for (const chapter of mainChapters) {
-        doc.setFont(settings.fonts.title.family);
-        doc.setFontSize(settings.fonts.title.size);
-        
-        const chapterTitle = `Bab ${chapter.pageNumber}\n${chapter.title}`;
-        const titleLines = doc.splitTextToSize(chapterTitle, contentWidth);
-        const titleHeight = titleLines.length * settings.fonts.title.size * settings.fonts.title.lineHeight;
-        const titleY = (pageHeight - titleHeight) / 2;
-        
-        doc.text(chapterTitle, pageWidth / 2, titleY, { 
-          align: settings.fonts.title.alignment,
-          maxWidth: contentWidth
-        });
-        
-        arabicPageCount++;
-        doc.addPage();
-        currentY = marginTop;
-
-        doc.setFont(settings.fonts.chapterContent.family);
-        doc.setFontSize(settings.fonts.chapterContent.size);
-
-        const paragraphs = chapter.content.split('\n\n').filter(p => p.trim());
-        for (const paragraph of paragraphs) {
-          if (currentY > pageHeight - marginBottom - 20) {
-            addPageNumber(false);
-            arabicPageCount++;
-            doc.addPage();
-            currentY = marginTop;
-          }
-
-          currentY = parsePDFMarkdown(doc, paragraph, marginLeft + (chapter.indentation * 10), currentY, {
-            maxWidth: contentWidth - (chapter.indentation * 10),
-            align: settings.fonts.chapterContent.alignment,
-            fontSize: settings.fonts.chapterContent.size,
-            lineHeight: settings.fonts.chapterContent.lineHeight,
-            font: settings.fonts.chapterContent.family
-          });
-        }
-
-        for (const image of chapter.images) {
-          if (currentY > pageHeight - marginBottom - 40) {
-            addPageNumber(false);
-            arabicPageCount++;
-            doc.addPage();
-            currentY = marginTop;
-          }
-
-          const imgWidth = (contentWidth * image.width) / 100;
-          const img = await loadImage(image.url);
-          const imgHeight = (imgWidth * img.height) / img.width;
-
-          let x = marginLeft;
-          if (image.alignment === 'center') {
-            x = (pageWidth - imgWidth) / 2;
-          } else if (image.alignment === 'right') {
-            x = pageWidth - marginRight - imgWidth;
-          }
-
-          doc.addImage(img, 'JPEG', x, currentY, imgWidth, imgHeight);
-          currentY += imgHeight + settings.fonts.chapterContent.lineHeight * settings.fonts.chapterContent.size * 0.352778;
-
-          if (image.caption) {
-            doc.setFontSize(settings.fonts.chapterContent.size * 0.8);
-            doc.text(image.caption, pageWidth / 2, currentY, { align: 'center' });
-            currentY += settings.fonts.chapterContent.lineHeight * settings.fonts.chapterContent.size * 0.352778;
-          }
-        }
-
-        for (const subChapter of chapter.subChapters) {
-          if (currentY > pageHeight - marginBottom - 20) {
-            addPageNumber(false);
-            arabicPageCount++;
-            doc.addPage();
-            currentY = marginTop;
-          }
-
-          doc.setFont(settings.fonts.subtitle.family);
-          doc.setFontSize(settings.fonts.subtitle.size * 0.8);
-          currentY += settings.fonts.subtitle.lineHeight * settings.fonts.subtitle.size * 0.352778;
-          doc.text(subChapter.title, marginLeft, currentY, {
-            align: 'left',
-            maxWidth: contentWidth
-          });
-
-          doc.setFont(settings.fonts.subchapterContent.family);
-          doc.setFontSize(settings.fonts.subchapterContent.size);
-          currentY += settings.fonts.subchapterContent.lineHeight * settings.fonts.subchapterContent.size * 0.352778;
-
-          const subParagraphs = subChapter.content.split('\n\n').filter(p => p.trim());
-          for (const paragraph of subParagraphs) {
-            if (currentY > pageHeight - marginBottom - 20) {
-              addPageNumber(false);
-              arabicPageCount++;
-              doc.addPage();
-              currentY = marginTop;
-            }
-
-            currentY = parsePDFMarkdown(doc, paragraph, marginLeft + (chapter.indentation * 10), currentY, {
-              maxWidth: contentWidth - (chapter.indentation * 10),
-              align: settings.fonts.subchapterContent.alignment,
-              fontSize: settings.fonts.subchapterContent.size,
-              lineHeight: settings.fonts.subchapterContent.lineHeight,
-              font: settings.fonts.subchapterContent.family
-            });
-          }
-        }
+      const { bytes } = await generateBookPdf(chapters, settings, profile);
 
-        addPageNumber(false);
-        arabicPageCount++;
-        doc.addPage();
-        currentY = marginTop;
-      }
+      const blob = new Blob([bytes], { type: 'application/pdf' });
+      downloadBlob(blob, `${settings.title || 'ebook'}${profile === 'print' ? '-print' : ''}.pdf`);
 
-      const backmatterChapters = chapters.filter(ch => ch.type === 'backmatter');
-      for (const chapter of backmatterChapters) {
-        doc.setFont(settings.fonts.subtitle.family);
-        doc.setFontSize(settings.fonts.subtitle.size);
-        doc.text(chapter.title, pageWidth / 2, currentY, { 
-          align: settings.fonts.subtitle.alignment 
-        });
-
-        currentY += settings.fonts.subtitle.lineHeight * settings.fonts.subtitle.size * 0.352778;
-        doc.setFont(settings.fonts.backmatterContent.family);
-        doc.setFontSize(settings.fonts.backmatterContent.size);
-
-        const paragraphs = chapter.content.split('\n\n').filter(p => p.trim());
-        for (const paragraph of paragraphs) {
-          if (currentY > pageHeight - marginBottom - 20) {
-            addPageNumber(false);
-            arabicPageCount++;
-            doc.addPage();
-            currentY = marginTop;
-          }
-
-          currentY = parsePDFMarkdown(doc, paragraph, marginLeft, currentY, {
-            maxWidth: contentWidth,
-            align: settings.fonts.backmatterContent.alignment,
-            fontSize: settings.fonts.backmatterContent.size,
-            lineHeight: settings.fonts.backmatterContent.lineHeight,
-            font: settings.fonts.backmatterContent.family
-          });
-        }
-
-        if (backmatterChapters.indexOf(chapter) < backmatterChapters.length - 1) {
-          addPageNumber(false);
-          arabicPageCount++;
-          doc.addPage();
-          currentY = marginTop;
-        }
-      }
-
-      const contentPdfBytes = doc.output('arraybuffer');
-
-      let coverPdfBytes: Uint8Array | null = null;
-      if (settings.coverImage) {
-        try {
-          coverPdfBytes = await generateCoverPDF(settings.coverImage);
-        } catch (err) {
-          console.error('Error generating cover PDF:', err);
-        }
-      }
-
-      let backCoverPdfBytes: Uint8Array | null = null;
-      if (settings.backCoverImage) {
-        try {
-          backCoverPdfBytes = await generateCoverPDF(settings.backCoverImage);
-        } catch (err) {
-          console.error('Error generating back cover PDF:', err);
-        }
-      }
-
-      const mergedPdf = await PDFDocument.create();
-      
-      if (coverPdfBytes) {
-        const coverDoc = await PDFDocument.load(coverPdfBytes);
-        const coverPages = await mergedPdf.copyPages(coverDoc, coverDoc.getPageIndices());
-        coverPages.forEach(page => mergedPdf.addPage(page));
-      }
-
-      const contentDoc = await PDFDocument.load(contentPdfBytes);
-      const contentPages = await mergedPdf.copyPages(contentDoc, contentDoc.getPageIndices());
-      contentPages.forEach(page => mergedPdf.addPage(page));
+    } catch (error) {
+      console.error('Error generating PDF:', error);
+      setError(t.preview.pdfFailed);
+    } finally {
+      setGenerating(null);
+    }
+  };
 
-      if (backCoverPdfBytes) {
-        const backCoverDoc = await PDFDocument.load(backCoverPdfBytes);
-        const backCoverPages = await mergedPdf.copyPages(backCoverDoc, backCoverDoc.getPageIndices());
-        backCoverPages.forEach(page => mergedPdf.addPage(page));
-      }
+  const generateEpubFile = async () => {
+    try {
+      setGenerating('EPUB');
+      setError(null);
 
-      const mergedPdfBytes = await mergedPdf.save();
-      const blob = new Blob([mergedPdfBytes], { type: 'application/pdf' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `${settings.title || 'ebook'}.pdf`;
-      link.click();
-      URL.revokeObjectURL(url);
+      const blob = await generateEpub(chapters, settings, { identifier: projectId ?? undefined });
+      downloadBlob(blob, `${settings.title || 'ebook'}.epub`);
 
     } catch (error) {
-      console.error('Error generating PDF:', error);
-      setError('Failed to generate PDF. Please try again.');
+      console.error('Error generating EPUB:', error);
+      setError(t.preview.epubFailed);
     } finally {
-      setIsGenerating(false);
+      setGenerating(null);
     }
   };
 
   return (
     <div className="h-full flex flex-col">
+      {fontFaceCss && <style>{fontFaceCss}</style>}
       <button
         id="generate-pdf-btn"
-        onClick={generatePdf}
-        disabled={isGenerating}
+        onClick={() => generatePdf('screen')}
+        disabled={generating !== null}
+        className="hidden"
+      />
+      <button
+        id="generate-print-pdf-btn"
+        onClick={() => generatePdf('print')}
+        disabled={generating !== null}
+        className="hidden"
+      />
+      <button
+        id="generate-epub-btn"
+        onClick={generateEpubFile}
+        disabled={generating !== null}
         className="hidden"
       />
 
@@ -423,164 +126,104 @@ export function Preview() {
         </div>
       )}
 
-      {isGenerating && (
+      {generating && (
         <div className="bg-blue-50 border border-blue-200 text-blue-600 px-4 py-2 rounded-md mb-4">
-          Generating PDF, please wait...
+          {t.preview.generating(generating)}
         </div>
       )}
 
-      <div className="flex-1 overflow-auto">
-        <div ref={contentRef} className="p-8 max-w-[800px] mx-auto">
-          <div className="mb-16 text-center">
-            <h1 style={{
-              fontSize: `${settings.fonts.title.size}pt`,
-              fontFamily: settings.fonts.title.family,
-              textAlign: settings.fonts.title.alignment,
-              lineHeight: `${settings.fonts.title.lineHeight}`,
-            }}>
-              {settings.title}
-            </h1>
-            <p style={{
-              fontSize: `${settings.fonts.subtitle.size}pt`,
-              fontFamily: settings.fonts.subtitle.family,
-              textAlign: settings.fonts.subtitle.alignment,
-              lineHeight: `${settings.fonts.subtitle.lineHeight}`,
-            }}>
-              {settings.author}
-            </p>
-          </div>
+      {layoutError && (
+        <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-2 rounded-md mb-4">
+          {layoutError}
+        </div>
+      )}
 
-          {chapters.map((chapter) => (
-            <div key={chapter.id} className="mb-16">
-              {chapter.type === 'chapter' ? (
-                <div className="mb-8">
-                  <h2 style={{
-                    fontSize: `${settings.fonts.title.size}pt`,
-                    fontFamily: settings.fonts.title.family,
-                    textAlign: settings.fonts.title.alignment,
-                    lineHeight: `${settings.fonts.title.lineHeight}`,
-                  }}>
-                    Bab {chapter.pageNumber}
-                  </h2>
-                  <h3 style={{
-                    fontSize: `${settings.fonts.subtitle.size}pt`,
-                    fontFamily: settings.fonts.subtitle.family,
-                    textAlign: settings.fonts.subtitle.alignment,
-                    lineHeight: `${settings.fonts.subtitle.lineHeight}`,
-                  }}>
-                    {chapter.title}
-                  </h3>
-                </div>
-              ) : (
-                <h2 style={{
-                  fontSize: `${settings.fonts.subtitle.size}pt`,
-                  fontFamily: settings.fonts.subtitle.family,
-                  textAlign: settings.fonts.subtitle.alignment,
-                  lineHeight: `${settings.fonts.subtitle.lineHeight}`,
-                }}>
-                  {chapter.title}
-                </h2>
-              )}
+      <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-gray-200">
+        <span className="text-sm text-gray-500">
+          {layout ? t.preview.pageCount(pages.length) : t.preview.layingOut}
+        </span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setSpreadView(false)}
+            className={cn('p-2 rounded-md', !spreadView ? 'bg-gray-900 text-white' : 'text-gray-600 hover:bg-gray-100')}
+            title={t.preview.singlePages}
+          >
+            <File size={16} />
+          </button>
+          <button
+            onClick={() => setSpreadView(true)}
+            className={cn('p-2 rounded-md', spreadView ? 'bg-gray-900 text-white' : 'text-gray-600 hover:bg-gray-100')}
+            title={t.preview.spreads}
+          >
+            <Columns2 size={16} />
+          </button>
+          <button
+            onClick={() => setZoomIndex((index) => Math.max(0, index - 1))}
+            disabled={zoomIndex === 0}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-md disabled:opacity-50"
+            title={t.preview.zoomOut}
+          >
+            <ZoomOut size={16} />
+          </button>
+          <span className="w-12 text-center text-sm text-gray-600">{Math.round(zoom * 100)}%</span>
+          <button
+            onClick={() => setZoomIndex((index) => Math.min(ZOOM_LEVELS.length - 1, index + 1))}
+            disabled={zoomIndex === ZOOM_LEVELS.length - 1}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-md disabled:opacity-50"
+            title={t.preview.zoomIn}
+          >
+            <ZoomIn size={16} />
+          </button>
+        </div>
+      </div>
 
-              <div style={{
-                fontSize: chapter.type === 'frontmatter' || chapter.type === 'toc'
-                  ? `${settings.fonts.frontmatterContent.size}pt`
-                  : chapter.type === 'backmatter'
-                  ? `${settings.fonts.backmatterContent.size}pt`
-                  : `${settings.fonts.chapterContent.size}pt`,
-                fontFamily: chapter.type === 'frontmatter' || chapter.type === 'toc'
-                  ? settings.fonts.frontmatterContent.family
-                  : chapter.type === 'backmatter'
-                  ? settings.fonts.backmatterContent.family
-                  : settings.fonts.chapterContent.family,
-                textAlign: chapter.type === 'frontmatter' || chapter.type === 'toc'
-                  ? settings.fonts.frontmatterContent.alignment
-                  : chapter.type === 'backmatter'
-                  ? settings.fonts.backmatterContent.alignment
-                  : settings.fonts.chapterContent.alignment,
-                lineHeight: chapter.type === 'frontmatter' || chapter.type === 'toc'
-                  ? settings.fonts.frontmatterContent.lineHeight
-                  : chapter.type === 'backmatter'
-                  ? settings.fonts.backmatterContent.lineHeight
-                  : settings.fonts.chapterContent.lineHeight,
-              }}>
-                {chapter.content.split('\n\n').map((paragraph, idx) => (
-                  <p
-                    key={idx}
-                    style={{
-                      textIndent: `${chapter.indentation}em`,
-                      marginBottom: `${settings.fonts.paragraph.lineHeight}em`,
+      {layout && (
+        <div className="flex-1 flex min-h-0">
+          <div className="w-36 shrink-0 overflow-auto border-r border-gray-200 bg-gray-50 p-3 space-y-3">
+            {pages.map((page, index) => (
+              <button
+                key={page.key}
+                onClick={() => goToPage(index)}
+                className={cn(
+                  'block mx-auto p-1 rounded-md',
+                  index === activePage ? 'ring-2 ring-blue-500' : 'hover:bg-gray-200'
+                )}
+              >
+                <PageView page={page} width={layout.pageWidth} height={layout.pageHeight} zoom={THUMBNAIL_ZOOM} />
+                <span className="block mt-1 text-xs text-gray-500">{pageTitle(page, index, t)}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 overflow-auto bg-gray-100 p-8 space-y-8">
+            {spreads.map((spread) => (
+              <div key={spread.map((index) => pages[index].key).join('|')} className="flex w-max mx-auto">
+                {/* A lone recto sits on the right of its spread */}
+                {spreadView && spread.length === 1 && spread[0] === 0 && <div style={{ width: pageWidthPx }} />}
+                {spread.map((index) => (
+                  <div
+                    key={pages[index].key}
+                    ref={(el) => {
+                      if (el) pageRefs.current.set(index, el);
+                      else pageRefs.current.delete(index);
                     }}
-                    dangerouslySetInnerHTML={{ __html: parseMarkdown(paragraph) }}
-                  />
+                    onClick={() => setActivePage(index)}
+                  >
+                    <PageView
+                      page={pages[index]}
+                      width={layout.pageWidth}
+                      height={layout.pageHeight}
+                      zoom={zoom}
+                      gutter={spreadView ? layout.gutter : 0}
+                    />
+                  </div>
                 ))}
+                {spreadView && spread.length === 1 && spread[0] !== 0 && <div style={{ width: pageWidthPx }} />}
               </div>
-
-              {chapter.images.map((image) => (
-                <div
-                  key={image.id}
-                  style={{ textAlign: image.alignment }}
-                >
-                  <img
-                    src={image.url}
-                    alt={image.caption}
-                    style={{ width: `${image.width}%`, margin: '0 auto' }}
-                  />
-                  {image.caption && (
-                    <p style={{
-                      fontSize: chapter.type === 'frontmatter' || chapter.type === 'toc'
-                        ? `${settings.fonts.frontmatterContent.size * 0.8}pt`
-                        : chapter.type === 'backmatter'
-                        ? `${settings.fonts.backmatterContent.size * 0.8}pt`
-                        : `${settings.fonts.chapterContent.size * 0.8}pt`,
-                      textAlign: 'center',
-                      lineHeight: chapter.type === 'frontmatter' || chapter.type === 'toc'
-                        ? settings.fonts.frontmatterContent.lineHeight
-                        : chapter.type === 'backmatter'
-                        ? settings.fonts.backmatterContent.lineHeight
-                        : settings.fonts.chapterContent.lineHeight,
-                      marginTop: '0.5em',
-                    }}>
-                      {image.caption}
-                    </p>
-                  )}
-                </div>
-              ))}
-
-              {chapter.subChapters.map((subChapter) => (
-                <div key={subChapter.id} className="mt-8">
-                  <h3 style={{
-                    fontSize: `${settings.fonts.subtitle.size * 0.8}pt`,
-                    fontFamily: settings.fonts.subtitle.family,
-                    textAlign: settings.fonts.subtitle.alignment,
-                    lineHeight: `${settings.fonts.subtitle.lineHeight}`,
-                    marginBottom: '1em',
-                  }}>
-                    {subChapter.title}
-                  </h3>
-                  <div style={{
-                    fontSize: `${settings.fonts.subchapterContent.size}pt`,
-                    fontFamily: settings.fonts.subchapterContent.family,
-                    textAlign: settings.fonts.subchapterContent.alignment,
-                    lineHeight: `${settings.fonts.subchapterContent.lineHeight}`,
-                  }}>
-                    {subChapter.content.split('\n\n').map((paragraph, idx) => (
-                      <p
-                        key={idx}
-                        style={{
-                          textIndent: `${chapter.indentation}em`,
-                          marginBottom: `${settings.fonts.subchapterContent.lineHeight}em`,
-                        }}
-                        dangerouslySetInnerHTML={{ __html: parseMarkdown(paragraph) }}
-                      />
-                    ))}
-                  </div>
-                </div>
-              ))}
-            </div>
-          ))}
+            ))}
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,178 @@
+import React from 'react';
+import { FilePlus, Copy, Trash2, X, Download, Upload, GitCompare } from 'lucide-react';
+import { useProjectStore } from '../store/useProjectStore';
+import { useEbookStore } from '../store/useEbookStore';
+import { useMessages } from '../store/useLocaleStore';
+import { downloadBlob } from '../utils/download';
+import { PROJECT_FILE_EXTENSION } from '../utils/projectFile';
+import { ProjectValidationError } from '../utils/projectSchema';
+import type { ValidationIssue } from '../utils/projectSchema';
+import { SnapshotDialog } from './SnapshotDialog';
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleString([], {
+    dateStyle: 'short',
+    timeStyle: 'short',
+  });
+}
+
+export function ProjectSwitcher() {
+  const {
+    projects,
+    currentProjectId,
+    status,
+    lastSavedAt,
+    recoveredAt,
+    error,
+    createProject,
+    importProject,
+    exportCurrentProject,
+    openProject,
+    duplicateProject,
+    deleteProject,
+    dismissRecovery,
+  } = useProjectStore();
+  const title = useEbookStore((state) => state.settings.title);
+  const t = useMessages();
+  const [importIssues, setImportIssues] = React.useState<ValidationIssue[] | null>(null);
+  const [showSnapshots, setShowSnapshots] = React.useState(false);
+
+  const handleExport = async () => {
+    try {
+      const blob = await exportCurrentProject();
+      downloadBlob(blob, `${title || 'ebook'}${PROJECT_FILE_EXTENSION}`);
+    } catch (err) {
+      console.error('Error exporting project:', err);
+      alert(t.project.exportFailed);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImportIssues(null);
+    try {
+      await importProject(file);
+    } catch (err) {
+      if (err instanceof ProjectValidationError) {
+        setImportIssues(err.issues);
+      } else {
+        console.error('Error importing project:', err);
+        setImportIssues([{ path: file.name, message: t.project.readFailed }]);
+      }
+    }
+  };
+
+  const handleDelete = () => {
+    if (!currentProjectId) return;
+    const project = projects.find((p) => p.id === currentProjectId);
+    if (confirm(t.project.confirmDelete(project?.title || t.untitled))) {
+      deleteProject(currentProjectId);
+    }
+  };
+
+  const statusText = {
+    idle: '',
+    loading: t.project.loading,
+    saving: t.project.saving,
+    saved: lastSavedAt ? t.project.savedAt(formatTime(lastSavedAt)) : t.project.saved,
+    error: error || t.project.error,
+  }[status];
+
+  const iconButtonClass = "p-2 text-gray-600 hover:bg-gray-100 rounded-md disabled:opacity-50";
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex items-center gap-1">
+        <select
+          value={currentProjectId ?? ''}
+          onChange={(e) => openProject(e.target.value)}
+          disabled={status === 'loading'}
+          className="flex-1 min-w-0 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+        >
+          {projects.map((project) => (
+            <option key={project.id} value={project.id}>
+              {project.title || t.untitled}
+            </option>
+          ))}
+        </select>
+        <button onClick={() => createProject()} className={iconButtonClass} title={t.project.newProject}>
+          <FilePlus size={16} />
+        </button>
+        <button
+          onClick={() => currentProjectId && duplicateProject(currentProjectId)}
+          disabled={!currentProjectId}
+          className={iconButtonClass}
+          title={t.project.duplicate}
+        >
+          <Copy size={16} />
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={!currentProjectId}
+          className="p-2 text-red-600 hover:bg-red-50 rounded-md disabled:opacity-50"
+          title={t.project.delete}
+        >
+          <Trash2 size={16} />
+        </button>
+        <button onClick={handleExport} className={iconButtonClass} title={t.project.export}>
+          <Download size={16} />
+        </button>
+        <label className={iconButtonClass + " cursor-pointer"} title={t.project.import}>
+          <Upload size={16} />
+          <input
+            type="file"
+            className="hidden"
+            accept={`${PROJECT_FILE_EXTENSION},application/zip`}
+            onChange={handleImport}
+          />
+        </label>
+        <button
+          onClick={() => setShowSnapshots(true)}
+          disabled={!currentProjectId}
+          className={iconButtonClass}
+          title={t.snapshots.open}
+        >
+          <GitCompare size={16} />
+        </button>
+      </div>
+
+      <p className={status === 'error' ? 'text-xs text-red-600' : 'text-xs text-gray-500'}>
+        {statusText}
+      </p>
+
+      {importIssues && (
+        <div className="bg-red-50 border border-red-200 text-red-600 px-3 py-2 rounded-md text-sm">
+          <div className="flex items-start gap-2">
+            <span className="flex-1 font-medium">{t.project.importFailed}</span>
+            <button onClick={() => setImportIssues(null)} className="p-0.5 hover:bg-red-100 rounded">
+              <X size={14} />
+            </button>
+          </div>
+          <ul className="mt-1 space-y-0.5 max-h-40 overflow-auto">
+            {importIssues.map((issue, idx) => (
+              <li key={idx}>
+                <code className="text-xs">{issue.path}</code>: {issue.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {showSnapshots && <SnapshotDialog onClose={() => setShowSnapshots(false)} />}
+
+      {recoveredAt && (
+        <div className="flex items-start gap-2 bg-amber-50 border border-amber-200 text-amber-700 px-3 py-2 rounded-md text-sm">
+          <span className="flex-1">
+            {t.project.recovered(formatTime(recoveredAt))}
+          </span>
+          <button onClick={dismissRecovery} className="p-0.5 hover:bg-amber-100 rounded">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { AlertTriangle } from 'lucide-react';
+import { useEbookStore } from '../store/useEbookStore';
+import { useLayoutStore } from '../store/useLayoutStore';
+import { useMessages } from '../store/useLocaleStore';
+
+// Shown beside an image that prints below the book's minimum resolution at
+// the size the layout gives it
+export function ResolutionWarning({ url }: { url: string }) {
+  const minimumDpi = useEbookStore((state) => state.settings.images.minimumDpi);
+  const dpi = useLayoutStore((state) => state.imageDpi[url]);
+  const t = useMessages();
+
+  if (dpi === undefined || dpi >= minimumDpi) return null;
+
+  return (
+    <p className="flex items-start gap-1.5 text-xs text-amber-700">
+      <AlertTriangle size={14} className="shrink-0 mt-px" />
+      {t.images.lowResolution(Math.floor(dpi), minimumDpi)}
+    </p>
+  );
+}
@@ -1,42 +1,113 @@
 import React from 'react';
+import { BookImage } from 'lucide-react';
 import { useEbookStore } from '../store/useEbookStore';
-import { PaperSize, FontAlignment } from '../types';
+import { useLocaleStore, useMessages } from '../store/useLocaleStore';
+import { PaperSize, PageOrientation, LengthUnit, CustomPaperSize, FontAlignment, RunningHeadSettings, BookSection, PageNumberStyle, SectionNumbering, ChapterStart, ChapterStartSettings, TocSettings, TocLeader, NoteSettings, BlockStyleSettings, ImageSettings, PrintSettings, PdfProfile, Language } from '../types';
+import { runningHeadVariables } from '../utils/runningHeads';
+import { standardFontFamilies } from '../utils/customFonts';
+import { getChapterLabel } from '../utils/tableOfContents';
+import { MM_PER_UNIT } from '../utils/layout';
+import { languageNames } from '../utils/messages';
+import { ImageFormatError, imageFileTypes, readImageFile } from '../utils/imagePipeline';
+import { onNumberInput } from '../utils/numberInput';
+import { CustomFontSettings } from './CustomFontSettings';
+import { ResolutionWarning } from './ResolutionWarning';
+import { CoverDesigner } from './CoverDesigner';
 
-const paperSizes: PaperSize[] = ['A4', 'Letter', 'Legal'];
+// Names and sizes read the same in every language; 'custom' is worded per locale
+const paperSizes: { value: PaperSize; label?: string }[] = [
+  { value: 'A4', label: 'A4 (210 × 297 mm)' },
+  { value: 'A5', label: 'A5 (148 × 210 mm)' },
+  { value: 'B5', label: 'B5 (176 × 250 mm)' },
+  { value: 'Letter', label: 'Letter (8.5 × 11 in)' },
+  { value: 'Legal', label: 'Legal (8.5 × 14 in)' },
+  { value: '5.5x8.5in', label: '5.5 × 8.5 in' },
+  { value: '6x9in', label: '6 × 9 in' },
+  { value: '14x21cm', label: '14 × 21 cm' },
+  { value: '15.5x23cm', label: '15.5 × 23 cm' },
+  { value: 'custom' },
+];
+const orientations: PageOrientation[] = ['portrait', 'landscape'];
+const lengthUnits: LengthUnit[] = ['mm', 'in'];
 const alignments: FontAlignment[] = ['left', 'right', 'center', 'justify'];
-const fontFamilies = ['Helvetica', 'Times New Roman', 'Arial', 'Georgia'];
-const pageNumberPositions = ['top', 'bottom'];
-const pageNumberAlignments = ['left', 'center', 'right'];
+const languages: Language[] = ['id', 'en'];
+const pageNumberPositions = ['top', 'bottom'] as const;
+const pageNumberAlignments = ['left', 'center', 'right'] as const;
+// Samples read the same in every language; 'none' is worded per locale
+const pageNumberStyles: { value: PageNumberStyle; label?: string }[] = [
+  { value: 'decimal', label: '1, 2, 3' },
+  { value: 'lower-roman', label: 'i, ii, iii' },
+  { value: 'upper-roman', label: 'I, II, III' },
+  { value: 'lower-alpha', label: 'a, b, c' },
+  { value: 'upper-alpha', label: 'A, B, C' },
+  { value: 'none' },
+];
+const tocLeaders: TocLeader[] = ['dots', 'dashes', 'underscore', 'none'];
+const numberingSections: BookSection[] = ['frontmatter', 'body', 'backmatter'];
+const imageTargets: PdfProfile[] = ['print', 'screen'];
+const chapterStarts: ChapterStart[] = ['recto', 'any', 'continue'];
 
 export function SettingsForm() {
   const { settings, updateSettings } = useEbookStore();
+  const { locale, setLocale } = useLocaleStore();
+  const t = useMessages();
+  const [showCoverDesigner, setShowCoverDesigner] = React.useState(false);
 
-  const handleCoverImageChange = (e: React.ChangeEvent<HTMLInputElement>, type: 'front' | 'back') => {
+  const fontFamilies = [...standardFontFamilies, ...settings.customFonts.map((font) => font.family)];
+
+  // Courier is the one standard monospace family
+  const codeFontFamilies = ['Courier', ...settings.customFonts.map((font) => font.family)];
+
+  const updateToc = (changes: Partial<TocSettings>) =>
+    updateSettings({ toc: { ...settings.toc, ...changes } });
+
+  const updateChapterStarts = (changes: Partial<ChapterStartSettings>) =>
+    updateSettings({ chapterStarts: { ...settings.chapterStarts, ...changes } });
+
+  const updateBlocks = (changes: Partial<BlockStyleSettings>) =>
+    updateSettings({ blocks: { ...settings.blocks, ...changes } });
+
+  const handleCoverImageChange = async (e: React.ChangeEvent<HTMLInputElement>, type: 'front' | 'back') => {
     const file = e.target.files?.[0];
-    if (file) {
-      if (!file.type.startsWith('image/')) {
-        alert('Please upload an image file');
-        return;
+    if (!file) return;
+
+    try {
+      const url = await readImageFile(file);
+      updateSettings(type === 'front' ? { coverImage: url } : { backCoverImage: url });
+    } catch (err) {
+      if (err instanceof ImageFormatError) {
+        alert(t.images.unsupported(err.fileName));
+      } else {
+        console.error('Error reading cover image:', err);
+        alert(t.images.readFailed(file.name));
       }
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        if (type === 'front') {
-          updateSettings({ coverImage: e.target?.result as string });
-        } else {
-          updateSettings({ backCoverImage: e.target?.result as string });
-        }
-      };
-      reader.readAsDataURL(file);
     }
   };
 
+  const updateImages = (changes: Partial<ImageSettings>) =>
+    updateSettings({ images: { ...settings.images, ...changes } });
+
+  const updatePrint = (changes: Partial<PrintSettings>) =>
+    updateSettings({ print: { ...settings.print, ...changes } });
+
+  const updateCustomPaperSize = (changes: Partial<CustomPaperSize>) =>
+    updateSettings({ customPaperSize: { ...settings.customPaperSize, ...changes } });
+
+  // Keeps the page the same size, only the numbers change
+  const changePaperUnit = (unit: LengthUnit) => {
+    const { width, height, unit: from } = settings.customPaperSize;
+    const factor = MM_PER_UNIT[from] / MM_PER_UNIT[unit];
+    const round = (value: number) => Math.round(value * factor * 100) / 100;
+    updateCustomPaperSize({ width: round(width), height: round(height), unit });
+  };
+
   return (
     <div className="space-y-6">
       <div className="space-y-4">
-        <h4 className="font-medium text-gray-900">Basic Information</h4>
+        <h4 className="font-medium text-gray-900">{t.settings.basicInfo}</h4>
         <div className="grid gap-4">
           <div>
-            <label className="block text-sm font-medium text-gray-700">Title</label>
+            <label className="block text-sm font-medium text-gray-700">{t.settings.title}</label>
             <input
               type="text"
               value={settings.title}
@@ -45,7 +116,7 @@ export function SettingsForm() {
             />
           </div>
           <div>
-            <label className="block text-sm font-medium text-gray-700">Author</label>
+            <label className="block text-sm font-medium text-gray-700">{t.settings.author}</label>
             <input
               type="text"
               value={settings.author}
@@ -54,7 +125,7 @@ export function SettingsForm() {
             />
           </div>
           <div>
-            <label className="block text-sm font-medium text-gray-700">Description</label>
+            <label className="block text-sm font-medium text-gray-700">{t.settings.description}</label>
             <textarea
               value={settings.description}
               onChange={(e) => updateSettings({ description: e.target.value })}
@@ -63,102 +134,231 @@ export function SettingsForm() {
             />
           </div>
           <div>
-            <label className="block text-sm font-medium text-gray-700">Front Cover Image</label>
+            <label className="block text-sm font-medium text-gray-700">{t.settings.frontCover}</label>
             <input
               type="file"
-              accept="image/*"
+              accept={imageFileTypes}
               onChange={(e) => handleCoverImageChange(e, 'front')}
               className="mt-1 block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
             />
+            {settings.coverImage && <ResolutionWarning url={settings.coverImage} />}
           </div>
           <div>
-            <label className="block text-sm font-medium text-gray-700">Back Cover Image</label>
+            <label className="block text-sm font-medium text-gray-700">{t.settings.backCover}</label>
             <input
               type="file"
-              accept="image/*"
+              accept={imageFileTypes}
               onChange={(e) => handleCoverImageChange(e, 'back')}
               className="mt-1 block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
             />
+            {settings.backCoverImage && <ResolutionWarning url={settings.backCoverImage} />}
           </div>
+          <button
+            onClick={() => setShowCoverDesigner(true)}
+            className="flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <BookImage size={16} />
+            {t.cover.open}
+          </button>
         </div>
       </div>
 
       <div className="space-y-4">
-        <h4 className="font-medium text-gray-900">Page Settings</h4>
+        <h4 className="font-medium text-gray-900">{t.settings.language}</h4>
+        <p className="text-xs text-gray-500">
+          {t.settings.languageHelp}
+        </p>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{t.settings.bookLanguage}</label>
+            <select
+              value={settings.language}
+              onChange={(e) => updateSettings({ language: e.target.value as Language })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              {languages.map((language) => (
+                <option key={language} value={language}>
+                  {languageNames[language]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{t.settings.interfaceLanguage}</label>
+            <select
+              value={locale}
+              onChange={(e) => setLocale(e.target.value as Language)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              {languages.map((language) => (
+                <option key={language} value={language}>
+                  {languageNames[language]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h4 className="font-medium text-gray-900">{t.settings.pageSettings}</h4>
         <div className="grid gap-4">
           <div>
-            <label className="block text-sm font-medium text-gray-700">Paper Size</label>
+            <label className="block text-sm font-medium text-gray-700">{t.settings.paperSize}</label>
             <select
               value={settings.paperSize}
               onChange={(e) => updateSettings({ paperSize: e.target.value as PaperSize })}
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
             >
-              {paperSizes.map((size) => (
-                <option key={size} value={size}>
-                  {size}
+              {paperSizes.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label ?? t.settings.customSize}
+                </option>
+              ))}
+            </select>
+          </div>
+          {settings.paperSize === 'custom' && (
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">{t.settings.pageWidth}</label>
+                <input
+                  type="number"
+                  value={settings.customPaperSize.width}
+                  onChange={onNumberInput((value) => updateCustomPaperSize({ width: value }))}
+                  step={settings.customPaperSize.unit === 'mm' ? '1' : '0.125'}
+                  min="0"
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">{t.settings.pageHeight}</label>
+                <input
+                  type="number"
+                  value={settings.customPaperSize.height}
+                  onChange={onNumberInput((value) => updateCustomPaperSize({ height: value }))}
+                  step={settings.customPaperSize.unit === 'mm' ? '1' : '0.125'}
+                  min="0"
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">{t.settings.unit}</label>
+                <select
+                  value={settings.customPaperSize.unit}
+                  onChange={(e) => changePaperUnit(e.target.value as LengthUnit)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                >
+                  {lengthUnits.map((unit) => (
+                    <option key={unit} value={unit}>
+                      {unit}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{t.settings.orientation}</label>
+            <select
+              value={settings.orientation}
+              onChange={(e) => updateSettings({ orientation: e.target.value as PageOrientation })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              {orientations.map((orientation) => (
+                <option key={orientation} value={orientation}>
+                  {t.settings.orientations[orientation]}
                 </option>
               ))}
             </select>
           </div>
           <div className="grid grid-cols-2 gap-4">
             <div>
-              <label className="block text-sm font-medium text-gray-700">Top Margin (cm)</label>
+              <label className="block text-sm font-medium text-gray-700">{t.settings.margins.top}</label>
               <input
                 type="number"
                 value={settings.margins.top}
-                onChange={(e) => updateSettings({
-                  margins: { ...settings.margins, top: parseFloat(e.target.value) }
-                })}
+                onChange={onNumberInput((value) => updateSettings({
+                  margins: { ...settings.margins, top: value }
+                }))}
                 step="0.1"
                 min="0"
                 className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
               />
             </div>
             <div>
-              <label className="block text-sm font-medium text-gray-700">Bottom Margin (cm)</label>
+              <label className="block text-sm font-medium text-gray-700">{t.settings.margins.bottom}</label>
               <input
                 type="number"
                 value={settings.margins.bottom}
-                onChange={(e) => updateSettings({
-                  margins: { ...settings.margins, bottom: parseFloat(e.target.value) }
-                })}
+                onChange={onNumberInput((value) => updateSettings({
+                  margins: { ...settings.margins, bottom: value }
+                }))}
                 step="0.1"
                 min="0"
                 className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
               />
             </div>
             <div>
-              <label className="block text-sm font-medium text-gray-700">Left Margin (cm)</label>
+              <label className="block text-sm font-medium text-gray-700">{settings.margins.mirrored ? t.settings.margins.inside : t.settings.margins.left}</label>
               <input
                 type="number"
                 value={settings.margins.left}
-                onChange={(e) => updateSettings({
-                  margins: { ...settings.margins, left: parseFloat(e.target.value) }
-                })}
+                onChange={onNumberInput((value) => updateSettings({
+                  margins: { ...settings.margins, left: value }
+                }))}
                 step="0.1"
                 min="0"
                 className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
               />
             </div>
             <div>
-              <label className="block text-sm font-medium text-gray-700">Right Margin (cm)</label>
+              <label className="block text-sm font-medium text-gray-700">{settings.margins.mirrored ? t.settings.margins.outside : t.settings.margins.right}</label>
               <input
                 type="number"
                 value={settings.margins.right}
-                onChange={(e) => updateSettings({
-                  margins: { ...settings.margins, right: parseFloat(e.target.value) }
-                })}
+                onChange={onNumberInput((value) => updateSettings({
+                  margins: { ...settings.margins, right: value }
+                }))}
+                step="0.1"
+                min="0"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">{t.settings.margins.gutter}</label>
+              <input
+                type="number"
+                value={settings.margins.gutter}
+                onChange={onNumberInput((value) => updateSettings({
+                  margins: { ...settings.margins, gutter: value }
+                }))}
                 step="0.1"
                 min="0"
                 className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
               />
             </div>
+            <div className="flex items-end pb-2">
+              <input
+                type="checkbox"
+                checked={settings.margins.mirrored}
+                onChange={(e) => updateSettings({
+                  margins: { ...settings.margins, mirrored: e.target.checked }
+                })}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <label className="ml-2 block text-sm text-gray-900">
+                {t.settings.margins.mirrored}
+              </label>
+            </div>
           </div>
+          <p className="text-xs text-gray-500">
+            {t.settings.margins.help}
+          </p>
         </div>
       </div>
 
       <div className="space-y-4">
-        <h4 className="font-medium text-gray-900">Page Numbering</h4>
+        <h4 className="font-medium text-gray-900">{t.settings.pageNumbering}</h4>
         <div className="space-y-4">
           <div className="flex items-center">
             <input
@@ -170,13 +370,13 @@ export function SettingsForm() {
               className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
             />
             <label className="ml-2 block text-sm text-gray-900">
-              Enable page numbering
+              {t.settings.enablePageNumbering}
             </label>
           </div>
           {settings.pageNumbering.enabled && (
             <div className="grid grid-cols-2 gap-4">
               <div>
-                <label className="block text-sm font-medium text-gray-700">Position</label>
+                <label className="block text-sm font-medium text-gray-700">{t.settings.position}</label>
                 <select
                   value={settings.pageNumbering.position}
                   onChange={(e) => updateSettings({
@@ -186,13 +386,13 @@ export function SettingsForm() {
                 >
                   {pageNumberPositions.map((pos) => (
                     <option key={pos} value={pos}>
-                      {pos.charAt(0).toUpperCase() + pos.slice(1)}
+                      {t.settings.positions[pos]}
                     </option>
                   ))}
                 </select>
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700">Alignment</label>
+                <label className="block text-sm font-medium text-gray-700">{t.settings.alignment}</label>
                 <select
                   value={settings.pageNumbering.alignment}
                   onChange={(e) => updateSettings({
@@ -202,36 +402,451 @@ export function SettingsForm() {
                 >
                   {pageNumberAlignments.map((align) => (
                     <option key={align} value={align}>
-                      {align.charAt(0).toUpperCase() + align.slice(1)}
+                      {t.settings.alignments[align]}
                     </option>
                   ))}
                 </select>
               </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700">Start From</label>
+            </div>
+          )}
+          {settings.pageNumbering.enabled && (
+            <div className="space-y-3">
+              {numberingSections.map((section) => {
+                const scheme = settings.pageNumbering.sections[section];
+                const update = (changes: Partial<SectionNumbering>) => updateSettings({
+                  pageNumbering: {
+                    ...settings.pageNumbering,
+                    sections: {
+                      ...settings.pageNumbering.sections,
+                      [section]: { ...scheme, ...changes },
+                    },
+                  },
+                });
+
+                return (
+                  <div key={section} className="space-y-1">
+                    <h5 className="text-sm font-medium text-gray-700">{t.settings.sections[section]}</h5>
+                    <div className="grid grid-cols-3 gap-2">
+                      <div>
+                        <label className="block text-xs text-gray-500">{t.settings.style}</label>
+                        <select
+                          value={scheme.style}
+                          onChange={(e) => update({ style: e.target.value as PageNumberStyle })}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                        >
+                          {pageNumberStyles.map(({ value, label: styleLabel }) => (
+                            <option key={value} value={value}>
+                              {styleLabel ?? t.settings.pageNumberNone}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-500">{t.settings.numbering}</label>
+                        <select
+                          value={scheme.restart ? 'restart' : 'continue'}
+                          onChange={(e) => update({ restart: e.target.value === 'restart' })}
+                          disabled={section === 'frontmatter'}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm disabled:bg-gray-50"
+                        >
+                          <option value="restart">{t.settings.restart}</option>
+                          <option value="continue">{t.settings.continue}</option>
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-500">{t.settings.startFrom}</label>
+                        <input
+                          type="number"
+                          value={scheme.startFrom}
+                          onChange={onNumberInput((value) => update({ startFrom: value }), true)}
+                          disabled={!scheme.restart && section !== 'frontmatter'}
+                          min="1"
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm disabled:bg-gray-50"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h4 className="font-medium text-gray-900">{t.settings.chapterStarts}</h4>
+        <p className="text-xs text-gray-500">
+          {t.settings.chapterStartsHelp}
+        </p>
+        <div className="grid grid-cols-3 gap-4">
+          {numberingSections.map((section) => (
+            <div key={section}>
+              <label className="block text-sm font-medium text-gray-700">{t.settings.sections[section]}</label>
+              <select
+                value={settings.chapterStarts.sections[section]}
+                onChange={(e) => updateChapterStarts({
+                  sections: { ...settings.chapterStarts.sections, [section]: e.target.value as ChapterStart }
+                })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              >
+                {chapterStarts.map((start) => (
+                  <option key={start} value={start}>
+                    {t.settings.chapterStartOptions[start]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            checked={settings.chapterStarts.titlePage}
+            onChange={(e) => updateChapterStarts({ titlePage: e.target.checked })}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          />
+          <label className="ml-2 block text-sm text-gray-900">
+            {t.settings.chapterTitlePage}
+          </label>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h4 className="font-medium text-gray-900">{t.settings.toc}</h4>
+        <p className="text-xs text-gray-500">
+          {t.settings.tocHelp}
+        </p>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{t.settings.depth}</label>
+            <select
+              value={settings.toc.depth}
+              onChange={onNumberInput((value) => updateToc({ depth: value as TocSettings['depth'] }), true)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              <option value={1}>{t.settings.chaptersOnly}</option>
+              <option value={2}>{t.settings.chaptersAndSubChapters}</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{t.settings.leader}</label>
+            <select
+              value={settings.toc.leader}
+              onChange={(e) => updateToc({ leader: e.target.value as TocLeader })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              {tocLeaders.map((leader) => (
+                <option key={leader} value={leader}>
+                  {t.settings.leaders[leader]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{t.settings.chapterPrefix}</label>
+            <select
+              value={settings.toc.chapterPrefix}
+              onChange={(e) => updateToc({ chapterPrefix: e.target.value as TocSettings['chapterPrefix'] })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              <option value="label">{getChapterLabel(1, settings.language)}</option>
+              <option value="number">1.</option>
+              <option value="none">{t.settings.none}</option>
+            </select>
+          </div>
+          <div className="flex items-end pb-2">
+            <input
+              type="checkbox"
+              checked={settings.toc.numberSubChapters}
+              onChange={(e) => updateToc({ numberSubChapters: e.target.checked })}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <label className="ml-2 block text-sm text-gray-900">
+              {t.settings.numberSubChapters}
+            </label>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h4 className="font-medium text-gray-900">{t.settings.tables}</h4>
+        <p className="text-xs text-gray-500">
+          {t.settings.tablesHelp}
+        </p>
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            checked={settings.tables.keepTogether}
+            onChange={(e) => updateSettings({ tables: { ...settings.tables, keepTogether: e.target.checked } })}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          />
+          <label className="ml-2 block text-sm text-gray-900">
+            {t.settings.keepTablesTogether}
+          </label>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h4 className="font-medium text-gray-900">{t.settings.blocks}</h4>
+        <p className="text-xs text-gray-500">
+          {t.settings.blocksHelp}
+        </p>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{t.settings.codeFont}</label>
+            <select
+              value={settings.blocks.codeFont}
+              onChange={(e) => updateBlocks({ codeFont: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              {codeFontFamilies.map((font) => (
+                <option key={font} value={font}>
+                  {font}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{t.settings.sceneBreak}</label>
+            <input
+              type="text"
+              value={settings.blocks.sceneBreak}
+              onChange={(e) => updateBlocks({ sceneBreak: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{t.settings.quoteIndent}</label>
+            <input
+              type="number"
+              value={settings.blocks.quoteIndent}
+              onChange={onNumberInput((value) => updateBlocks({ quoteIndent: value }))}
+              step="1"
+              min="0"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+          <div className="flex items-end pb-2">
+            <input
+              type="checkbox"
+              checked={settings.blocks.quoteRule}
+              onChange={(e) => updateBlocks({ quoteRule: e.target.checked })}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <label className="ml-2 block text-sm text-gray-900">
+              {t.settings.quoteRule}
+            </label>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h4 className="font-medium text-gray-900">{t.settings.images}</h4>
+        <p className="text-xs text-gray-500">
+          {t.settings.imagesHelp}
+        </p>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{t.settings.minimumDpi}</label>
+            <input
+              type="number"
+              value={settings.images.minimumDpi}
+              onChange={onNumberInput((value) => updateImages({ minimumDpi: value }), true)}
+              step="1"
+              min="0"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+          {imageTargets.map((target) => (
+            <div key={target} className="col-span-2 space-y-2">
+              <h5 className="text-sm font-medium text-gray-900">{t.settings.imageTargets[target]}</h5>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">{t.settings.maxDpi}</label>
+                  <input
+                    type="number"
+                    value={settings.images[target].maxDpi}
+                    onChange={onNumberInput((value) => updateImages({
+                      [target]: { ...settings.images[target], maxDpi: value }
+                    }), true)}
+                    step="1"
+                    min="72"
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">{t.settings.jpegQuality}</label>
+                  <input
+                    type="number"
+                    value={settings.images[target].jpegQuality}
+                    onChange={onNumberInput((value) => updateImages({
+                      [target]: { ...settings.images[target], jpegQuality: value }
+                    }), true)}
+                    step="1"
+                    min="1"
+                    max="100"
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h4 className="font-medium text-gray-900">{t.settings.print}</h4>
+        <p className="text-xs text-gray-500">
+          {t.settings.printHelp}
+        </p>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{t.settings.bleed}</label>
+            <input
+              type="number"
+              value={settings.print.bleed}
+              onChange={onNumberInput((value) => updatePrint({ bleed: value }))}
+              step="0.5"
+              min="0"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+          <div className="flex items-end pb-2">
+            <input
+              type="checkbox"
+              checked={settings.print.cropMarks}
+              onChange={(e) => updatePrint({ cropMarks: e.target.checked })}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <label className="ml-2 block text-sm text-gray-900">
+              {t.settings.cropMarks}
+            </label>
+          </div>
+          <div className="col-span-2 flex items-center">
+            <input
+              type="checkbox"
+              checked={settings.print.grayscaleImages}
+              onChange={(e) => updatePrint({ grayscaleImages: e.target.checked })}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <label className="ml-2 block text-sm text-gray-900">
+              {t.settings.grayscaleImages}
+            </label>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h4 className="font-medium text-gray-900">{t.settings.notes}</h4>
+        <p className="text-xs text-gray-500">
+          {t.settings.notesHelp}
+        </p>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{t.settings.placement}</label>
+            <select
+              value={settings.notes.placement}
+              onChange={(e) => updateSettings({
+                notes: { ...settings.notes, placement: e.target.value as NoteSettings['placement'] }
+              })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              <option value="footnotes">{t.settings.footnotes}</option>
+              <option value="endnotes">{t.settings.endnotes}</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">{t.settings.numbering}</label>
+            <select
+              value={settings.notes.numbering}
+              onChange={(e) => updateSettings({
+                notes: { ...settings.notes, numbering: e.target.value as NoteSettings['numbering'] }
+              })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              <option value="chapter">{t.settings.perChapter}</option>
+              <option value="book">{t.settings.wholeBook}</option>
+            </select>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h4 className="font-medium text-gray-900">{t.settings.runningHeads}</h4>
+        <p className="text-xs text-gray-500">
+          {t.settings.variables(runningHeadVariables.map((name) => `{${name}}`).join(', '))}{' '}
+          {t.settings.runningHeadsHelp}
+        </p>
+        {(['header', 'footer'] as const).map((role) => {
+          const config = settings[role];
+          const update = (changes: Partial<RunningHeadSettings>) =>
+            updateSettings({ [role]: { ...config, ...changes } });
+
+          return (
+            <div key={role} className="space-y-2">
+              <div className="flex items-center">
                 <input
-                  type="number"
-                  value={settings.pageNumbering.startFrom}
-                  onChange={(e) => updateSettings({
-                    pageNumbering: { ...settings.pageNumbering, startFrom: parseInt(e.target.value) }
-                  })}
-                  min="1"
-                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  type="checkbox"
+                  checked={config.enabled}
+                  onChange={(e) => update({ enabled: e.target.checked })}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
                 />
+                <label className="ml-2 block text-sm text-gray-900">
+                  {t.settings.enableRunningHead[role]}
+                </label>
               </div>
+              {config.enabled && (
+                <div className="grid gap-2 pl-6">
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={config.alternateEvenOdd}
+                      onChange={(e) => update({ alternateEvenOdd: e.target.checked })}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <label className="ml-2 block text-sm text-gray-700">
+                      {t.settings.alternateEvenOdd}
+                    </label>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-500">
+                      {config.alternateEvenOdd ? t.settings.oddPages : t.settings.text}
+                    </label>
+                    <input
+                      type="text"
+                      value={config.text}
+                      onChange={(e) => update({ text: e.target.value })}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    />
+                  </div>
+                  {config.alternateEvenOdd && (
+                    <div>
+                      <label className="block text-xs text-gray-500">{t.settings.evenPages}</label>
+                      <input
+                        type="text"
+                        value={config.evenText}
+                        onChange={(e) => update({ evenText: e.target.value })}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
-          )}
-        </div>
+          );
+        })}
       </div>
 
+      <CustomFontSettings />
+
       <div className="space-y-4">
-        <h4 className="font-medium text-gray-900">Font Settings</h4>
+        <h4 className="font-medium text-gray-900">{t.settings.fontSettings}</h4>
         {(['title', 'subtitle', 'paragraph', 'header', 'footer', 'frontmatterContent', 'chapterContent', 'subchapterContent', 'backmatterContent'] as const).map((type) => (
           <div key={type} className="space-y-2">
-            <h5 className="text-sm font-medium text-gray-700 capitalize">{type.replace(/([A-Z])/g, ' $1').toLowerCase()} Font</h5>
+            <h5 className="text-sm font-medium text-gray-700">{t.settings.fontRoles[type]}</h5>
             <div className="grid grid-cols-4 gap-4">
               <div>
-                <label className="block text-xs text-gray-500">Family</label>
+                <label className="block text-xs text-gray-500">{t.settings.family}</label>
                 <select
                   value={settings.fonts[type].family}
                   onChange={(e) => updateSettings({
@@ -250,32 +865,32 @@ export function SettingsForm() {
                 </select>
               </div>
               <div>
-                <label className="block text-xs text-gray-500">Size (pt)</label>
+                <label className="block text-xs text-gray-500">{t.settings.size}</label>
                 <input
                   type="number"
                   value={settings.fonts[type].size}
-                  onChange={(e) => updateSettings({
+                  onChange={onNumberInput((value) => updateSettings({
                     fonts: {
                       ...settings.fonts,
-                      [type]: { ...settings.fonts[type], size: parseInt(e.target.value) }
+                      [type]: { ...settings.fonts[type], size: value }
                     }
-                  })}
+                  }), true)}
                   min="6"
                   max="72"
                   className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
                 />
               </div>
               <div>
-                <label className="block text-xs text-gray-500">Line Height</label>
+                <label className="block text-xs text-gray-500">{t.settings.lineHeight}</label>
                 <input
                   type="number"
                   value={settings.fonts[type].lineHeight}
-                  onChange={(e) => updateSettings({
+                  onChange={onNumberInput((value) => updateSettings({
                     fonts: {
                       ...settings.fonts,
-                      [type]: { ...settings.fonts[type], lineHeight: parseFloat(e.target.value) }
+                      [type]: { ...settings.fonts[type], lineHeight: value }
                     }
-                  })}
+                  }))}
                   min="1"
                   max="3"
                   step="0.1"
@@ -283,7 +898,7 @@ export function SettingsForm() {
                 />
               </div>
               <div>
-                <label className="block text-xs text-gray-500">Alignment</label>
+                <label className="block text-xs text-gray-500">{t.settings.alignment}</label>
                 <select
                   value={settings.fonts[type].alignment}
                   onChange={(e) => updateSettings({
@@ -296,7 +911,7 @@ export function SettingsForm() {
                 >
                   {alignments.map((alignment) => (
                     <option key={alignment} value={alignment}>
-                      {alignment}
+                      {t.settings.alignments[alignment]}
                     </option>
                   ))}
                 </select>
@@ -305,6 +920,8 @@ export function SettingsForm() {
           </div>
         ))}
       </div>
+
+      {showCoverDesigner && <CoverDesigner onClose={() => setShowCoverDesigner(false)} />}
     </div>
   );
 }
\ No newline at end of file
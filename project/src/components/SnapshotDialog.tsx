@@ -0,0 +1,359 @@
+import React from 'react';
+import { X, Trash2, RotateCcw } from 'lucide-react';
+import type { BookData } from '../types';
+import { useEbookStore } from '../store/useEbookStore';
+import { useSnapshotStore } from '../store/useSnapshotStore';
+import { useMessages } from '../store/useLocaleStore';
+import type { Messages } from '../utils/messages';
+import { diffBooks, isFileValue } from '../utils/bookDiff';
+import type { ChapterDiff, DiffRow, SettingValue } from '../utils/bookDiff';
+import { cn } from '../utils/cn';
+
+interface SnapshotDialogProps {
+  onClose: () => void;
+}
+
+const CURRENT = 'current';
+
+// Unchanged lines kept around each change; longer runs fold into one row
+const CONTEXT_LINES = 2;
+
+type VisibleRow = DiffRow | { kind: 'skipped'; count: number };
+
+function foldUnchanged(rows: DiffRow[]): VisibleRow[] {
+  const visible: VisibleRow[] = [];
+  let index = 0;
+  while (index < rows.length) {
+    if (rows[index].kind !== 'same') {
+      visible.push(rows[index++]);
+      continue;
+    }
+    let end = index;
+    while (end < rows.length && rows[end].kind === 'same') end++;
+    const keepBefore = index === 0 ? 0 : CONTEXT_LINES;
+    const keepAfter = end === rows.length ? 0 : CONTEXT_LINES;
+    if (end - index > keepBefore + keepAfter + 1) {
+      visible.push(...rows.slice(index, index + keepBefore));
+      visible.push({ kind: 'skipped', count: end - index - keepBefore - keepAfter });
+      visible.push(...rows.slice(end - keepAfter, end));
+    } else {
+      visible.push(...rows.slice(index, end));
+    }
+    index = end;
+  }
+  return visible;
+}
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+}
+
+function formatValue(value: SettingValue, t: Messages) {
+  if (value === undefined || value === null || value === '') return '—';
+  return isFileValue(value) ? t.snapshots.file : String(value);
+}
+
+function DiffTable({ rows }: { rows: DiffRow[] }) {
+  const cellClass = 'px-2 py-0.5 align-top whitespace-pre-wrap break-words w-1/2';
+  return (
+    <table className="w-full table-fixed text-xs font-mono border border-gray-200">
+      <tbody>
+        {foldUnchanged(rows).map((row, idx) =>
+          row.kind === 'skipped' ? (
+            <tr key={idx} className="bg-gray-50 text-gray-400">
+              <td colSpan={2} className="px-2 py-0.5 text-center">⋯ {row.count}</td>
+            </tr>
+          ) : (
+            <tr key={idx} className="border-t border-gray-100">
+              <td className={cn(cellClass, 'border-r border-gray-200', row.kind !== 'same' && row.before !== null && 'bg-red-50 text-red-800')}>
+                {row.before}
+              </td>
+              <td className={cn(cellClass, row.kind !== 'same' && row.after !== null && 'bg-green-50 text-green-800')}>
+                {row.after}
+              </td>
+            </tr>
+          )
+        )}
+      </tbody>
+    </table>
+  );
+}
+
+const statusClasses: Record<ChapterDiff['status'] | 'moved', string> = {
+  added: 'bg-green-100 text-green-700',
+  removed: 'bg-red-100 text-red-700',
+  changed: 'bg-amber-100 text-amber-700',
+  moved: 'bg-blue-100 text-blue-700',
+  unchanged: 'bg-gray-100 text-gray-600',
+};
+
+// Saves named versions of the open project, restores them and shows what
+// changed between any two of them or against the book as it is now
+export function SnapshotDialog({ onClose }: SnapshotDialogProps) {
+  const t = useMessages();
+  const { chapters, settings, restoreSnapshot, restoreChapter } = useEbookStore();
+  const { snapshots, error, refresh, createSnapshot, deleteSnapshot, loadSnapshot } = useSnapshotStore();
+  const [name, setName] = React.useState('');
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [fromId, setFromId] = React.useState('');
+  const [toId, setToId] = React.useState(CURRENT);
+  const [fromBook, setFromBook] = React.useState<BookData | null>(null);
+  const [toBook, setToBook] = React.useState<BookData | null>(null);
+
+  React.useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Compare the newest version with the book until something else is picked
+  React.useEffect(() => {
+    if (!snapshots.some((snapshot) => snapshot.id === fromId)) {
+      setFromId(snapshots[0]?.id ?? '');
+    }
+    if (toId !== CURRENT && !snapshots.some((snapshot) => snapshot.id === toId)) {
+      setToId(CURRENT);
+    }
+  }, [snapshots, fromId, toId]);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setFromBook(null);
+    if (fromId) {
+      loadSnapshot(fromId).then((book) => !cancelled && setFromBook(book));
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [fromId, loadSnapshot]);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setToBook(null);
+    if (toId !== CURRENT) {
+      loadSnapshot(toId).then((book) => !cancelled && setToBook(book));
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [toId, loadSnapshot]);
+
+  const afterBook = React.useMemo(
+    () => (toId === CURRENT ? { chapters, settings } : toBook),
+    [toId, toBook, chapters, settings]
+  );
+  const diff = React.useMemo(
+    () => (fromBook && afterBook ? diffBooks(fromBook, afterBook) : null),
+    [fromBook, afterBook]
+  );
+  const fromName = snapshots.find((snapshot) => snapshot.id === fromId)?.name ?? '';
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    await createSnapshot(name.trim() || t.snapshots.defaultName(formatTime(Date.now())));
+    setIsSaving(false);
+    setName('');
+  };
+
+  const handleRestore = async (id: string, snapshotName: string) => {
+    if (!confirm(t.snapshots.confirmRestore(snapshotName))) return;
+    const book = await loadSnapshot(id);
+    if (book) {
+      restoreSnapshot(book, snapshotName);
+      onClose();
+    }
+  };
+
+  const handleDelete = (id: string, snapshotName: string) => {
+    if (confirm(t.snapshots.confirmDelete(snapshotName))) {
+      deleteSnapshot(id);
+    }
+  };
+
+  const changedChapters = diff?.chapters.filter((chapter) => chapter.status !== 'unchanged' || chapter.moved) ?? [];
+  const unchangedCount = diff ? diff.chapters.length - changedChapters.length : 0;
+  const selectClass = "rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-full flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h3 className="text-lg font-medium text-gray-900">{t.snapshots.heading}</h3>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:bg-gray-100 rounded">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto px-6 py-4 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-600 px-3 py-2 rounded-md text-sm">{error}</div>
+          )}
+
+          <form onSubmit={handleCreate} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t.snapshots.namePlaceholder}
+              className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {t.snapshots.create}
+            </button>
+          </form>
+
+          {snapshots.length === 0 ? (
+            <p className="text-sm text-gray-500">{t.snapshots.empty}</p>
+          ) : (
+            <ul className="border border-gray-200 rounded-md divide-y divide-gray-100 max-h-48 overflow-auto">
+              {snapshots.map((snapshot) => (
+                <li key={snapshot.id} className="flex items-center gap-2 px-3 py-1.5 text-sm">
+                  <span className="flex-1 truncate font-medium text-gray-800">{snapshot.name}</span>
+                  <span className="text-xs text-gray-400">{formatTime(snapshot.createdAt)}</span>
+                  <button
+                    onClick={() => handleRestore(snapshot.id, snapshot.name)}
+                    className="flex items-center gap-1 px-2 py-1 text-blue-600 hover:bg-blue-50 rounded"
+                  >
+                    <RotateCcw size={14} />
+                    {t.snapshots.restore}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(snapshot.id, snapshot.name)}
+                    className="p-1 text-red-600 hover:bg-red-50 rounded"
+                    title={t.snapshots.delete}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {snapshots.length > 0 && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-medium text-gray-900">{t.snapshots.compare}</span>
+                <span className="text-gray-500">{t.snapshots.from}</span>
+                <select value={fromId} onChange={(e) => setFromId(e.target.value)} className={selectClass}>
+                  {snapshots.map((snapshot) => (
+                    <option key={snapshot.id} value={snapshot.id}>{snapshot.name}</option>
+                  ))}
+                </select>
+                <span className="text-gray-500">{t.snapshots.to}</span>
+                <select value={toId} onChange={(e) => setToId(e.target.value)} className={selectClass}>
+                  <option value={CURRENT}>{t.snapshots.currentBook}</option>
+                  {snapshots.map((snapshot) => (
+                    <option key={snapshot.id} value={snapshot.id}>{snapshot.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              {diff && changedChapters.length === 0 && diff.settings.length === 0 && (
+                <p className="text-sm text-gray-500">{t.snapshots.noChanges}</p>
+              )}
+
+              {changedChapters.map((chapter) => {
+                const title = (chapter.after ?? chapter.before)?.title || t.untitled;
+                return (
+                  <div key={chapter.id} className="border rounded-lg p-4 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="flex-1 font-medium text-gray-900 truncate">{title}</span>
+                      {chapter.status !== 'unchanged' && (
+                        <span className={cn('px-2 py-0.5 rounded text-xs', statusClasses[chapter.status])}>
+                          {t.snapshots.status[chapter.status]}
+                        </span>
+                      )}
+                      {chapter.moved && (
+                        <span className={cn('px-2 py-0.5 rounded text-xs', statusClasses.moved)}>
+                          {t.snapshots.status.moved}
+                        </span>
+                      )}
+                      {chapter.before && (
+                        <button
+                          onClick={() => restoreChapter(chapter.before!, fromName)}
+                          className="flex items-center gap-1 px-2 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded"
+                        >
+                          <RotateCcw size={14} />
+                          {t.snapshots.restoreChapter}
+                        </button>
+                      )}
+                    </div>
+
+                    <ul className="text-xs text-gray-600 space-y-0.5">
+                      {chapter.titleChanged && (
+                        <li>{t.snapshots.titleChanged(chapter.before!.title, chapter.after!.title)}</li>
+                      )}
+                      {chapter.typeChanged && (
+                        <li>
+                          {t.snapshots.typeChanged(t.chapterTypes[chapter.before!.type], t.chapterTypes[chapter.after!.type])}
+                        </li>
+                      )}
+                      {chapter.formatChanged && <li>{t.snapshots.formatChanged}</li>}
+                      {chapter.imagesChanged && <li>{t.snapshots.imagesChanged}</li>}
+                    </ul>
+
+                    {chapter.rows.some((row) => row.kind !== 'same') && <DiffTable rows={chapter.rows} />}
+
+                    {chapter.subChapters.map((sub) => (
+                      <div key={sub.id} className="pl-4 space-y-1">
+                        <div className="flex items-center gap-2 text-sm">
+                          <span className="text-gray-800">{(sub.after ?? sub.before)?.title || t.untitled}</span>
+                          <span className={cn('px-2 py-0.5 rounded text-xs', statusClasses[sub.status])}>
+                            {t.snapshots.status[sub.status]}
+                          </span>
+                        </div>
+                        {sub.titleChanged && (
+                          <p className="text-xs text-gray-600">
+                            {t.snapshots.titleChanged(sub.before!.title, sub.after!.title)}
+                          </p>
+                        )}
+                        {sub.rows.some((row) => row.kind !== 'same') && <DiffTable rows={sub.rows} />}
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+
+              {unchangedCount > 0 && (
+                <p className="text-xs text-gray-500">{t.snapshots.unchanged(unchangedCount)}</p>
+              )}
+
+              {diff && diff.settings.length > 0 && (
+                <div className="space-y-1">
+                  <h4 className="text-sm font-medium text-gray-900">{t.snapshots.settings}</h4>
+                  <table className="w-full table-fixed text-xs border border-gray-200">
+                    <tbody>
+                      {diff.settings.map((change) => (
+                        <tr key={change.path} className="border-t border-gray-100">
+                          <td className="px-2 py-0.5 font-mono text-gray-600 break-words">{change.path}</td>
+                          <td className="px-2 py-0.5 bg-red-50 text-red-800 break-words">
+                            {formatValue(change.before, t)}
+                          </td>
+                          <td className="px-2 py-0.5 bg-green-50 text-green-800 break-words">
+                            {formatValue(change.after, t)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            {t.snapshots.close}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Chapter } from '../types';
+import { defaultSettings, isPageLabelWrite, useEbookStore } from './useEbookStore';
+
+const chapter: Chapter = {
+  id: 'c1',
+  title: 'One',
+  content: '',
+  images: [],
+  type: 'chapter',
+  indentation: 0,
+  lineSpacing: 1.5,
+  subChapters: [],
+};
+
+const store = () => useEbookStore.getState();
+const content = () => store().chapters[0].content;
+
+// Types `text` one letter at a time, `delay` ms apart
+function type(text: string, delay = 100) {
+  for (const letter of text) {
+    vi.advanceTimersByTime(delay);
+    store().updateChapter(chapter.id, { content: content() + letter });
+  }
+}
+
+describe('edit history', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store().loadBook({ chapters: [chapter], settings: defaultSettings });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('starts with the opened book as its only step', () => {
+    expect(store().history).toHaveLength(1);
+    expect(store().history[0].action).toEqual({ kind: 'open' });
+  });
+
+  it('merges a burst of typing into one step', () => {
+    type('hello');
+    expect(store().history).toHaveLength(2);
+
+    store().undo();
+    expect(content()).toBe('');
+    store().redo();
+    expect(content()).toBe('hello');
+  });
+
+  it('starts a new step after a pause', () => {
+    type('one');
+    vi.advanceTimersByTime(2000);
+    type(' two');
+    expect(store().history).toHaveLength(3);
+
+    store().undo();
+    expect(content()).toBe('one');
+  });
+
+  it('starts a new step when a different field is edited', () => {
+    type('text');
+    store().updateChapter(chapter.id, { title: 'Renamed' });
+    type('!');
+    expect(store().history).toHaveLength(4);
+  });
+
+  it('ignores page numbers the layout writes back', () => {
+    type('ab');
+    store().updateChapter(chapter.id, { ...store().chapters[0], content: 'abc', pageNumber: 7, pageLabel: '7' });
+    type('d');
+
+    expect(store().history).toHaveLength(2);
+    expect(store().chapters[0].pageNumber).toBeUndefined();
+    expect(store().chapters[0].pageLabel).toBeUndefined();
+  });
+
+  it('writes page labels only when they change, and not as an edit', () => {
+    const labels = { [chapter.id]: { pageNumber: 3, pageLabel: 'iii' } };
+    store().applyPageLabels(labels);
+    const labelled = store().chapters;
+
+    expect(labelled[0]).toMatchObject(labels[chapter.id]);
+    expect(isPageLabelWrite(labelled)).toBe(true);
+    expect(store().history).toHaveLength(1);
+
+    store().applyPageLabels({ [chapter.id]: { ...labels[chapter.id] } });
+    expect(store().chapters).toBe(labelled);
+
+    type('a');
+    expect(isPageLabelWrite(store().chapters)).toBe(false);
+  });
+
+  it('records nothing when nothing changes', () => {
+    store().updateChapter(chapter.id, { ...chapter });
+    expect(store().history).toHaveLength(1);
+  });
+
+  it('merges repeated changes to the same setting', () => {
+    store().updateSettings({ title: 'A' });
+    vi.advanceTimersByTime(100);
+    store().updateSettings({ title: 'AB' });
+    vi.advanceTimersByTime(100);
+    store().updateSettings({ author: 'Me' });
+
+    expect(store().history.map((step) => step.settings.title)).toEqual(['', 'AB', 'AB']);
+  });
+
+  it('adds imported chapters in one step', () => {
+    const imported = Array.from({ length: 120 }, (_, i) => ({ title: `Part ${i + 1}`, type: 'chapter' as const }));
+    store().addChapters(imported);
+
+    expect(store().chapters).toHaveLength(121);
+    expect(store().history).toHaveLength(2);
+    expect(store().history[1].action).toEqual({ kind: 'import-chapters', count: 120 });
+
+    store().undo();
+    expect(store().chapters).toEqual([chapter]);
+  });
+
+  it('does not merge into a step that was undone', () => {
+    type('ab');
+    store().undo();
+    type('c');
+
+    expect(store().history).toHaveLength(2);
+    expect(content()).toBe('c');
+    store().undo();
+    expect(content()).toBe('');
+  });
+});
@@ -1,31 +1,172 @@
 import { create } from 'zustand';
-import type { Chapter, EbookSettings } from '../types';
+import type { BookData, Chapter, EbookSettings, PageLabels } from '../types';
+import { clearImageCache } from '../utils/layoutResources';
+
+// What a history step did, worded by the history panel
+export type HistoryAction =
+  | { kind: 'open' }
+  | { kind: 'add-chapter' | 'edit-chapter' | 'remove-chapter' | 'add-subchapter' | 'remove-subchapter'; title: string }
+  | { kind: 'restore-snapshot'; snapshot: string }
+  | { kind: 'restore-chapter'; title: string; snapshot: string }
+  | { kind: 'import-chapters'; count: number }
+  | { kind: 'reorder' }
+  | { kind: 'settings' };
+
+// A step keeps the whole book as it was after the action. Chapters and
+// settings are replaced rather than mutated, so steps share unchanged parts.
+export type HistoryStep = {
+  id: string;
+  action: HistoryAction;
+  time: number;
+  chapters: Chapter[];
+  settings: EbookSettings;
+  mergeKey?: string;
+};
 
 interface EbookStore {
   chapters: Chapter[];
   settings: EbookSettings;
+  history: HistoryStep[];
+  historyIndex: number; // the step the book is at; later steps can be redone
   addChapter: (chapter: Partial<Chapter>) => void;
+  addChapters: (chapters: Partial<Chapter>[]) => void;
   updateChapter: (id: string, chapter: Partial<Chapter>) => void;
   removeChapter: (id: string) => void;
   reorderChapters: (chapters: Chapter[]) => void;
   updateSettings: (settings: Partial<EbookSettings>) => void;
-  calculatePageNumbers: () => void;
   addSubChapter: (chapterId: string, title: string) => void;
   removeSubChapter: (chapterId: string, subChapterId: string) => void;
+  loadBook: (book: BookData) => void;
+  restoreSnapshot: (book: BookData, snapshotName: string) => void;
+  restoreChapter: (chapter: Chapter, snapshotName: string) => void;
+  applyPageLabels: (labels: PageLabels) => void;
+  undo: () => void;
+  redo: () => void;
+  jumpToHistory: (index: number) => void;
+}
+
+const MAX_HISTORY_STEPS = 100;
+// Edits with the same merge key closer together than this are one step, so
+// typing a paragraph is undone as a whole rather than letter by letter
+const MERGE_WINDOW = 1000;
+
+const layoutFields: (keyof Chapter)[] = ['pageNumber', 'pageLabel'];
+
+// The chapters applyPageLabels last wrote, which hold no edit of the user's
+let labelledChapters: Chapter[] | null = null;
+
+// Whether `chapters` only differ from the ones before by the layout's page labels
+export function isPageLabelWrite(chapters: Chapter[]): boolean {
+  return chapters === labelledChapters;
+}
+
+type BookState = Pick<EbookStore, 'chapters' | 'settings' | 'history' | 'historyIndex'>;
+
+function commit(
+  state: BookState,
+  changes: Partial<Pick<EbookStore, 'chapters' | 'settings'>>,
+  action: HistoryAction,
+  mergeKey?: string
+): BookState {
+  const step: HistoryStep = {
+    id: crypto.randomUUID(),
+    action,
+    time: Date.now(),
+    chapters: changes.chapters ?? state.chapters,
+    settings: changes.settings ?? state.settings,
+    mergeKey,
+  };
+  const current = state.history[state.historyIndex];
+  const merges = mergeKey !== undefined &&
+    state.historyIndex === state.history.length - 1 &&
+    current?.mergeKey === mergeKey &&
+    step.time - current.time < MERGE_WINDOW;
+
+  const history = merges
+    ? [...state.history.slice(0, state.historyIndex), { ...step, id: current.id }]
+    : [...state.history.slice(0, state.historyIndex + 1), step].slice(-MAX_HISTORY_STEPS);
+
+  return { chapters: step.chapters, settings: step.settings, history, historyIndex: history.length - 1 };
+}
+
+function createChapter(chapter: Partial<Chapter>): Chapter {
+  return {
+    id: crypto.randomUUID(),
+    title: chapter.title || 'New Chapter',
+    content: chapter.content || '',
+    images: chapter.images || [],
+    type: chapter.type || 'chapter',
+    indentation: chapter.indentation || 0,
+    lineSpacing: chapter.lineSpacing || 1.5,
+    subChapters: chapter.subChapters || [],
+  };
+}
+
+// Inserts the chapter in the correct position based on type
+function insertChapter(chapters: Chapter[], newChapter: Chapter): Chapter[] {
+  const updatedChapters = [...chapters];
+  let insertIndex = 0;
+
+  if (newChapter.type === 'frontmatter' || newChapter.type === 'toc') {
+    // Find the last frontmatter chapter
+    while (insertIndex < updatedChapters.length && 
+      (updatedChapters[insertIndex].type === 'frontmatter' || updatedChapters[insertIndex].type === 'toc')) {
+      insertIndex++;
+    }
+  } else if (newChapter.type === 'chapter') {
+    // Skip frontmatter and toc chapters
+    while (insertIndex < updatedChapters.length && 
+      (updatedChapters[insertIndex].type === 'frontmatter' || updatedChapters[insertIndex].type === 'toc')) {
+      insertIndex++;
+    }
+    // Skip existing chapters
+    while (insertIndex < updatedChapters.length && updatedChapters[insertIndex].type === 'chapter') {
+      insertIndex++;
+    }
+  } else { // backmatter
+    insertIndex = updatedChapters.length;
+  }
+
+  updatedChapters.splice(insertIndex, 0, newChapter);
+  return updatedChapters;
+}
+
+function orderByType(chapters: Chapter[]): Chapter[] {
+  return [
+    ...chapters.filter(ch => ch.type === 'frontmatter'),
+    ...chapters.filter(ch => ch.type === 'toc'),
+    ...chapters.filter(ch => ch.type === 'chapter'),
+    ...chapters.filter(ch => ch.type === 'backmatter'),
+  ];
+}
+
+function restore(state: BookState, index: number): Partial<BookState> {
+  const step = state.history[index];
+  if (!step || index === state.historyIndex) return {};
+  return { chapters: step.chapters, settings: step.settings, historyIndex: index };
 }
 
-const defaultSettings: EbookSettings = {
+export const defaultSettings: EbookSettings = {
   title: '',
   author: '',
   description: '',
+  language: 'id',
   coverImage: null,
   backCoverImage: null,
   paperSize: 'A4',
+  customPaperSize: {
+    width: 140,
+    height: 210,
+    unit: 'mm',
+  },
+  orientation: 'portrait',
   margins: {
     top: 2.54,
     bottom: 2.54,
     left: 2.54,
     right: 2.54,
+    mirrored: false,
+    gutter: 0,
   },
   fonts: {
     title: {
@@ -83,227 +224,145 @@ const defaultSettings: EbookSettings = {
       lineHeight: 1.5,
     },
   },
+  customFonts: [],
   pageNumbering: {
     enabled: true,
-    startFrom: 1,
     position: 'bottom',
     alignment: 'center',
-    style: 'decimal',
+    sections: {
+      frontmatter: { style: 'lower-roman', restart: true, startFrom: 1 },
+      body: { style: 'decimal', restart: true, startFrom: 1 },
+      backmatter: { style: 'decimal', restart: false, startFrom: 1 },
+    },
+  },
+  chapterStarts: {
+    sections: {
+      frontmatter: 'any',
+      body: 'any',
+      backmatter: 'any',
+    },
+    titlePage: true,
   },
   header: {
     enabled: false,
-    text: '',
+    text: '{chapterTitle}',
+    evenText: '{bookTitle}',
     alternateEvenOdd: false,
   },
   footer: {
     enabled: false,
     text: '',
+    evenText: '',
     alternateEvenOdd: false,
   },
+  toc: {
+    depth: 2,
+    leader: 'dots',
+    chapterPrefix: 'label',
+    numberSubChapters: true,
+  },
+  tables: {
+    keepTogether: false,
+  },
+  notes: {
+    placement: 'footnotes',
+    numbering: 'chapter',
+  },
+  blocks: {
+    codeFont: 'Courier',
+    quoteIndent: 8,
+    quoteRule: true,
+    sceneBreak: '* * *',
+  },
+  images: {
+    screen: { maxDpi: 150, jpegQuality: 75 },
+    print: { maxDpi: 300, jpegQuality: 92 },
+    minimumDpi: 300,
+  },
+  print: {
+    bleed: 3,
+    cropMarks: true,
+    grayscaleImages: false,
+  },
+  cover: {
+    paperThickness: 0.1,
+    background: '#ffffff',
+    spineColor: '#ffffff',
+    textColor: '#000000',
+    frontText: true,
+    spineText: true,
+    blurb: true,
+    barcodeArea: true,
+  },
 };
 
-export const useEbookStore = create<EbookStore>((set, get) => ({
+export const useEbookStore = create<EbookStore>((set) => ({
   chapters: [],
   settings: defaultSettings,
+  history: [],
+  historyIndex: -1,
   addChapter: (chapter) =>
     set((state) => {
-      const newChapter = {
-        id: crypto.randomUUID(),
-        title: chapter.title || 'New Chapter',
-        content: chapter.content || '',
-        images: chapter.images || [],
-        type: chapter.type || 'chapter',
-        indentation: chapter.indentation || 0,
-        lineSpacing: chapter.lineSpacing || 1.5,
-        subChapters: chapter.subChapters || [],
-      };
-
-      // Insert chapter in the correct position based on type
-      const updatedChapters = [...state.chapters];
-      let insertIndex = 0;
-
-      if (newChapter.type === 'frontmatter' || newChapter.type === 'toc') {
-        // Find the last frontmatter chapter
-        while (insertIndex < updatedChapters.length && 
-          (updatedChapters[insertIndex].type === 'frontmatter' || updatedChapters[insertIndex].type === 'toc')) {
-          insertIndex++;
-        }
-      } else if (newChapter.type === 'chapter') {
-        // Skip frontmatter and toc chapters
-        while (insertIndex < updatedChapters.length && 
-          (updatedChapters[insertIndex].type === 'frontmatter' || updatedChapters[insertIndex].type === 'toc')) {
-          insertIndex++;
-        }
-        // Skip existing chapters
-        while (insertIndex < updatedChapters.length && updatedChapters[insertIndex].type === 'chapter') {
-          insertIndex++;
-        }
-      } else { // backmatter
-        insertIndex = updatedChapters.length;
-      }
-
-      updatedChapters.splice(insertIndex, 0, newChapter);
-
-      // Update chapter numbers
-      let chapterNumber = 1;
-      const finalChapters = updatedChapters.map(ch => {
-        if (ch.type === 'chapter') {
-          return { ...ch, pageNumber: chapterNumber++ };
-        }
-        return ch;
-      });
-
-      return { chapters: finalChapters };
+      const newChapter = createChapter(chapter);
+      return commit(
+        state,
+        { chapters: insertChapter(state.chapters, newChapter) },
+        { kind: 'add-chapter', title: newChapter.title }
+      );
+    }),
+  // Imports add all their chapters as one step, so a single undo removes them
+  addChapters: (chapters) =>
+    set((state) => {
+      if (chapters.length === 0) return state;
+      const updatedChapters = chapters.reduce(
+        (current, chapter) => insertChapter(current, createChapter(chapter)),
+        state.chapters
+      );
+      return commit(state, { chapters: updatedChapters }, { kind: 'import-chapters', count: chapters.length });
     }),
   updateChapter: (id, chapter) =>
     set((state) => {
+      const existing = state.chapters.find((ch) => ch.id === id);
+      if (!existing) return state;
+      // Only the fields that differ name the edit. Page numbers and labels
+      // belong to the layout (applyPageLabels) and are never taken from a patch.
+      const changed = (Object.keys(chapter) as (keyof Chapter)[])
+        .filter((key) => !layoutFields.includes(key) && chapter[key] !== existing[key])
+        .sort();
+      if (changed.length === 0) return state;
+
+      const patch = Object.fromEntries(changed.map((key) => [key, chapter[key]]));
       const updatedChapters = state.chapters.map((ch) =>
-        ch.id === id ? { ...ch, ...chapter } : ch
+        ch.id === id ? { ...ch, ...patch } : ch
       );
 
-      // Maintain chapter numbers
-      let chapterNumber = 1;
-      const finalChapters = updatedChapters.map(ch => {
-        if (ch.type === 'chapter') {
-          return { ...ch, pageNumber: chapterNumber++ };
-        }
-        return ch;
-      });
-
-      return { chapters: finalChapters };
+      return commit(
+        state,
+        { chapters: updatedChapters },
+        { kind: 'edit-chapter', title: chapter.title ?? existing.title },
+        `chapter:${id}:${changed.join(',')}`
+      );
     }),
   removeChapter: (id) =>
     set((state) => {
+      const removed = state.chapters.find((ch) => ch.id === id);
       const filteredChapters = state.chapters.filter((ch) => ch.id !== id);
-      
-      // Update chapter numbers after removal
-      let chapterNumber = 1;
-      const finalChapters = filteredChapters.map(ch => {
-        if (ch.type === 'chapter') {
-          return { ...ch, pageNumber: chapterNumber++ };
-        }
-        return ch;
-      });
 
-      return { chapters: finalChapters };
+      return commit(state, { chapters: filteredChapters }, { kind: 'remove-chapter', title: removed?.title ?? '' });
     }),
   reorderChapters: (chapters) => {
-    // Ensure proper ordering by type
-    const frontmatterChapters = chapters.filter(ch => ch.type === 'frontmatter');
-    const tocChapters = chapters.filter(ch => ch.type === 'toc');
-    const mainChapters = chapters.filter(ch => ch.type === 'chapter');
-    const backmatterChapters = chapters.filter(ch => ch.type === 'backmatter');
-
-    // Update chapter numbers
-    let chapterNumber = 1;
-    const numberedMainChapters = mainChapters.map(ch => ({
-      ...ch,
-      pageNumber: chapterNumber++
-    }));
-
-    // Combine all sections in the correct order
-    const orderedChapters = [
-      ...frontmatterChapters,
-      ...tocChapters,
-      ...numberedMainChapters,
-      ...backmatterChapters
-    ];
-    
-    set({ chapters: orderedChapters });
-    get().calculatePageNumbers();
+    set((state) => commit(state, { chapters: orderByType(chapters) }, { kind: 'reorder' }));
   },
-  updateSettings: (settings) =>
-    set((state) => ({
-      settings: { ...state.settings, ...settings },
-    })),
-  calculatePageNumbers: () => {
-    const { chapters, settings } = get();
-    let romanPageCount = 1;
-    let arabicPageCount = 1;
-
-    // Calculate approximate characters per page
-    const pageWidth = settings.paperSize === 'A4' ? 210 : 216; // mm
-    const pageHeight = settings.paperSize === 'A4' ? 297 : 279; // mm
-    const contentWidth = pageWidth - (settings.margins.left + settings.margins.right) * 10;
-    const contentHeight = pageHeight - (settings.margins.top + settings.margins.bottom) * 10;
-    const charsPerLine = Math.floor(contentWidth / (settings.fonts.paragraph.size * 0.352778));
-    const linesPerPage = Math.floor(contentHeight / (settings.fonts.paragraph.size * settings.fonts.paragraph.lineHeight * 0.352778));
-    const charsPerPage = charsPerLine * linesPerPage;
-
-    // Add cover page if exists
-    if (settings.coverImage) {
-      arabicPageCount++;
-    }
-
-    // Add title page
-    arabicPageCount++;
-
-    const updatedChapters = chapters.map((chapter) => {
-      const isPreContent = chapter.type === 'frontmatter' || chapter.type === 'toc';
-      let pageCount = isPreContent ? romanPageCount : arabicPageCount;
-
-      // Each chapter starts on a new page
-      if (isPreContent) {
-        romanPageCount++;
-      } else {
-        arabicPageCount++;
-      }
-
-      // Calculate content pages
-      const contentLength = chapter.content.length;
-      const contentPages = Math.ceil(contentLength / charsPerPage);
-
-      // Calculate image pages
-      const imagePages = chapter.images.reduce((total, image) => {
-        // Large images (>50% width) take a full page
-        if (image.width > 50) {
-          return total + 1;
-        }
-        // Smaller images can be 2 per page
-        return total + 0.5;
-      }, 0);
-
-      // Round up total image pages
-      const totalImagePages = Math.ceil(imagePages);
-
-      // Add pages for chapter content and images
-      const totalPages = Math.max(1, contentPages + totalImagePages);
-
-      if (isPreContent) {
-        romanPageCount += totalPages;
-      } else {
-        arabicPageCount += totalPages;
-      }
-
-      // Calculate subchapter pages
-      const subChapters = chapter.subChapters.map((sub) => {
-        const subContentLength = sub.content.length;
-        const subPages = Math.max(1, Math.ceil(subContentLength / charsPerPage));
-        const subPageNumber = isPreContent ? romanPageCount : arabicPageCount;
-
-        if (isPreContent) {
-          romanPageCount += subPages;
-        } else {
-          arabicPageCount += subPages;
-        }
-
-        return {
-          ...sub,
-          pageNumber: subPageNumber
-        };
-      });
-
-      return {
-        ...chapter,
-        pageNumber: pageCount,
-        subChapters
-      };
-    });
-
-    set({ chapters: updatedChapters });
+  updateSettings: (settings) => {
+    set((state) => commit(
+      state,
+      { settings: { ...state.settings, ...settings } },
+      { kind: 'settings' },
+      `settings:${Object.keys(settings).sort().join(',')}`
+    ));
   },
   addSubChapter: (chapterId, title) => {
-    set((state) => ({
+    set((state) => commit(state, {
       chapters: state.chapters.map((ch) =>
         ch.id === chapterId
           ? {
@@ -319,20 +378,92 @@ export const useEbookStore = create<EbookStore>((set, get) => ({
             }
           : ch
       ),
-    }));
-    get().calculatePageNumbers();
+    }, { kind: 'add-subchapter', title }));
   },
   removeSubChapter: (chapterId, subChapterId) => {
-    set((state) => ({
-      chapters: state.chapters.map((ch) =>
-        ch.id === chapterId
-          ? {
-              ...ch,
-              subChapters: ch.subChapters.filter((sub) => sub.id !== subChapterId),
-            }
-          : ch
-      ),
-    }));
-    get().calculatePageNumbers();
+    set((state) => {
+      const removed = state.chapters
+        .find((ch) => ch.id === chapterId)
+        ?.subChapters.find((sub) => sub.id === subChapterId);
+
+      return commit(state, {
+        chapters: state.chapters.map((ch) =>
+          ch.id === chapterId
+            ? {
+                ...ch,
+                subChapters: ch.subChapters.filter((sub) => sub.id !== subChapterId),
+              }
+            : ch
+        ),
+      }, { kind: 'remove-subchapter', title: removed?.title ?? '' });
+    });
+  },
+  // A newly opened book starts a history of its own
+  loadBook: (book) => {
+    clearImageCache();
+    set(commit(
+      { chapters: book.chapters, settings: book.settings, history: [], historyIndex: -1 },
+      {},
+      { kind: 'open' }
+    ));
+  },
+  // Restoring is an edit like any other, so it can be undone
+  restoreSnapshot: (book, snapshotName) => {
+    set((state) => commit(state, book, { kind: 'restore-snapshot', snapshot: snapshotName }));
+  },
+  // A chapter deleted since the snapshot comes back at the end of its section
+  restoreChapter: (chapter, snapshotName) => {
+    set((state) => {
+      const exists = state.chapters.some((ch) => ch.id === chapter.id);
+      const chapters = exists
+        ? state.chapters.map((ch) => (ch.id === chapter.id ? chapter : ch))
+        : orderByType([...state.chapters, chapter]);
+
+      return commit(state, { chapters }, { kind: 'restore-chapter', title: chapter.title, snapshot: snapshotName });
+    });
+  },
+  // Stores the pagination of the latest layout. Unchanged labels keep the
+  // current chapters so subscribers do not see an edit; changed ones are no
+  // edit either, so autosave skips them (isPageLabelWrite).
+  applyPageLabels: (labels) => {
+    set((state) => {
+      const isCurrent = (item: { id: string; pageNumber?: number; pageLabel?: string }) =>
+        !labels[item.id] ||
+        (item.pageNumber === labels[item.id].pageNumber && item.pageLabel === labels[item.id].pageLabel);
+      if (state.chapters.every((ch) => isCurrent(ch) && ch.subChapters.every(isCurrent))) {
+        return state;
+      }
+
+      labelledChapters = state.chapters.map((ch) => ({
+        ...ch,
+        ...labels[ch.id],
+        subChapters: ch.subChapters.map((sub) => ({ ...sub, ...labels[sub.id] })),
+      }));
+      return { chapters: labelledChapters };
+    });
   },
-}));
\ No newline at end of file
+  undo: () => set((state) => restore(state, state.historyIndex - 1)),
+  redo: () => set((state) => restore(state, state.historyIndex + 1)),
+  jumpToHistory: (index) => set((state) => restore(state, index)),
+}));
+
+// Ctrl/Cmd+Z undoes and Ctrl/Cmd+Shift+Z or Ctrl+Y redoes, in text fields too:
+// the store's history replaces the browser's, which controlled inputs break
+export function startHistoryShortcuts(): () => void {
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+    const key = e.key.toLowerCase();
+    const { undo, redo } = useEbookStore.getState();
+    if (key === 'z' && !e.shiftKey) {
+      undo();
+    } else if ((key === 'z' && e.shiftKey) || (key === 'y' && !e.metaKey)) {
+      redo();
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  window.addEventListener('keydown', handleKeyDown);
+  return () => window.removeEventListener('keydown', handleKeyDown);
+}
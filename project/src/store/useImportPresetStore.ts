@@ -0,0 +1,45 @@
+import { create } from 'zustand';
+import type { ImportPreset, ImportRule } from '../utils/bulkImport';
+
+// Presets belong to the user rather than to a book, so they live beside the
+// session in localStorage instead of in a project
+const PRESETS_KEY = 'ebook-layouter:import-presets';
+
+interface ImportPresetStore {
+  presets: ImportPreset[];
+  savePreset: (name: string, rules: ImportRule[]) => ImportPreset;
+  deletePreset: (id: string) => void;
+}
+
+function readPresets(): ImportPreset[] {
+  try {
+    const raw = localStorage.getItem(PRESETS_KEY);
+    return raw ? (JSON.parse(raw) as ImportPreset[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writePresets(presets: ImportPreset[]) {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+}
+
+export const useImportPresetStore = create<ImportPresetStore>((set, get) => ({
+  presets: readPresets(),
+  // Saving under an existing name replaces that preset
+  savePreset: (name, rules) => {
+    const existing = get().presets.find((preset) => preset.name === name);
+    const preset = { id: existing?.id ?? crypto.randomUUID(), name, rules };
+    const presets = existing
+      ? get().presets.map((p) => (p.id === existing.id ? preset : p))
+      : [...get().presets, preset];
+    writePresets(presets);
+    set({ presets });
+    return preset;
+  },
+  deletePreset: (id) => {
+    const presets = get().presets.filter((preset) => preset.id !== id);
+    writePresets(presets);
+    set({ presets });
+  },
+}));
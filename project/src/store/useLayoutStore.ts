@@ -0,0 +1,82 @@
+import { create } from 'zustand';
+import type { Chapter, EbookSettings, PdfProfile } from '../types';
+import { useEbookStore } from './useEbookStore';
+import { currentMessages } from './useLocaleStore';
+import { coverPageCount, layoutBookWithToc } from '../utils/layout';
+import type { BookLayout } from '../utils/layout';
+import { createMeasuringDoc, createPdfMeasurer, loadLayoutResources } from '../utils/layoutResources';
+import { measureImageDpi } from '../utils/imagePipeline';
+
+const LAYOUT_DELAY = 300;
+
+interface LayoutStore {
+  layout: BookLayout | null;
+  // Lowest resolution each image prints at, in dpi, keyed by URL
+  imageDpi: Record<string, number>;
+  error: string | null;
+}
+
+export const useLayoutStore = create<LayoutStore>(() => ({
+  layout: null,
+  imageDpi: {},
+  error: null,
+}));
+
+// The preview follows the screen PDF; the print profile lays out the interior
+// as printed, without the front cover
+export async function computeBookLayout(
+  chapters: Chapter[],
+  settings: EbookSettings,
+  profile: PdfProfile = 'screen'
+): Promise<BookLayout> {
+  const { images, fonts } = await loadLayoutResources(chapters, settings);
+  const measure = createPdfMeasurer(createMeasuringDoc(settings.customFonts, fonts));
+  return layoutBookWithToc(chapters, settings, measure, images, coverPageCount(settings, profile));
+}
+
+// Keeps the layout, and the page labels shown in the editor, in step with the
+// book. Edits are batched; a layout that finishes after a newer edit is dropped.
+export function startLayoutEngine(): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let generation = 0;
+  // The chapters the engine wrote labels into, which need no new layout
+  let appliedChapters: Chapter[] | null = null;
+
+  const run = async () => {
+    timer = null;
+    const current = ++generation;
+    const { chapters, settings } = useEbookStore.getState();
+
+    try {
+      const layout = await computeBookLayout(chapters, settings);
+      const imageDpi = await measureImageDpi(layout, settings);
+      if (current !== generation) return;
+
+      useLayoutStore.setState({ layout, imageDpi, error: null });
+      useEbookStore.getState().applyPageLabels(layout.pageLabels);
+      appliedChapters = useEbookStore.getState().chapters;
+    } catch (err) {
+      if (current !== generation) return;
+      console.error('Error laying out book:', err);
+      useLayoutStore.setState({ error: currentMessages().preview.layoutFailed });
+    }
+  };
+
+  const unsubscribe = useEbookStore.subscribe((state, prev) => {
+    if (state.chapters === prev.chapters && state.settings === prev.settings) return;
+    if (state.settings === prev.settings && state.chapters === appliedChapters) return;
+
+    // An edit made while a layout is running makes that layout stale
+    generation++;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(run, LAYOUT_DELAY);
+  });
+
+  run();
+
+  return () => {
+    unsubscribe();
+    generation++;
+    if (timer) clearTimeout(timer);
+  };
+}
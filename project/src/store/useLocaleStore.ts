@@ -0,0 +1,37 @@
+import { create } from 'zustand';
+import type { Language } from '../types';
+import { messages } from '../utils/messages';
+import type { Messages } from '../utils/messages';
+
+// The interface language belongs to the user rather than to a book, so it
+// lives beside the session in localStorage instead of in a project
+const LOCALE_KEY = 'ebook-layouter:locale';
+
+interface LocaleStore {
+  locale: Language;
+  setLocale: (locale: Language) => void;
+}
+
+function readLocale(): Language {
+  const stored = localStorage.getItem(LOCALE_KEY);
+  if (stored === 'id' || stored === 'en') return stored;
+  // Until one is picked, follow the browser; the editor started out Indonesian
+  return navigator.language.toLowerCase().startsWith('en') ? 'en' : 'id';
+}
+
+export const useLocaleStore = create<LocaleStore>((set) => ({
+  locale: readLocale(),
+  setLocale: (locale) => {
+    localStorage.setItem(LOCALE_KEY, locale);
+    set({ locale });
+  },
+}));
+
+export function useMessages(): Messages {
+  return messages[useLocaleStore((state) => state.locale)];
+}
+
+// For stores, which report in whatever language is current when they fail
+export function currentMessages(): Messages {
+  return messages[useLocaleStore.getState().locale];
+}
@@ -0,0 +1,242 @@
+import { create } from 'zustand';
+import type { BookData, ProjectMeta } from '../types';
+import { defaultSettings, isPageLabelWrite, useEbookStore } from './useEbookStore';
+import { currentMessages } from './useLocaleStore';
+import {
+  deleteProject as deleteStoredProject,
+  duplicateProject as duplicateStoredProject,
+  listProjects,
+  loadProject,
+  saveProject,
+} from '../utils/projectStorage';
+import { exportProjectFile, importProjectFile } from '../utils/projectFile';
+
+const SESSION_KEY = 'ebook-layouter:session';
+const AUTOSAVE_DELAY = 1000;
+
+type SaveStatus = 'idle' | 'loading' | 'saving' | 'saved' | 'error';
+
+type Session = {
+  projectId: string;
+  cleanExit: boolean;
+};
+
+interface ProjectStore {
+  projects: ProjectMeta[];
+  currentProjectId: string | null;
+  status: SaveStatus;
+  lastSavedAt: number | null;
+  recoveredAt: number | null;
+  error: string | null;
+  initialize: () => Promise<void>;
+  createProject: () => Promise<void>;
+  importProject: (file: File) => Promise<void>;
+  exportCurrentProject: () => Promise<Blob>;
+  openProject: (id: string) => Promise<void>;
+  duplicateProject: (id: string) => Promise<void>;
+  deleteProject: (id: string) => Promise<void>;
+  saveCurrentProject: () => Promise<void>;
+  dismissRecovery: () => void;
+}
+
+function readSession(): Session | null {
+  try {
+    const raw = localStorage.getItem(SESSION_KEY);
+    return raw ? (JSON.parse(raw) as Session) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeSession(session: Session) {
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+}
+
+let isHydrating = false;
+let autosaveTimer: ReturnType<typeof setTimeout> | null = null;
+let pendingSave: Promise<void> | null = null;
+let initialized = false;
+
+export const useProjectStore = create<ProjectStore>((set, get) => ({
+  projects: [],
+  currentProjectId: null,
+  status: 'idle',
+  lastSavedAt: null,
+  recoveredAt: null,
+  error: null,
+  initialize: async () => {
+    // StrictMode mounts effects twice; opening the database once is enough
+    if (initialized) return;
+    initialized = true;
+    set({ status: 'loading' });
+    try {
+      const projects = await listProjects();
+      const session = readSession();
+      set({ projects });
+
+      const previous = session && projects.find((p) => p.id === session.projectId);
+      if (previous) {
+        await get().openProject(previous.id);
+        // The last session never reached pagehide, so it was closed by a crash or a kill.
+        if (!session.cleanExit) {
+          set({ recoveredAt: previous.updatedAt });
+        }
+      } else if (projects.length > 0) {
+        await get().openProject(projects[0].id);
+      } else {
+        await get().createProject();
+      }
+    } catch (err) {
+      console.error('Error loading projects:', err);
+      set({ status: 'error', error: currentMessages().project.databaseFailed });
+    }
+  },
+  createProject: async () => {
+    await startNewProject({ chapters: [], settings: defaultSettings });
+  },
+  importProject: async (file) => {
+    // Validation errors propagate to the caller before the current book is touched
+    const book = await importProjectFile(file);
+    await startNewProject(book);
+  },
+  exportCurrentProject: async () => {
+    const { chapters, settings } = useEbookStore.getState();
+    return exportProjectFile({ chapters, settings });
+  },
+  openProject: async (id) => {
+    await get().saveCurrentProject();
+    set({ status: 'loading', error: null });
+    try {
+      const { meta, ...book } = await loadProject(id);
+      isHydrating = true;
+      useEbookStore.getState().loadBook(book);
+      isHydrating = false;
+      set({ currentProjectId: id, status: 'saved', lastSavedAt: meta.updatedAt, recoveredAt: null });
+      writeSession({ projectId: id, cleanExit: false });
+    } catch (err) {
+      isHydrating = false;
+      console.error('Error opening project:', err);
+      set({ status: 'error', error: currentMessages().project.openFailed });
+    }
+  },
+  duplicateProject: async (id) => {
+    await get().saveCurrentProject();
+    const source = get().projects.find((p) => p.id === id);
+    const t = currentMessages();
+    try {
+      const copy = await duplicateStoredProject(id, t.project.copyOf(source?.title || t.untitled));
+      set({ projects: await listProjects() });
+      await get().openProject(copy.id);
+    } catch (err) {
+      console.error('Error duplicating project:', err);
+      set({ status: 'error', error: currentMessages().project.duplicateFailed });
+    }
+  },
+  deleteProject: async (id) => {
+    try {
+      if (id === get().currentProjectId) {
+        cancelAutosave();
+        set({ currentProjectId: null });
+      }
+      await deleteStoredProject(id);
+      const projects = await listProjects();
+      set({ projects });
+      if (!get().currentProjectId) {
+        if (projects.length > 0) {
+          await get().openProject(projects[0].id);
+        } else {
+          await get().createProject();
+        }
+      }
+    } catch (err) {
+      console.error('Error deleting project:', err);
+      set({ status: 'error', error: currentMessages().project.deleteFailed });
+    }
+  },
+  saveCurrentProject: async () => {
+    cancelAutosave();
+    if (pendingSave) {
+      await pendingSave;
+    }
+    const projectId = get().currentProjectId;
+    if (!projectId) return;
+
+    const { chapters, settings } = useEbookStore.getState();
+    set({ status: 'saving' });
+    pendingSave = saveProject(projectId, { chapters, settings })
+      .then(async (meta) => {
+        set({ status: 'saved', lastSavedAt: meta.updatedAt, error: null, projects: await listProjects() });
+      })
+      .catch((err) => {
+        console.error('Error saving project:', err);
+        set({ status: 'error', error: currentMessages().project.autosaveFailed });
+      })
+      .finally(() => {
+        pendingSave = null;
+      });
+    await pendingSave;
+  },
+  dismissRecovery: () => set({ recoveredAt: null }),
+}));
+
+async function startNewProject(book: BookData) {
+  const { saveCurrentProject } = useProjectStore.getState();
+  await saveCurrentProject();
+  const id = crypto.randomUUID();
+  isHydrating = true;
+  useEbookStore.getState().loadBook(book);
+  isHydrating = false;
+  useProjectStore.setState({ currentProjectId: id, recoveredAt: null });
+  writeSession({ projectId: id, cleanExit: false });
+  await saveCurrentProject();
+}
+
+function cancelAutosave() {
+  if (autosaveTimer) {
+    clearTimeout(autosaveTimer);
+    autosaveTimer = null;
+  }
+}
+
+export function startAutosave(): () => void {
+  const unsubscribe = useEbookStore.subscribe((state, prev) => {
+    if (isHydrating) return;
+    if (state.chapters === prev.chapters && state.settings === prev.settings) return;
+    // Page labels follow from the content and are saved with the next edit
+    if (state.settings === prev.settings && isPageLabelWrite(state.chapters)) return;
+    if (!useProjectStore.getState().currentProjectId) return;
+
+    cancelAutosave();
+    autosaveTimer = setTimeout(() => {
+      useProjectStore.getState().saveCurrentProject();
+    }, AUTOSAVE_DELAY);
+  });
+
+  const handlePageHide = () => {
+    const { currentProjectId } = useProjectStore.getState();
+    if (!currentProjectId) return;
+    // Only a session with nothing left to write counts as a clean exit
+    const hasUnsavedChanges = autosaveTimer !== null || pendingSave !== null;
+    if (hasUnsavedChanges) {
+      useProjectStore.getState().saveCurrentProject();
+    }
+    writeSession({ projectId: currentProjectId, cleanExit: !hasUnsavedChanges });
+  };
+
+  const handlePageShow = () => {
+    const { currentProjectId } = useProjectStore.getState();
+    if (currentProjectId) {
+      writeSession({ projectId: currentProjectId, cleanExit: false });
+    }
+  };
+
+  window.addEventListener('pagehide', handlePageHide);
+  window.addEventListener('pageshow', handlePageShow);
+
+  return () => {
+    unsubscribe();
+    cancelAutosave();
+    window.removeEventListener('pagehide', handlePageHide);
+    window.removeEventListener('pageshow', handlePageShow);
+  };
+}
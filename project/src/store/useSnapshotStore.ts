@@ -0,0 +1,77 @@
+import { create } from 'zustand';
+import type { BookData, SnapshotMeta } from '../types';
+import { useProjectStore } from './useProjectStore';
+import { currentMessages } from './useLocaleStore';
+import {
+  createSnapshot as createStoredSnapshot,
+  deleteSnapshot as deleteStoredSnapshot,
+  listSnapshots,
+  loadSnapshot as loadStoredSnapshot,
+} from '../utils/projectStorage';
+
+// Named versions of the open project. Snapshots are read fresh from the
+// database whenever the list is shown, so switching projects needs no sync.
+interface SnapshotStore {
+  snapshots: SnapshotMeta[];
+  error: string | null;
+  refresh: () => Promise<void>;
+  createSnapshot: (name: string) => Promise<void>;
+  deleteSnapshot: (id: string) => Promise<void>;
+  loadSnapshot: (id: string) => Promise<BookData | null>;
+}
+
+export const useSnapshotStore = create<SnapshotStore>((set, get) => ({
+  snapshots: [],
+  error: null,
+  refresh: async () => {
+    const projectId = useProjectStore.getState().currentProjectId;
+    if (!projectId) {
+      set({ snapshots: [] });
+      return;
+    }
+    try {
+      set({ snapshots: await listSnapshots(projectId), error: null });
+    } catch (err) {
+      console.error('Error listing snapshots:', err);
+      set({ error: currentMessages().snapshots.listFailed });
+    }
+  },
+  createSnapshot: async (name) => {
+    const projectId = useProjectStore.getState().currentProjectId;
+    if (!projectId) return;
+    try {
+      // The snapshot copies the stored project, which has to hold the latest edits
+      await useProjectStore.getState().saveCurrentProject();
+      if (useProjectStore.getState().status === 'error') {
+        throw new Error('Project could not be saved');
+      }
+      await createStoredSnapshot(projectId, name);
+      await get().refresh();
+    } catch (err) {
+      console.error('Error creating snapshot:', err);
+      set({ error: currentMessages().snapshots.createFailed });
+    }
+  },
+  deleteSnapshot: async (id) => {
+    const projectId = useProjectStore.getState().currentProjectId;
+    if (!projectId) return;
+    try {
+      await deleteStoredSnapshot(projectId, id);
+      await get().refresh();
+    } catch (err) {
+      console.error('Error deleting snapshot:', err);
+      set({ error: currentMessages().snapshots.deleteFailed });
+    }
+  },
+  loadSnapshot: async (id) => {
+    const projectId = useProjectStore.getState().currentProjectId;
+    if (!projectId) return null;
+    try {
+      return await loadStoredSnapshot(projectId, id);
+    } catch (err) {
+      console.error('Error loading snapshot:', err);
+      set({ error: currentMessages().snapshots.loadFailed });
+      return null;
+    }
+  },
+}));
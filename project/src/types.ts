@@ -1,4 +1,28 @@
-export type PaperSize = 'A4' | 'Letter' | 'Legal';
+export type PaperSize =
+  | 'A4'
+  | 'A5'
+  | 'B5'
+  | 'Letter'
+  | 'Legal'
+  | '5.5x8.5in'
+  | '6x9in'
+  | '14x21cm'
+  | '15.5x23cm'
+  | 'custom';
+
+export type PageOrientation = 'portrait' | 'landscape';
+
+export type LengthUnit = 'mm' | 'in';
+
+// Used when paperSize is 'custom', measured in `unit`
+export type CustomPaperSize = {
+  width: number;
+  height: number;
+  unit: LengthUnit;
+};
+
+// Languages with catalogs, for the book's own text and for the editor
+export type Language = 'id' | 'en';
 
 export type FontAlignment = 'left' | 'right' | 'center' | 'justify';
 
@@ -9,6 +33,7 @@ export type Chapter = {
   images: ChapterImage[];
   type: 'frontmatter' | 'chapter' | 'backmatter' | 'toc';
   pageNumber?: number;
+  pageLabel?: string;
   indentation: number;
   lineSpacing: number;
   subChapters: SubChapter[];
@@ -19,6 +44,7 @@ export type SubChapter = {
   title: string;
   content: string;
   pageNumber?: number;
+  pageLabel?: string;
 };
 
 export type ChapterImage = {
@@ -27,6 +53,7 @@ export type ChapterImage = {
   caption: string;
   alignment: 'left' | 'center' | 'right';
   width: number; // percentage of page width
+  bleed?: boolean; // fills a page of its own, running off its edges in print
 };
 
 export type FontSettings = {
@@ -36,18 +63,123 @@ export type FontSettings = {
   lineHeight: number;
 };
 
+export type FontVariant = 'regular' | 'bold' | 'italic' | 'bolditalic';
+
+// An uploaded TTF/OTF family. Roles in EbookSettings.fonts use it by setting
+// their `family` to this family name.
+export type CustomFont = {
+  id: string;
+  family: string;
+  files: Record<FontVariant, string | null>; // font file URLs, null when not uploaded
+};
+
+export type PageNumberStyle =
+  | 'decimal'
+  | 'lower-roman'
+  | 'upper-roman'
+  | 'lower-alpha'
+  | 'upper-alpha'
+  | 'none';
+
+export type BookSection = 'frontmatter' | 'body' | 'backmatter';
+
+export type SectionNumbering = {
+  style: PageNumberStyle;
+  restart: boolean; // false continues counting from the previous section
+  startFrom: number;
+};
+
+// Where a chapter opens: on the next right-hand page, on the next page, or
+// below the previous chapter when there is room
+export type ChapterStart = 'recto' | 'any' | 'continue';
+
+export type ChapterStartSettings = {
+  sections: Record<BookSection, ChapterStart>;
+  titlePage: boolean; // body chapters open on a title page instead of a heading above their text
+};
+
+export type TocLeader = 'dots' | 'dashes' | 'underscore' | 'none';
+
+export type TocSettings = {
+  depth: 1 | 2; // 1 lists chapters only, 2 adds sub-chapters
+  leader: TocLeader;
+  chapterPrefix: 'label' | 'number' | 'none'; // "Bab 1", "1." or nothing
+  numberSubChapters: boolean; // "1.1", "1.2", ...
+};
+
+export type TableSettings = {
+  keepTogether: boolean; // move a table that fits on one page to the next instead of splitting it
+};
+
+export type NoteSettings = {
+  placement: 'footnotes' | 'endnotes'; // page bottom, or a generated back matter chapter
+  numbering: 'chapter' | 'book'; // restart in every chapter, or run through the book
+};
+
+export type BlockStyleSettings = {
+  codeFont: string; // family for inline code and code blocks
+  quoteIndent: number; // mm block quotes are set in from the text
+  quoteRule: boolean; // vertical rule beside block quotes
+  sceneBreak: string; // ornament drawn for `***`
+};
+
+export type ImageQuality = {
+  maxDpi: number; // images sharper than this at their placed size are downsampled
+  jpegQuality: number; // 1-100, for photographs re-encoded when downsampled
+};
+
+// The screen PDF (and EPUB) is trimmed and light; the print PDF is what goes to the printer
+export type PdfProfile = 'screen' | 'print';
+
+export type ImageSettings = {
+  screen: ImageQuality;
+  print: ImageQuality;
+  minimumDpi: number; // images printing below this are flagged in the editor
+};
+
+// The wraparound cover for print: back, spine and front on one sheet, with
+// the cover images as the panels' artwork
+export type CoverSettings = {
+  paperThickness: number; // mm per leaf of two pages
+  background: string;
+  spineColor: string;
+  textColor: string;
+  frontText: boolean; // title and author over the front
+  spineText: boolean;
+  blurb: boolean; // the description on the back
+  barcodeArea: boolean;
+};
+
+export type PrintSettings = {
+  bleed: number; // mm the print PDF extends past the trim on every side
+  cropMarks: boolean;
+  grayscaleImages: boolean; // for black-and-white interiors
+};
+
+export type RunningHeadSettings = {
+  enabled: boolean;
+  text: string; // recto (odd) pages, or every page when not alternating
+  evenText: string; // verso (even) pages when alternateEvenOdd is on
+  alternateEvenOdd: boolean;
+};
+
 export type EbookSettings = {
   title: string;
   author: string;
   description: string;
+  language: Language; // chapter labels, generated titles and numbers in the book
   coverImage: string | null;
   backCoverImage: string | null;
   paperSize: PaperSize;
+  customPaperSize: CustomPaperSize;
+  orientation: PageOrientation;
   margins: {
     top: number;
     bottom: number;
-    left: number;
-    right: number;
+    left: number; // inside margin when mirrored
+    right: number; // outside margin when mirrored
+    mirrored: boolean; // swap left and right on verso pages
+    gutter: number; // extra room on the binding edge
   };
   fonts: {
     title: FontSettings;
@@ -60,21 +192,43 @@ export type EbookSettings = {
     subchapterContent: FontSettings;
     backmatterContent: FontSettings;
   };
+  customFonts: CustomFont[];
   pageNumbering: {
     enabled: boolean;
-    startFrom: number;
     position: 'top' | 'bottom';
     alignment: 'left' | 'center' | 'right';
-    style: 'decimal' | 'roman' | 'none';
-  };
-  header: {
-    enabled: boolean;
-    text: string;
-    alternateEvenOdd: boolean;
+    sections: Record<BookSection, SectionNumbering>;
   };
-  footer: {
-    enabled: boolean;
-    text: string;
-    alternateEvenOdd: boolean;
-  };
-};
\ No newline at end of file
+  chapterStarts: ChapterStartSettings;
+  header: RunningHeadSettings;
+  footer: RunningHeadSettings;
+  toc: TocSettings;
+  tables: TableSettings;
+  notes: NoteSettings;
+  blocks: BlockStyleSettings;
+  images: ImageSettings;
+  print: PrintSettings;
+  cover: CoverSettings;
+};
+
+export type BookData = {
+  chapters: Chapter[];
+  settings: EbookSettings;
+};
+
+// Page number and display label per chapter or sub-chapter id
+export type PageLabels = Record<string, { pageNumber: number; pageLabel: string }>;
+
+export type ProjectMeta = {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+// A named copy of a project's book, kept beside it in the project database
+export type SnapshotMeta = {
+  id: string;
+  name: string;
+  createdAt: number;
+};
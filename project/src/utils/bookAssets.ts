@@ -0,0 +1,58 @@
+import type { BookData } from '../types';
+
+type AssetMapper = (url: string) => Promise<string>;
+
+export const extensionsByType: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'font/ttf': 'ttf',
+  'font/otf': 'otf',
+};
+
+// Every place in the book model that holds binary data (images, covers, fonts) as a URL.
+// Persistence and export rewrite these fields, so keep this list in sync with types.ts.
+export async function mapBookAssets(book: BookData, mapUrl: AssetMapper): Promise<BookData> {
+  const mapOptional = async (url: string | null) => (url ? mapUrl(url) : null);
+
+  const chapters = await Promise.all(
+    book.chapters.map(async (chapter) => ({
+      ...chapter,
+      images: await Promise.all(
+        chapter.images.map(async (image) => ({
+          ...image,
+          url: await mapUrl(image.url),
+        }))
+      ),
+    }))
+  );
+
+  const settings = {
+    ...book.settings,
+    coverImage: await mapOptional(book.settings.coverImage),
+    backCoverImage: await mapOptional(book.settings.backCoverImage),
+    customFonts: await Promise.all(
+      book.settings.customFonts.map(async (font) => ({
+        ...font,
+        files: {
+          regular: await mapOptional(font.files.regular),
+          bold: await mapOptional(font.files.bold),
+          italic: await mapOptional(font.files.italic),
+          bolditalic: await mapOptional(font.files.bolditalic),
+        },
+      }))
+    ),
+  };
+
+  return { chapters, settings };
+}
+
+export async function urlToBlob(url: string): Promise<Blob> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to read asset: ${response.status}`);
+  }
+  return response.blob();
+}
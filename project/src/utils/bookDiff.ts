@@ -0,0 +1,242 @@
+import type { BookData, Chapter, EbookSettings, SubChapter } from '../types';
+
+// Compares two versions of a book: chapters and sub-chapters are matched by
+// id, their text line by line, and settings field by field.
+
+export type DiffRow = {
+  kind: 'same' | 'changed' | 'removed' | 'added';
+  before: string | null;
+  after: string | null;
+};
+
+export type SubChapterDiff = {
+  id: string;
+  status: 'added' | 'removed' | 'changed';
+  before: SubChapter | null;
+  after: SubChapter | null;
+  titleChanged: boolean;
+  rows: DiffRow[];
+};
+
+export type ChapterDiff = {
+  id: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  moved: boolean;
+  before: Chapter | null;
+  after: Chapter | null;
+  titleChanged: boolean;
+  typeChanged: boolean;
+  formatChanged: boolean; // indentation or line spacing
+  imagesChanged: boolean;
+  rows: DiffRow[];
+  subChapters: SubChapterDiff[]; // only those that differ
+};
+
+export type SettingValue = string | number | boolean | null | undefined;
+
+export type SettingChange = {
+  path: string;
+  before: SettingValue;
+  after: SettingValue;
+};
+
+export type BookDiff = {
+  chapters: ChapterDiff[];
+  settings: SettingChange[];
+};
+
+// Beyond this many lines compared against each other, a changed stretch is
+// shown as replaced instead of matched line by line
+const MAX_DIFF_CELLS = 2_000_000;
+
+// Index pairs of a longest common subsequence
+function commonSubsequence<T>(a: T[], b: T[], equal: (x: T, y: T) => boolean): [number, number][] {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = equal(a[i], b[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (equal(a[i], b[j])) {
+      pairs.push([i++, j++]);
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+// Removed lines followed by added ones pair up as changed rows, so the two
+// columns of a side-by-side view line up
+function pairRows(removed: string[], added: string[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+    const before = removed[k] ?? null;
+    const after = added[k] ?? null;
+    rows.push({ kind: before === null ? 'added' : after === null ? 'removed' : 'changed', before, after });
+  }
+  return rows;
+}
+
+export function diffText(before: string, after: string): DiffRow[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const same = (line: string): DiffRow => ({ kind: 'same', before: line, after: line });
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const pairs = middleA.length * middleB.length > MAX_DIFF_CELLS
+    ? []
+    : commonSubsequence(middleA, middleB, (x, y) => x === y);
+
+  const rows = a.slice(0, start).map(same);
+  let i = 0;
+  let j = 0;
+  for (const [pi, pj] of [...pairs, [middleA.length, middleB.length] as [number, number]]) {
+    rows.push(...pairRows(middleA.slice(i, pi), middleB.slice(j, pj)));
+    if (pi < middleA.length) rows.push(same(middleA[pi]));
+    i = pi + 1;
+    j = pj + 1;
+  }
+  rows.push(...a.slice(endA).map(same));
+  return rows;
+}
+
+export function hasTextChanges(rows: DiffRow[]): boolean {
+  return rows.some((row) => row.kind !== 'same');
+}
+
+function sameJson(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffSubChapters(before: SubChapter[], after: SubChapter[]): SubChapterDiff[] {
+  const beforeById = new Map(before.map((sub) => [sub.id, sub]));
+  const afterIds = new Set(after.map((sub) => sub.id));
+  const diffs: SubChapterDiff[] = [];
+
+  for (const sub of after) {
+    const old = beforeById.get(sub.id) ?? null;
+    const rows = diffText(old?.content ?? '', sub.content);
+    const titleChanged = old !== null && old.title !== sub.title;
+    if (old && !titleChanged && !hasTextChanges(rows)) continue;
+    diffs.push({ id: sub.id, status: old ? 'changed' : 'added', before: old, after: sub, titleChanged, rows });
+  }
+  for (const sub of before) {
+    if (afterIds.has(sub.id)) continue;
+    diffs.push({
+      id: sub.id,
+      status: 'removed',
+      before: sub,
+      after: null,
+      titleChanged: false,
+      rows: diffText(sub.content, ''),
+    });
+  }
+  return diffs;
+}
+
+function diffChapter(before: Chapter | null, after: Chapter | null, moved: boolean): ChapterDiff {
+  const titleChanged = before !== null && after !== null && before.title !== after.title;
+  const typeChanged = before !== null && after !== null && before.type !== after.type;
+  const formatChanged = before !== null && after !== null &&
+    (before.indentation !== after.indentation || before.lineSpacing !== after.lineSpacing);
+  const imagesChanged = !sameJson(before?.images ?? [], after?.images ?? []);
+  const rows = diffText(before?.content ?? '', after?.content ?? '');
+  const subChapters = diffSubChapters(before?.subChapters ?? [], after?.subChapters ?? []);
+
+  const changed = titleChanged || typeChanged || formatChanged || imagesChanged ||
+    hasTextChanges(rows) || subChapters.length > 0;
+  return {
+    id: (after ?? before)!.id,
+    status: !before ? 'added' : !after ? 'removed' : changed ? 'changed' : 'unchanged',
+    moved,
+    before,
+    after,
+    titleChanged,
+    typeChanged,
+    formatChanged,
+    imagesChanged,
+    rows,
+    subChapters,
+  };
+}
+
+// Chapters in their new order; a removed chapter follows the one it used to
+function diffChapters(before: Chapter[], after: Chapter[]): ChapterDiff[] {
+  const beforeById = new Map(before.map((ch) => [ch.id, ch]));
+  const afterIds = new Set(after.map((ch) => ch.id));
+
+  // Kept chapters outside the longest run in the same order have moved
+  const keptBefore = before.filter((ch) => afterIds.has(ch.id)).map((ch) => ch.id);
+  const keptAfter = after.filter((ch) => beforeById.has(ch.id)).map((ch) => ch.id);
+  const inOrder = new Set(
+    commonSubsequence(keptBefore, keptAfter, (x, y) => x === y).map(([i]) => keptBefore[i])
+  );
+
+  const diffs = after.map((ch) => {
+    const old = beforeById.get(ch.id) ?? null;
+    return diffChapter(old, ch, old !== null && !inOrder.has(ch.id));
+  });
+
+  before.forEach((ch, index) => {
+    if (afterIds.has(ch.id)) return;
+    const previousId = before[index - 1]?.id;
+    const position = previousId ? diffs.findIndex((diff) => diff.id === previousId) + 1 : 0;
+    diffs.splice(position, 0, diffChapter(ch, null, false));
+  });
+
+  return diffs;
+}
+
+function flattenSettings(value: unknown, path: string, fields: Map<string, SettingValue>) {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => flattenSettings(item, `${path}[${index}]`, fields));
+  } else if (value !== null && typeof value === 'object') {
+    Object.entries(value).forEach(([key, item]) => flattenSettings(item, path ? `${path}.${key}` : key, fields));
+  } else {
+    fields.set(path, value as SettingValue);
+  }
+}
+
+function diffSettings(before: EbookSettings, after: EbookSettings): SettingChange[] {
+  const beforeFields = new Map<string, SettingValue>();
+  const afterFields = new Map<string, SettingValue>();
+  flattenSettings(before, '', beforeFields);
+  flattenSettings(after, '', afterFields);
+
+  const paths = new Set([...beforeFields.keys(), ...afterFields.keys()]);
+  return Array.from(paths)
+    .filter((path) => beforeFields.get(path) !== afterFields.get(path))
+    .map((path) => ({ path, before: beforeFields.get(path), after: afterFields.get(path) }));
+}
+
+export function diffBooks(before: BookData, after: BookData): BookDiff {
+  return {
+    chapters: diffChapters(before.chapters, after.chapters),
+    settings: diffSettings(before.settings, after.settings),
+  };
+}
+
+// Images and fonts are held as URLs, which say nothing to a reader
+export function isFileValue(value: SettingValue): boolean {
+  return typeof value === 'string' && /^(data|blob|asset):/.test(value);
+}
@@ -0,0 +1,54 @@
+import type { Chapter, Language } from '../types';
+
+// Words the layout writes into the book itself. They follow the book's
+// language setting, not the editor's, so a book reads the same for everyone.
+
+export type BookText = {
+  chapterLabel: (number: string) => string;
+  contents: string; // table of contents heading when the chapter has no title
+  notes: string; // the endnotes chapter
+  untitled: string;
+  cover: string;
+  chapterTitles: Record<Chapter['type'], string>; // titles of newly added chapters
+  subChapterTitle: (number: string) => string;
+};
+
+const bookTexts: Record<Language, BookText> = {
+  id: {
+    chapterLabel: (number) => `Bab ${number}`,
+    contents: 'Daftar Isi',
+    notes: 'Catatan',
+    untitled: 'Tanpa Judul',
+    cover: 'Sampul',
+    chapterTitles: {
+      frontmatter: 'Kata Pengantar',
+      toc: 'Daftar Isi',
+      chapter: 'Bab Baru',
+      backmatter: 'Penutup',
+    },
+    subChapterTitle: (number) => `Subbab ${number}`,
+  },
+  en: {
+    chapterLabel: (number) => `Chapter ${number}`,
+    contents: 'Contents',
+    notes: 'Notes',
+    untitled: 'Untitled',
+    cover: 'Cover',
+    chapterTitles: {
+      frontmatter: 'Preface',
+      toc: 'Contents',
+      chapter: 'New Chapter',
+      backmatter: 'Afterword',
+    },
+    subChapterTitle: (number) => `Section ${number}`,
+  },
+};
+
+export function getBookText(language: Language): BookText {
+  return bookTexts[language];
+}
+
+// Digits as the language writes them; page numbers are never grouped
+export function formatNumber(value: number, language: Language): string {
+  return new Intl.NumberFormat(language, { useGrouping: false }).format(value);
+}
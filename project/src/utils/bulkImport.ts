@@ -0,0 +1,184 @@
+import type { Chapter } from '../types';
+
+// Turns an uploaded folder of text files into chapters by user rules. A folder
+// rule makes a folder one chapter (or front/back matter section): files in it
+// matching a sub-chapter rule become its sub-chapters, the rest its own text.
+// File rules place files outside such folders.
+
+export type ImportTarget = Chapter['type'] | 'subchapter';
+
+export type ImportRule = {
+  id: string;
+  appliesTo: 'folder' | 'file';
+  pattern: string; // regular expression, case-insensitive, against the name without extension
+  target: ImportTarget;
+};
+
+export type ImportPreset = {
+  id: string;
+  name: string;
+  rules: ImportRule[];
+};
+
+export type ImportFile = {
+  path: string; // relative to the uploaded folder
+  text: string | null; // null for files that are not read as text
+};
+
+// What became of each file; the import dialog words it
+export type ImportReportEntry =
+  | { path: string; imported: false; outcome: 'not-text' | 'no-rule' | 'no-chapter' }
+  | { path: string; imported: true; outcome: Chapter['type'] | 'intro'; title: string }
+  | { path: string; imported: true; outcome: 'subchapter'; title: string; parent: string };
+
+export type BulkImportPlan = {
+  chapters: Chapter[];
+  report: ImportReportEntry[];
+};
+
+export const TEXT_FILE_PATTERN = /\.(txt|md|markdown)$/i;
+
+// The layout the folder upload has always understood
+export const DEFAULT_IMPORT_PRESET: ImportPreset = {
+  id: 'default',
+  name: 'Bawaan: BAB n - Judul / n.n Subjudul',
+  rules: [
+    { id: 'kata-pengantar', appliesTo: 'file', pattern: '^kata pengantar$', target: 'frontmatter' },
+    { id: 'penutup', appliesTo: 'file', pattern: '^penutup$', target: 'backmatter' },
+    { id: 'bab', appliesTo: 'folder', pattern: '^BAB\\s*\\d+\\s*-\\s*(?<title>.*)$', target: 'chapter' },
+    { id: 'subbab', appliesTo: 'file', pattern: '^\\d+\\.\\d+\\s*(?<title>.*)$', target: 'subchapter' },
+  ],
+};
+
+export function compileRulePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+// The `title` group when the pattern has one, otherwise the whole name
+function titleFrom(match: RegExpMatchArray, name: string) {
+  return match.groups?.title?.trim() || name.trim();
+}
+
+function stripExtension(name: string) {
+  return name.replace(/\.[^.]+$/, '');
+}
+
+// Paths compare number by number, so "BAB 10" follows "BAB 9"
+function comparePaths(a: ImportFile, b: ImportFile) {
+  return a.path.localeCompare(b.path, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+function newChapter(title: string, type: Chapter['type']): Chapter {
+  return {
+    id: crypto.randomUUID(),
+    title,
+    content: '',
+    images: [],
+    type,
+    indentation: 0,
+    lineSpacing: 1.5,
+    subChapters: [],
+  };
+}
+
+function processContent(content: string) {
+  // Replace triple newlines with double newlines
+  return content.replace(/\r\n?/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function appendContent(chapter: Chapter, text: string) {
+  chapter.content = [chapter.content, text].filter(Boolean).join('\n\n');
+}
+
+export function planBulkImport(files: ImportFile[], rules: ImportRule[]): BulkImportPlan {
+  const compiled = rules
+    .map(rule => ({ rule, regex: compileRulePattern(rule.pattern) }))
+    .filter((entry): entry is { rule: ImportRule; regex: RegExp } => entry.regex !== null);
+  const matchRule = (name: string, appliesTo: ImportRule['appliesTo'], targets?: ImportTarget[]) => {
+    for (const { rule, regex } of compiled) {
+      if (rule.appliesTo !== appliesTo || (targets && !targets.includes(rule.target))) continue;
+      const match = name.match(regex);
+      if (match) return { rule, match };
+    }
+    return null;
+  };
+
+  const chapters: Chapter[] = [];
+  const report: ImportReportEntry[] = [];
+  const sections = new Map<string, Chapter>();
+  let lastChapter: Chapter | null = null;
+
+  for (const file of [...files].sort(comparePaths)) {
+    const parts = file.path.split('/');
+    const name = stripExtension(parts[parts.length - 1]);
+    const skip = (outcome: 'not-text' | 'no-rule' | 'no-chapter') =>
+      report.push({ path: file.path, imported: false, outcome });
+
+    if (file.text === null || !TEXT_FILE_PATTERN.test(file.path)) {
+      skip('not-text');
+      continue;
+    }
+    const content = processContent(file.text);
+
+    // The nearest enclosing folder a folder rule claims
+    let section: Chapter | null = null;
+    for (let depth = parts.length - 1; depth > 0 && !section; depth--) {
+      const folderPath = parts.slice(0, depth).join('/');
+      const found = matchRule(parts[depth - 1], 'folder');
+      // A folder is a whole section; sub-chapters are files
+      if (!found || found.rule.target === 'subchapter') continue;
+
+      section = sections.get(folderPath) ?? null;
+      if (!section) {
+        section = newChapter(titleFrom(found.match, parts[depth - 1]), found.rule.target);
+        sections.set(folderPath, section);
+        chapters.push(section);
+      }
+    }
+
+    if (section) {
+      const chapter = section;
+      if (chapter.type === 'chapter') lastChapter = chapter;
+      const sub = matchRule(name, 'file', ['subchapter']);
+      if (sub) {
+        const title = titleFrom(sub.match, name);
+        chapter.subChapters.push({ id: crypto.randomUUID(), title, content });
+        report.push({ path: file.path, imported: true, outcome: 'subchapter', title, parent: chapter.title });
+      } else {
+        appendContent(chapter, content);
+        report.push({ path: file.path, imported: true, outcome: 'intro', title: chapter.title });
+      }
+      continue;
+    }
+
+    const found = matchRule(name, 'file');
+    if (!found) {
+      skip('no-rule');
+      continue;
+    }
+
+    const title = titleFrom(found.match, name);
+    if (found.rule.target === 'subchapter') {
+      if (!lastChapter) {
+        skip('no-chapter');
+        continue;
+      }
+      lastChapter.subChapters.push({ id: crypto.randomUUID(), title, content });
+      report.push({ path: file.path, imported: true, outcome: 'subchapter', title, parent: lastChapter.title });
+      continue;
+    }
+
+    const chapter = newChapter(title, found.rule.target);
+    // The table of contents is generated, so its file only marks where it goes
+    if (found.rule.target !== 'toc') chapter.content = content;
+    chapters.push(chapter);
+    if (chapter.type === 'chapter') lastChapter = chapter;
+    report.push({ path: file.path, imported: true, outcome: chapter.type, title });
+  }
+
+  return { chapters, report };
+}
@@ -0,0 +1,130 @@
+import type { EbookSettings } from '../types';
+import { PT_TO_MM, fontSpec, lineHeightOf, pageDimensions, wrapText } from './layout';
+import type { FontSpec, LayoutBox, TextMeasurer } from './layout';
+
+// Keep text and the barcode this far inside the trim and the spine folds
+export const COVER_SAFE_MARGIN = 6;
+// The usual space printers ask to keep free for an ISBN barcode, 2 x 1.2 in.
+// It is left white; the printer or the author places the barcode.
+const BARCODE_WIDTH = 50.8;
+const BARCODE_HEIGHT = 30.5;
+// Spine text needs a spine at least this wide to be legible
+const MIN_SPINE_TEXT_WIDTH = 6;
+const MAX_SPINE_FONT_SIZE = 14; // pt
+
+export type CoverPanel = { x: number; width: number };
+
+// The trimmed wrap in mm, from the left edge of the back cover. Backgrounds
+// and artwork run out by the bleed on every outer edge.
+export type CoverWrap = {
+  width: number;
+  height: number;
+  bleed: number;
+  pageCount: number;
+  spineWidth: number;
+  back: CoverPanel;
+  spine: CoverPanel;
+  front: CoverPanel;
+  barcode: { x: number; y: number; width: number; height: number } | null;
+  boxes: LayoutBox[];
+};
+
+// Each leaf holds two pages, and an odd last page still takes a leaf
+export function spineWidth(pageCount: number, paperThickness: number): number {
+  return Math.ceil(pageCount / 2) * paperThickness;
+}
+
+export function layoutCoverWrap(settings: EbookSettings, pageCount: number, measure: TextMeasurer): CoverWrap {
+  const { cover, fonts } = settings;
+  const { width: pageWidth, height } = pageDimensions(settings);
+  const bleed = Math.max(0, settings.print.bleed);
+  const spineSize = spineWidth(pageCount, cover.paperThickness);
+  const back = { x: 0, width: pageWidth };
+  const spine = { x: pageWidth, width: spineSize };
+  const front = { x: pageWidth + spineSize, width: pageWidth };
+  const width = front.x + front.width;
+
+  const boxes: LayoutBox[] = [
+    { type: 'rect', x: -bleed, y: -bleed, width: width + 2 * bleed, height: height + 2 * bleed, fill: cover.background },
+  ];
+  // Artwork is cut at the spine folds, the spine colour goes over its bleed
+  if (settings.backCoverImage) {
+    boxes.push({ type: 'image', ...back, y: 0, height, url: settings.backCoverImage, bleed: true });
+  }
+  if (settings.coverImage) {
+    boxes.push({ type: 'image', ...front, y: 0, height, url: settings.coverImage, bleed: true });
+  }
+  boxes.push({ type: 'rect', ...spine, y: -bleed, height: height + 2 * bleed, fill: cover.spineColor });
+
+  const addCentredLines = (lines: string[], panel: CoverPanel, top: number, font: FontSpec, lineHeight: number) => {
+    let baseline = top;
+    for (const line of lines) {
+      baseline += lineHeight;
+      const x = panel.x + (panel.width - measure(line, font)) / 2;
+      boxes.push({ type: 'text', x, y: baseline, text: line, font, color: cover.textColor });
+    }
+    return baseline;
+  };
+
+  const textWidth = (panel: CoverPanel) => panel.width - 2 * COVER_SAFE_MARGIN;
+
+  if (cover.frontText) {
+    const titleFont = fontSpec(fonts.title);
+    const titleLines = wrapText(measure, settings.title, titleFont, textWidth(front));
+    addCentredLines(titleLines, front, height / 5, titleFont, lineHeightOf(fonts.title));
+
+    if (settings.author) {
+      const authorFont = fontSpec(fonts.subtitle);
+      const authorLines = wrapText(measure, settings.author, authorFont, textWidth(front));
+      const authorHeight = authorLines.length * lineHeightOf(fonts.subtitle);
+      addCentredLines(authorLines, front, height - COVER_SAFE_MARGIN * 3 - authorHeight, authorFont, lineHeightOf(fonts.subtitle));
+    }
+  }
+
+  const barcode = cover.barcodeArea
+    ? {
+        x: back.x + back.width - COVER_SAFE_MARGIN - BARCODE_WIDTH,
+        y: height - COVER_SAFE_MARGIN - BARCODE_HEIGHT,
+        width: BARCODE_WIDTH,
+        height: BARCODE_HEIGHT,
+      }
+    : null;
+  if (barcode) {
+    boxes.push({ type: 'rect', ...barcode, fill: '#ffffff' });
+  }
+
+  // The blurb stops above the barcode, or the bottom of the safe area
+  if (cover.blurb && settings.description) {
+    const font = fontSpec(fonts.paragraph);
+    const lineHeight = lineHeightOf(fonts.paragraph);
+    const bottom = (barcode ? barcode.y : height) - COVER_SAFE_MARGIN;
+    let baseline = COVER_SAFE_MARGIN * 3;
+    for (const line of wrapText(measure, settings.description, font, textWidth(back))) {
+      if (baseline + lineHeight > bottom) break;
+      baseline += lineHeight;
+      boxes.push({ type: 'text', x: back.x + COVER_SAFE_MARGIN, y: baseline, text: line, font, color: cover.textColor });
+    }
+  }
+
+  // Spine text reads from top to bottom, centred across the spine
+  const spineTitle = [settings.title, settings.author].filter(Boolean).join('  ·  ');
+  if (cover.spineText && spineTitle && spineSize >= MIN_SPINE_TEXT_WIDTH) {
+    const size = Math.min(MAX_SPINE_FONT_SIZE, (spineSize * 0.5) / PT_TO_MM);
+    const font = { ...fontSpec(fonts.title), size };
+    const length = measure(spineTitle, font);
+    if (length <= height - 2 * COVER_SAFE_MARGIN) {
+      boxes.push({
+        type: 'text',
+        // Turned clockwise, the glyphs rise towards the front cover
+        x: spine.x + (spine.width - size * PT_TO_MM * 0.7) / 2,
+        y: (height - length) / 2,
+        text: spineTitle,
+        font,
+        color: cover.textColor,
+        angle: -90,
+      });
+    }
+  }
+
+  return { width, height, bleed, pageCount, spineWidth: spineSize, back, spine, front, barcode, boxes };
+}
@@ -0,0 +1,156 @@
+import { jsPDF } from 'jspdf';
+import type { CustomFont, FontVariant } from '../types';
+import { urlToBlob } from './bookAssets';
+
+// Families jsPDF and the preview know without an upload
+export const standardFontFamilies = ['Helvetica', 'Times New Roman', 'Arial', 'Georgia'];
+
+// Quoted so names with digits or punctuation stay valid CSS
+function quoteFontFamily(family: string) {
+  return `"${family.replace(/"/g, '\\"')}"`;
+}
+
+export function cssFontFamily(family: string) {
+  const generic = /courier|mono/i.test(family)
+    ? 'monospace'
+    : /times|georgia/i.test(family) ? 'serif' : 'sans-serif';
+  return `${quoteFontFamily(family)}, ${generic}`;
+}
+
+export const fontVariants: { variant: FontVariant; label: string }[] = [
+  { variant: 'regular', label: 'Regular' },
+  { variant: 'bold', label: 'Bold' },
+  { variant: 'italic', label: 'Italic' },
+  { variant: 'bolditalic', label: 'Bold Italic' },
+];
+
+export const FONT_FILE_ACCEPT = '.ttf,.otf,font/ttf,font/otf';
+
+// jsPDF names the regular style "normal"
+const pdfStyles: Record<FontVariant, string> = {
+  regular: 'normal',
+  bold: 'bold',
+  italic: 'italic',
+  bolditalic: 'bolditalic',
+};
+
+const cssFaces: Record<FontVariant, { weight: string; style: string }> = {
+  regular: { weight: 'normal', style: 'normal' },
+  bold: { weight: 'bold', style: 'normal' },
+  italic: { weight: 'normal', style: 'italic' },
+  bolditalic: { weight: 'bold', style: 'italic' },
+};
+
+// Variants that were not uploaded borrow the closest one that was, so text set
+// in bold or italic never falls back to a different family
+const variantFallbacks: Record<FontVariant, FontVariant[]> = {
+  regular: ['regular', 'bold', 'italic', 'bolditalic'],
+  bold: ['bold', 'regular', 'bolditalic', 'italic'],
+  italic: ['italic', 'regular', 'bolditalic', 'bold'],
+  bolditalic: ['bolditalic', 'bold', 'italic', 'regular'],
+};
+
+export function resolveFontFile(font: CustomFont, variant: FontVariant): string | null {
+  const match = variantFallbacks[variant].find(candidate => font.files[candidate]);
+  return match ? font.files[match] : null;
+}
+
+export class FontFileError extends Error {
+  reason: 'cff-outlines' | 'not-a-font';
+  fileName: string;
+
+  constructor(message: string, reason: FontFileError['reason'], fileName: string) {
+    super(message);
+    this.name = 'FontFileError';
+    this.reason = reason;
+    this.fileName = fileName;
+  }
+}
+
+// Checks the sfnt signature and returns the file as a typed blob. jsPDF can only
+// embed TrueType outlines, so OpenType files with CFF outlines ("OTTO") are refused.
+export async function readFontFile(file: File): Promise<Blob> {
+  const header = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  const signature = String.fromCharCode(...header);
+
+  if (signature === 'OTTO') {
+    throw new FontFileError(
+      `${file.name} is an OpenType font with PostScript (CFF) outlines, which cannot be embedded in the PDF. Use a TrueType-flavoured .ttf or .otf file.`,
+      'cff-outlines',
+      file.name
+    );
+  }
+  if (signature !== '\x00\x01\x00\x00' && signature !== 'true') {
+    throw new FontFileError(`${file.name} is not a TrueType or OpenType font file.`, 'not-a-font', file.name);
+  }
+
+  const type = file.name.toLowerCase().endsWith('.otf') ? 'font/otf' : 'font/ttf';
+  return new Blob([file], { type });
+}
+
+export function buildFontFaceCss(fonts: CustomFont[]): string {
+  return fonts.flatMap(font =>
+    fontVariants.map(({ variant }) => {
+      const url = resolveFontFile(font, variant);
+      if (!url) return '';
+      const { weight, style } = cssFaces[variant];
+      return `@font-face {
+  font-family: ${quoteFontFamily(font.family)};
+  src: url("${url}");
+  font-weight: ${weight};
+  font-style: ${style};
+}`;
+    })
+  ).filter(Boolean).join('\n');
+}
+
+export type PdfFontData = Map<string, string>;
+
+function toBinaryString(buffer: ArrayBuffer) {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return binary;
+}
+
+// Font files never change behind a URL, so each one is read once per session
+const fontDataCache = new Map<string, Promise<string>>();
+
+async function readFontData(url: string) {
+  const blob = await urlToBlob(url);
+  return btoa(toBinaryString(await blob.arrayBuffer()));
+}
+
+// Loads every font file keyed by URL, as the base64 jsPDF's VFS expects
+export async function loadPdfFontData(fonts: CustomFont[]): Promise<PdfFontData> {
+  const data: PdfFontData = new Map();
+  const urls = new Set(fonts.flatMap(font => Object.values(font.files).filter((url): url is string => !!url)));
+
+  await Promise.all(Array.from(urls).map(async url => {
+    let pending = fontDataCache.get(url);
+    if (!pending) {
+      pending = readFontData(url);
+      fontDataCache.set(url, pending);
+      pending.catch(() => fontDataCache.delete(url));
+    }
+    data.set(url, await pending);
+  }));
+  return data;
+}
+
+export function registerPdfFonts(doc: jsPDF, fonts: CustomFont[], data: PdfFontData) {
+  fonts.forEach(font => {
+    fontVariants.forEach(({ variant }) => {
+      const url = resolveFontFile(font, variant);
+      const base64 = url && data.get(url);
+      if (!base64) return;
+
+      const fileName = `${font.id}-${variant}.ttf`;
+      doc.addFileToVFS(fileName, base64);
+      doc.addFont(fileName, font.family, pdfStyles[variant]);
+    });
+  });
+}
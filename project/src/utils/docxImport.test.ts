@@ -0,0 +1,44 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { readDocx } from './docxImport';
+import { parseMarkdownAst } from './markdownAst';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+function paragraph(text: string, style?: string) {
+  const properties = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : '';
+  return `<w:p>${properties}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+}
+
+// A minimal Word document with the given body paragraphs
+async function docxFile(paragraphs: string[]) {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+</Types>`);
+  zip.file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`);
+  zip.file('word/document.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<w:document xmlns:w="${W_NS}"><w:body>${paragraphs.join('')}</w:body></w:document>`);
+
+  const bytes = await zip.generateAsync({ type: 'arraybuffer' });
+  // jsdom's File has no arrayBuffer(), which is all readDocx reads
+  return { name: 'Manuscript.docx', arrayBuffer: async () => bytes } as File;
+}
+
+describe('readDocx', () => {
+  it('keeps paragraphs that start like markdown blocks as plain text', async () => {
+    const lines = ['- not a list', '1. not a numbered list', '> not a quote', '# not a heading', '---', '+ plus'];
+    const { chapters } = await readDocx(await docxFile([paragraph('One', 'Heading1'), ...lines.map((line) => paragraph(line))]));
+
+    expect(chapters).toHaveLength(1);
+    expect(parseMarkdownAst(chapters[0].content)).toEqual(
+      lines.map((line) => ({ type: 'paragraph', indent: 0, children: [{ type: 'text', value: line }] }))
+    );
+  });
+});
@@ -0,0 +1,281 @@
+import mammoth from 'mammoth';
+import type { Chapter, SubChapter } from '../types';
+
+// Converts a Word manuscript into chapters: Heading 1 starts a chapter,
+// Heading 2 a sub-chapter, and the rest becomes our markdown. mammoth turns the
+// document into semantic HTML, which is walked here.
+
+export type DocxImport = {
+  chapters: Chapter[];
+  warnings: string[];
+};
+
+// Titles the folder bulk upload already treats as front and back matter, and
+// their English counterparts
+const FRONTMATTER_TITLES = ['kata pengantar', 'prakata', 'pendahuluan', 'preface', 'foreword', 'introduction'];
+const BACKMATTER_TITLES = ['penutup', 'daftar pustaka', 'lampiran', 'afterword', 'bibliography', 'appendix'];
+
+// "BAB 1 - Title", "Chapter IV: Title"; the layout adds its own chapter label
+const CHAPTER_PREFIX_PATTERN = /^(?:bab|chapter)\s+[\dIVXLCDM]+\s*[-–:.]?\s*/i;
+
+const IMAGE_SRC_PREFIX = 'docx-image:';
+const NOTE_SELECTOR = 'a[href^="#footnote-"], a[href^="#endnote-"]';
+const NOTE_BACKLINK_SELECTOR = 'a[href^="#footnote-ref-"], a[href^="#endnote-ref-"]';
+
+// What inline conversion reports back to the block it belongs to
+type InlineContext = {
+  images: Map<string, string>; // data URLs of the document's images by id
+  notes: Map<string, string>; // markdown of footnotes and endnotes by id
+  onImage: (url: string, caption: string) => void;
+  onNote: (id: string) => void;
+};
+
+export function guessChapterType(title: string): Chapter['type'] {
+  const normalized = title.trim().toLowerCase();
+  if (FRONTMATTER_TITLES.includes(normalized)) return 'frontmatter';
+  if (BACKMATTER_TITLES.includes(normalized)) return 'backmatter';
+  return 'chapter';
+}
+
+function escapeMarkdown(text: string) {
+  return text.replace(/[\\`*_~[\]]/g, '\\$&');
+}
+
+// Word text starting like a heading, quote, list item or rule would be read as
+// one; the first marker is escaped so it stays text
+function escapeLineStart(line: string) {
+  return line.replace(/^[#>+-]/, '\\$&').replace(/^(\d+)\.(?=\s|$)/, '$1\\.');
+}
+
+function collapseWhitespace(text: string) {
+  return text.replace(/[ \t\r\n]+/g, ' ');
+}
+
+// Keeps spaces outside the markers, which do not close after whitespace
+function wrap(marker: string, inner: string) {
+  const [, before, text, after] = inner.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return text ? `${before}${marker}${text}${marker}${after}` : inner;
+}
+
+function inlineMarkdown(node: Node, context: InlineContext): string {
+  return Array.from(node.childNodes).map(child => {
+    if (child.nodeType === Node.TEXT_NODE) return escapeMarkdown(collapseWhitespace(child.textContent ?? ''));
+    if (!(child instanceof HTMLElement)) return '';
+
+    const inner = () => inlineMarkdown(child, context);
+    switch (child.tagName) {
+      case 'STRONG':
+      case 'B':
+        return wrap('**', inner());
+      case 'EM':
+      case 'I':
+        return wrap('*', inner());
+      case 'S':
+      case 'DEL':
+        return wrap('~~', inner());
+      case 'BR':
+        return '\n';
+      case 'P':
+        // Paragraphs inside table cells and list items
+        return `${inner()}\n`;
+      case 'IMG': {
+        const src = child.getAttribute('src') ?? '';
+        const url = src.startsWith(IMAGE_SRC_PREFIX) ? context.images.get(src.slice(IMAGE_SRC_PREFIX.length)) : src;
+        if (url) context.onImage(url, child.getAttribute('alt') ?? '');
+        return '';
+      }
+      case 'SUP': {
+        const id = child.querySelector(NOTE_SELECTOR)?.getAttribute('href')?.slice(1);
+        if (id && context.notes.has(id)) {
+          context.onNote(id);
+          return `[^${id}]`;
+        }
+        return inner();
+      }
+      case 'A': {
+        const href = child.getAttribute('href');
+        // Bookmarks inside the document do not survive as anchors
+        return href && !href.startsWith('#') ? `[${inner()}](${href})` : inner();
+      }
+      default:
+        return inner();
+    }
+  }).join('');
+}
+
+function lineMarkdown(element: Element, context: InlineContext) {
+  return collapseWhitespace(inlineMarkdown(element, context)).trim();
+}
+
+// Line breaks inside a paragraph are kept, as our text is line based
+function paragraphMarkdown(element: Element, context: InlineContext) {
+  return inlineMarkdown(element, context).split('\n').map(line => escapeLineStart(line.trim())).filter(Boolean).join('\n');
+}
+
+function listMarkdown(list: Element, depth: number, context: InlineContext): string[] {
+  return Array.from(list.children).flatMap((item, index) => {
+    const marker = list.tagName === 'OL' ? `${index + 1}.` : '-';
+    const nested = Array.from(item.children).filter(child => child.tagName === 'UL' || child.tagName === 'OL');
+    nested.forEach(child => child.remove());
+    return [
+      `${'  '.repeat(depth)}${marker} ${lineMarkdown(item, context)}`,
+      ...nested.flatMap(child => listMarkdown(child, depth + 1, context)),
+    ];
+  });
+}
+
+// The first row becomes the header, as Word tables have no separate one
+function tableMarkdown(table: Element, context: InlineContext): string {
+  const rows = Array.from(table.querySelectorAll('tr')).map(row =>
+    Array.from(row.children).map(cell => lineMarkdown(cell, context).replace(/\|/g, '\\|'))
+  );
+  if (rows.length === 0) return '';
+
+  const columns = Math.max(...rows.map(row => row.length));
+  const line = (cells: string[]) => `| ${Array.from({ length: columns }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+  return [line(rows[0]), line(new Array(columns).fill('---')), ...rows.slice(1).map(line)].join('\n');
+}
+
+function newChapter(heading: string): Chapter {
+  const title = heading.replace(CHAPTER_PREFIX_PATTERN, '').trim() || heading.trim();
+  return {
+    id: crypto.randomUUID(),
+    title,
+    content: '',
+    images: [],
+    type: guessChapterType(title),
+    indentation: 0,
+    lineSpacing: 1.5,
+    subChapters: [],
+  };
+}
+
+export async function readDocx(file: File): Promise<DocxImport> {
+  const images = new Map<string, string>();
+  const result = await mammoth.convertToHtml(
+    { arrayBuffer: await file.arrayBuffer() },
+    {
+      convertImage: mammoth.images.imgElement(async (image) => {
+        const id = crypto.randomUUID();
+        images.set(id, `data:${image.contentType};base64,${await image.readAsBase64String()}`);
+        return { src: `${IMAGE_SRC_PREFIX}${id}` };
+      }),
+    }
+  );
+  const body = new DOMParser().parseFromString(result.value, 'text/html').body;
+
+  const chapters: Chapter[] = [];
+  let chapter: Chapter | null = null;
+  // The chapter or sub-chapter receiving text, with its blocks and notes so far
+  let target: Chapter | SubChapter | null = null;
+  let blocks: string[] = [];
+  let referencedNotes: string[] = [];
+
+  const currentChapter = (): Chapter => {
+    if (!chapter) {
+      // Text before the first Heading 1 is kept as front matter
+      chapter = { ...newChapter(file.name.replace(/\.docx$/i, '')), type: 'frontmatter' };
+      chapters.push(chapter);
+      target = chapter;
+    }
+    return chapter;
+  };
+
+  const context: InlineContext = {
+    images,
+    notes: new Map(),
+    onImage: (url, caption) => {
+      currentChapter().images.push({ id: crypto.randomUUID(), url, caption, alignment: 'center', width: 100 });
+    },
+    onNote: (id) => {
+      if (!referencedNotes.includes(id)) referencedNotes.push(id);
+    },
+  };
+
+  // mammoth lists the notes after the text, each linking back to its reference.
+  // They become definitions at the end of the text that references them.
+  body.querySelectorAll(':scope > ol > li[id^="footnote-"], :scope > ol > li[id^="endnote-"]').forEach(item => {
+    item.querySelectorAll(NOTE_BACKLINK_SELECTOR).forEach(link => link.remove());
+    context.notes.set(item.id, lineMarkdown(item, context));
+    const list = item.parentElement!;
+    item.remove();
+    if (list.children.length === 0) list.remove();
+  });
+
+  const flush = () => {
+    if (target) {
+      const definitions = referencedNotes.map(id => `[^${id}]: ${context.notes.get(id)}`);
+      target.content = [...blocks, ...definitions].join('\n\n');
+    }
+    blocks = [];
+    referencedNotes = [];
+  };
+
+  for (const element of Array.from(body.children)) {
+    const heading = element.textContent?.trim() ?? '';
+    switch (element.tagName) {
+      case 'H1':
+        flush();
+        chapter = newChapter(heading);
+        chapters.push(chapter);
+        target = chapter;
+        break;
+      case 'H2': {
+        flush();
+        const subChapter: SubChapter = { id: crypto.randomUUID(), title: heading, content: '' };
+        currentChapter().subChapters.push(subChapter);
+        target = subChapter;
+        break;
+      }
+      case 'UL':
+      case 'OL':
+        currentChapter();
+        blocks.push(listMarkdown(element, 0, context).join('\n'));
+        break;
+      case 'TABLE': {
+        currentChapter();
+        const table = tableMarkdown(element, context);
+        if (table) blocks.push(table);
+        break;
+      }
+      default: {
+        currentChapter();
+        const text = paragraphMarkdown(element, context);
+        const level = element.tagName.match(/^H([3-6])$/)?.[1];
+        if (text) blocks.push(level ? `${'#'.repeat(Number(level))} ${text}` : text);
+      }
+    }
+  }
+  flush();
+
+  return { chapters, warnings: result.messages.map(message => message.message) };
+}
+
+export type DocxSectionMapping = Chapter['type'] | 'subchapter' | 'skip';
+
+// Applies the choices made in the import preview. A section mapped to a
+// sub-chapter joins the chapter before it, its own sub-chapters following it.
+export function applyDocxMapping(chapters: Chapter[], mappings: DocxSectionMapping[]): Chapter[] {
+  const result: Chapter[] = [];
+  chapters.forEach((chapter, index) => {
+    const mapping = mappings[index];
+    const previous = result[result.length - 1];
+    if (mapping === 'skip') return;
+
+    if (mapping === 'subchapter' && previous) {
+      previous.subChapters.push(
+        { id: chapter.id, title: chapter.title, content: chapter.content },
+        ...chapter.subChapters
+      );
+      previous.images.push(...chapter.images);
+      return;
+    }
+    result.push({
+      ...chapter,
+      type: mapping === 'subchapter' ? 'chapter' : mapping,
+      images: [...chapter.images],
+      subChapters: [...chapter.subChapters],
+    });
+  });
+  return result;
+}
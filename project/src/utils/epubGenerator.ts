@@ -0,0 +1,479 @@
+import JSZip from 'jszip';
+import type { BlockStyleSettings, Chapter, EbookSettings, FontSettings } from '../types';
+import { extensionsByType } from './bookAssets';
+import { cssFontFamily } from './customFonts';
+import { parseMarkdown, renderNotesHtml } from './markdownParser';
+import { ENDNOTES_CHAPTER_ID, collectNotes, endnoteGroups, withEndnotesChapter } from './footnotes';
+import { buildTocEntries, getChapterLabel } from './tableOfContents';
+import { getBookText } from './bookText';
+import { ImageFormatError, prepareExportImage } from './imagePipeline';
+import { pageDimensions } from './layout';
+
+export const EPUB_MIME_TYPE = 'application/epub+zip';
+export const EPUB_CONTENT_DIR = 'OEBPS';
+export const EPUB_PACKAGE_PATH = `${EPUB_CONTENT_DIR}/content.opf`;
+
+const STYLESHEET_HREF = 'styles/book.css';
+
+type ManifestItem = {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties?: string;
+};
+
+type ContentDocument = {
+  id: string;
+  href: string;
+  title: string;
+  dom: Document;
+};
+
+export type EpubOptions = {
+  // Stable across exports of the same project so readers keep their place
+  identifier?: string;
+};
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function pad(index: number) {
+  return String(index + 1).padStart(2, '0');
+}
+
+// Chapter ids are UUIDs, which may start with a digit and so are not valid XML ids
+function chapterAnchor(id: string) {
+  return `ch-${id}`;
+}
+
+function sectionAnchor(id: string) {
+  return `sec-${id}`;
+}
+
+// Sizes are relative to the paragraph font so the reader's font size setting
+// still scales the whole book
+function fontRule(selector: string, font: FontSettings, base: FontSettings, scale = 1) {
+  return `${selector} {
+  font-family: ${cssFontFamily(font.family)};
+  font-size: ${Number(((font.size * scale) / base.size).toFixed(3))}em;
+  text-align: ${font.alignment};
+  line-height: ${font.lineHeight};
+}`;
+}
+
+// Quoted for a CSS `content` value
+function cssString(text: string) {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+// The quote rule sits halfway into the indent, as on the printed page
+function blockquoteRule(blocks: BlockStyleSettings, base: FontSettings) {
+  const spacing = blocks.quoteRule
+    ? `margin: 0 0 ${base.lineHeight}em ${blocks.quoteIndent / 2}mm;
+  padding-left: ${blocks.quoteIndent / 2}mm;
+  border-left: 2px solid #999999;`
+    : `margin: 0 0 ${base.lineHeight}em ${blocks.quoteIndent}mm;`;
+  return `blockquote {
+  ${spacing}
+}`;
+}
+
+export function buildEpubStylesheet(settings: EbookSettings): string {
+  const { fonts, blocks } = settings;
+  const base = fonts.paragraph;
+
+  return [
+    `body {
+  font-family: ${cssFontFamily(base.family)};
+  line-height: ${base.lineHeight};
+  margin: 0 5%;
+}`,
+    fontRule('.title-page h1', fonts.title, base),
+    fontRule('.title-page .author', fonts.subtitle, base),
+    fontRule('.chapter-label', fonts.title, base),
+    fontRule('h1.chapter-title', fonts.subtitle, base),
+    fontRule('.subchapter h2', fonts.subtitle, base, 0.8),
+    fontRule('.frontmatter .content', fonts.frontmatterContent, base),
+    fontRule('.chapter .content', fonts.chapterContent, base),
+    fontRule('.chapter .subchapter .content', fonts.subchapterContent, base),
+    fontRule('.backmatter .content', fonts.backmatterContent, base),
+    blockquoteRule(blocks, base),
+    `.chapter-heading {
+  margin: 3em 0 2em;
+}
+.chapter-label {
+  margin: 0;
+}
+.title-page {
+  margin-top: 30%;
+}
+.content p {
+  margin: 0 0 ${base.lineHeight}em;
+}
+figure {
+  margin: 1em 0;
+}
+figure img {
+  max-width: 100%;
+}
+figcaption {
+  font-size: 0.8em;
+  text-align: center;
+  margin-top: 0.5em;
+}
+sup.noteref {
+  line-height: 0;
+}
+sup.noteref a {
+  text-decoration: none;
+}
+ol.notes {
+  list-style: none;
+  padding: 0;
+  font-size: 0.8em;
+}
+.footnotes {
+  border-top: 1px solid #999999;
+  margin-top: 2em;
+}
+code,
+pre {
+  font-family: ${cssFontFamily(blocks.codeFont)};
+}
+pre {
+  font-size: 0.9em;
+  white-space: pre-wrap;
+  margin: 0 0 ${base.lineHeight}em;
+}
+hr {
+  border: none;
+  border-top: 1px solid #000000;
+  margin: ${base.lineHeight}em 0;
+}
+hr.scene-break {
+  border: none;
+  text-align: center;
+}
+hr.scene-break::after {
+  content: ${cssString(blocks.sceneBreak)};
+}
+table {
+  border-collapse: collapse;
+  margin: 0 0 ${base.lineHeight}em;
+  max-width: 100%;
+}
+th,
+td {
+  border: 1px solid #999999;
+  padding: 0.25em 0.5em;
+  text-align: left;
+  vertical-align: top;
+}
+.cover {
+  margin: 0;
+  text-align: center;
+}
+.cover img {
+  max-width: 100%;
+  max-height: 100%;
+}
+ol.toc,
+ol.toc ol {
+  list-style: none;
+  padding-left: 0;
+}
+ol.toc ol {
+  margin-left: 1.5em;
+}
+.toc-number {
+  margin-right: 0.5em;
+}`,
+  ].join('\n\n');
+}
+
+function xhtmlDocument(title: string, body: string, language: string) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="${STYLESHEET_HREF}"/>
+</head>
+${body}
+</html>
+`;
+}
+
+// Chapter text is HTML from parseMarkdown, which may contain stray markup or
+// unescaped characters. The browser's HTML parser repairs it, and serializing
+// the result as XML gives well-formed XHTML.
+function parseHtml(html: string) {
+  return new DOMParser().parseFromString(`<!DOCTYPE html><html><body>${html}</body></html>`, 'text/html');
+}
+
+function serializeBody(dom: Document) {
+  return new XMLSerializer().serializeToString(dom.body);
+}
+
+
+function sectionClass(type: Chapter['type']) {
+  if (type === 'frontmatter' || type === 'toc') return 'frontmatter';
+  if (type === 'backmatter') return 'backmatter';
+  return 'chapter';
+}
+
+function sectionEpubType(chapter: Chapter) {
+  if (chapter.type === 'toc') return 'toc';
+  if (chapter.type === 'frontmatter') return 'frontmatter';
+  if (chapter.type === 'backmatter') return 'backmatter';
+  return 'chapter';
+}
+
+export async function generateEpub(
+  bookChapters: Chapter[],
+  settings: EbookSettings,
+  options: EpubOptions = {}
+): Promise<Blob> {
+  const notes = collectNotes(bookChapters, settings);
+  const { language } = settings;
+  const text = getBookText(language);
+  const chapters = withEndnotesChapter(bookChapters, notes, language);
+  const zip = new JSZip();
+  const bookTitle = settings.title || text.untitled;
+
+  // The mimetype entry must come first and be stored uncompressed
+  zip.file('mimetype', EPUB_MIME_TYPE, { compression: 'STORE' });
+  zip.file('META-INF/container.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="${EPUB_PACKAGE_PATH}" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`);
+
+  const manifest: ManifestItem[] = [
+    { id: 'nav', href: 'nav.xhtml', mediaType: 'application/xhtml+xml', properties: 'nav' },
+    { id: 'css', href: STYLESHEET_HREF, mediaType: 'text/css' },
+  ];
+  zip.file(`${EPUB_CONTENT_DIR}/${STYLESHEET_HREF}`, buildEpubStylesheet(settings));
+
+  // Images are sized for the widths they take on the PDF page, at screen quality
+  const pageWidth = pageDimensions(settings).width;
+  const contentWidth = pageWidth - (settings.margins.left + settings.margins.right + settings.margins.gutter) * 10;
+
+  const imageHrefs = new Map<string, string>();
+  const addImage = async (url: string, placedWidth: number, properties?: string) => {
+    const existing = imageHrefs.get(url);
+    if (existing) return existing;
+
+    let blob: Blob;
+    try {
+      blob = await prepareExportImage(url, placedWidth, settings.images.screen);
+    } catch (err) {
+      if (!(err instanceof ImageFormatError)) throw err;
+      console.warn('Skipping image with unsupported format in EPUB');
+      return null;
+    }
+    const extension = extensionsByType[blob.type];
+
+    const id = `image-${imageHrefs.size + 1}`;
+    const href = `images/${id}.${extension}`;
+    zip.file(`${EPUB_CONTENT_DIR}/${href}`, blob);
+    manifest.push({ id, href, mediaType: blob.type, properties });
+    imageHrefs.set(url, href);
+    return href;
+  };
+
+  const documents: ContentDocument[] = [];
+
+  if (settings.coverImage) {
+    const coverHref = await addImage(settings.coverImage, pageWidth, 'cover-image');
+    if (coverHref) {
+      documents.push({
+        id: 'cover',
+        href: 'cover.xhtml',
+        title: bookTitle,
+        dom: parseHtml(`<section epub:type="cover" class="cover"><img src="${coverHref}" alt="${escapeXml(bookTitle)}"/></section>`),
+      });
+    }
+  }
+
+  documents.push({
+    id: 'title-page',
+    href: 'title.xhtml',
+    title: bookTitle,
+    dom: parseHtml(`<section epub:type="titlepage" class="title-page">
+<h1>${escapeXml(bookTitle)}</h1>
+${settings.author ? `<p class="author">${escapeXml(settings.author)}</p>` : ''}
+</section>`),
+  });
+
+  // Same order as the PDF: front matter, chapters, back matter
+  const orderedChapters = [
+    ...chapters.filter(ch => ch.type === 'frontmatter' || ch.type === 'toc'),
+    ...chapters.filter(ch => ch.type === 'chapter'),
+    ...chapters.filter(ch => ch.type === 'backmatter'),
+  ];
+  const chapterHrefs = new Map(orderedChapters.map((chapter, i) => [chapter.id, `chapter-${pad(i)}.xhtml`]));
+  const tocEntries = buildTocEntries(chapters, settings);
+  let chapterNumber = 0;
+
+  for (const chapter of orderedChapters) {
+    const label = chapter.type === 'chapter' ? getChapterLabel(++chapterNumber, language) : '';
+
+    let content: string;
+    if (chapter.type === 'toc') {
+      content = `<ol class="toc">${tocEntries.map(entry => {
+        const prefix = entry.prefix ? `<span class="toc-number">${escapeXml(entry.prefix)}</span>` : '';
+        return `<li class="toc-level-${entry.level}"><a href="#${escapeXml(entry.level === 1 ? chapterAnchor(entry.id) : sectionAnchor(entry.id))}">${prefix}${escapeXml(entry.title)}</a></li>`;
+      }).join('')}</ol>`;
+    } else if (chapter.id === ENDNOTES_CHAPTER_ID) {
+      content = endnoteGroups(chapters, notes, language).map(group =>
+        `<h2>${escapeXml(group.title)}</h2>${renderNotesHtml(group.notes, 'endnote')}`
+      ).join('\n');
+    } else {
+      content = parseMarkdown(chapter.content, notes.chapters.get(chapter.id));
+    }
+
+    const chapterNotes = notes.chapters.get(chapter.id);
+    const footnotes = notes.placement === 'footnotes' && chapterNotes
+      ? `<section class="footnotes" epub:type="footnotes">${renderNotesHtml(Array.from(chapterNotes.values()), 'footnote')}</section>`
+      : '';
+
+    const figures: string[] = [];
+    for (const image of chapter.images) {
+      const src = await addImage(image.url, (contentWidth * image.width) / 100);
+      if (!src) continue;
+      figures.push(`<figure style="text-align: ${image.alignment};">
+<img src="${src}" alt="${escapeXml(image.caption)}" style="width: ${image.width}%;"/>
+${image.caption ? `<figcaption>${escapeXml(image.caption)}</figcaption>` : ''}
+</figure>`);
+    }
+
+    const subChapters = chapter.subChapters.map(subChapter => `<section id="${escapeXml(sectionAnchor(subChapter.id))}" class="subchapter">
+<h2>${escapeXml(subChapter.title)}</h2>
+<div class="content" style="text-indent: ${chapter.indentation}cm;">${parseMarkdown(subChapter.content, chapterNotes)}</div>
+</section>`);
+
+    const heading = label
+      ? `<header class="chapter-heading"><p class="chapter-label">${escapeXml(label)}</p><h1 class="chapter-title">${escapeXml(chapter.title)}</h1></header>`
+      : `<header class="chapter-heading"><h1 class="chapter-title">${escapeXml(chapter.title)}</h1></header>`;
+
+    documents.push({
+      id: chapter.id,
+      href: chapterHrefs.get(chapter.id)!,
+      title: label ? `${label}: ${chapter.title}` : chapter.title,
+      dom: parseHtml(`<section id="${escapeXml(chapterAnchor(chapter.id))}" epub:type="${sectionEpubType(chapter)}" class="${sectionClass(chapter.type)}">
+${heading}
+<div class="content" style="text-indent: ${chapter.indentation}cm;">${content}</div>
+${figures.join('\n')}
+${subChapters.join('\n')}
+${footnotes}
+</section>`),
+    });
+  }
+
+  // Links written as `#anchor` in the markdown point at ids that may now live in
+  // another file. Point them at the right file, and drop links with no target.
+  // Heading slugs such as "2024-plans" are not valid XML ids and get a prefix.
+  const anchorHrefs = new Map<string, { href: string; id: string }>();
+  for (const doc of documents) {
+    doc.dom.querySelectorAll('[id]').forEach(element => {
+      if (!element.id || anchorHrefs.has(element.id)) {
+        element.removeAttribute('id');
+      } else {
+        const id = /^[\d.-]/.test(element.id) ? `h-${element.id}` : element.id;
+        anchorHrefs.set(element.id, { href: doc.href, id });
+        element.id = id;
+      }
+    });
+  }
+  for (const doc of documents) {
+    doc.dom.querySelectorAll('a[href^="#"]').forEach(link => {
+      const anchor = decodeURIComponent(link.getAttribute('href')!.slice(1));
+      const target = anchorHrefs.get(anchor);
+      if (target) {
+        const { href, id } = target;
+        link.setAttribute('href', href === doc.href ? `#${id}` : `${href}#${id}`);
+      } else {
+        link.replaceWith(...Array.from(link.childNodes));
+      }
+    });
+  }
+
+  for (const doc of documents) {
+    zip.file(`${EPUB_CONTENT_DIR}/${doc.href}`, xhtmlDocument(doc.title, serializeBody(doc.dom), language));
+    manifest.push({ id: `doc-${doc.id}`, href: doc.href, mediaType: 'application/xhtml+xml' });
+  }
+
+  const navEntries: string[] = [];
+  chapterNumber = 0;
+  for (const chapter of orderedChapters) {
+    if (chapter.type === 'toc') continue;
+    const href = chapterHrefs.get(chapter.id)!;
+    const title = chapter.type === 'chapter'
+      ? `${getChapterLabel(++chapterNumber, language)}: ${chapter.title}`
+      : chapter.title;
+    const children = chapter.subChapters.length > 0
+      ? `<ol>${chapter.subChapters.map(sub => `<li><a href="${href}#${escapeXml(sectionAnchor(sub.id))}">${escapeXml(sub.title)}</a></li>`).join('')}</ol>`
+      : '';
+    navEntries.push(`<li><a href="${href}">${escapeXml(title)}</a>${children}</li>`);
+  }
+
+  const tocTitle = chapters.find(ch => ch.type === 'toc')?.title || text.contents;
+  const firstChapter = orderedChapters.find(ch => ch.type === 'chapter');
+  const landmarks = [
+    settings.coverImage && imageHrefs.has(settings.coverImage) ? `<li><a epub:type="cover" href="cover.xhtml">${escapeXml(text.cover)}</a></li>` : '',
+    `<li><a epub:type="titlepage" href="title.xhtml">${escapeXml(bookTitle)}</a></li>`,
+    firstChapter ? `<li><a epub:type="bodymatter" href="${chapterHrefs.get(firstChapter.id)}">${escapeXml(firstChapter.title)}</a></li>` : '',
+  ].join('');
+
+  zip.file(`${EPUB_CONTENT_DIR}/nav.xhtml`, xhtmlDocument(tocTitle, `<body>
+<nav epub:type="toc" id="toc">
+<h1>${escapeXml(tocTitle)}</h1>
+<ol>
+<li><a href="title.xhtml">${escapeXml(bookTitle)}</a></li>
+${navEntries.join('\n')}
+</ol>
+</nav>
+<nav epub:type="landmarks" hidden="hidden">
+<ol>${landmarks}</ol>
+</nav>
+</body>`, language));
+
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  const identifier = options.identifier ?? crypto.randomUUID();
+  const coverItem = manifest.find(item => item.properties === 'cover-image');
+
+  zip.file(EPUB_PACKAGE_PATH, `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${escapeXml(identifier)}</dc:identifier>
+    <dc:title>${escapeXml(bookTitle)}</dc:title>
+    ${settings.author ? `<dc:creator>${escapeXml(settings.author)}</dc:creator>` : ''}
+    ${settings.description ? `<dc:description>${escapeXml(settings.description)}</dc:description>` : ''}
+    <dc:language>${language}</dc:language>
+    <meta property="dcterms:modified">${modified}</meta>
+    ${coverItem ? `<meta name="cover" content="${coverItem.id}"/>` : ''}
+  </metadata>
+  <manifest>
+${manifest.map(item => `    <item id="${item.id}" href="${item.href}" media-type="${item.mediaType}"${item.properties ? ` properties="${item.properties}"` : ''}/>`).join('\n')}
+  </manifest>
+  <spine>
+${documents.map(doc => `    <itemref idref="doc-${doc.id}"/>`).join('\n')}
+  </spine>
+</package>
+`);
+
+  return zip.generateAsync({
+    type: 'blob',
+    mimeType: EPUB_MIME_TYPE,
+    compression: 'DEFLATE',
+  });
+}
@@ -0,0 +1,117 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { defaultSettings } from '../store/useEbookStore';
+import type { Chapter, EbookSettings } from '../types';
+import { EPUB_CONTENT_DIR, generateEpub } from './epubGenerator';
+import { validateEpub } from './epubValidator';
+
+// Ids as the editor makes them: UUIDs, which may start with a digit
+const chapters: Chapter[] = [
+  {
+    id: '0d6f1c52-8f1e-4c83-9a4e-1f0a2b3c4d5e',
+    title: 'Preface',
+    content: 'Why this book[^why].\n\n[^why]: Because.',
+    images: [],
+    type: 'frontmatter',
+    indentation: 0,
+    lineSpacing: 1.5,
+    subChapters: [],
+  },
+  {
+    id: '7a1b2c3d-0000-4000-8000-000000000001',
+    title: 'Contents',
+    content: '',
+    images: [],
+    type: 'toc',
+    indentation: 0,
+    lineSpacing: 1.5,
+    subChapters: [],
+  },
+  {
+    id: '3e4f5a6b-0000-4000-8000-000000000002',
+    title: 'Beginnings',
+    content: '## 2024 plans\n\nSee [the plans](#2024-plans) and [the end](#the-end).\n\n***\n\n| A | B |\n|---|---|\n| 1 | 2 |',
+    images: [],
+    type: 'chapter',
+    indentation: 1,
+    lineSpacing: 1.5,
+    subChapters: [{ id: '9c8b7a65-0000-4000-8000-000000000003', title: 'First steps', content: 'Steps[^steps].\n\n[^steps]: One by one.' }],
+  },
+  {
+    id: 'b1c2d3e4-0000-4000-8000-000000000004',
+    title: 'Afterword',
+    content: '# The end',
+    images: [],
+    type: 'backmatter',
+    indentation: 0,
+    lineSpacing: 1.5,
+    subChapters: [],
+  },
+];
+
+const settings: EbookSettings = { ...defaultSettings, title: 'Test Book', author: 'A. Writer', language: 'en' };
+
+// jsdom's Blob has no arrayBuffer()
+function readBlob(blob: Blob) {
+  return new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+async function generate(settingsUsed: EbookSettings = settings) {
+  return readBlob(await generateEpub(chapters, settingsUsed, { identifier: 'test' }));
+}
+
+async function chapterXhtml(epub: ArrayBuffer, index: number) {
+  const zip = await JSZip.loadAsync(epub);
+  return zip.file(`${EPUB_CONTENT_DIR}/chapter-${String(index + 1).padStart(2, '0')}.xhtml`)!.async('string');
+}
+
+describe('validateEpub', () => {
+  it('finds no issues in a generated book', async () => {
+    for (const placement of ['footnotes', 'endnotes'] as const) {
+      const epub = await generate({ ...settings, notes: { ...settings.notes, placement } });
+      expect(await validateEpub(epub)).toEqual([]);
+    }
+  });
+
+  it('gets prefixed chapter, section and heading ids from the generator', async () => {
+    const epub = await generate();
+    const chapter = await chapterXhtml(epub, 2);
+
+    expect(chapter).toContain(`id="ch-${chapters[2].id}"`);
+    expect(chapter).toContain(`id="sec-${chapters[2].subChapters[0].id}"`);
+    expect(chapter).toContain('id="h-2024-plans"');
+    expect(chapter).toContain('href="#h-2024-plans"');
+    expect(chapter).toContain('text-indent: 1cm;');
+  });
+
+  it('writes links with other schemes as plain text', async () => {
+    const linked: Chapter[] = [{ ...chapters[2], content: '[run](javascript:void) [open](file:///etc/passwd)' }];
+    const epub = await readBlob(await generateEpub(linked, settings, { identifier: 'test' }));
+    const chapter = await chapterXhtml(epub, 0);
+
+    expect(chapter).toContain('run open');
+    expect(chapter).not.toContain('javascript:');
+    expect(chapter).not.toContain('file:');
+    expect(await validateEpub(epub)).toEqual([]);
+  });
+
+  it('reports ids XML does not allow and links to missing ids', async () => {
+    const zip = await JSZip.loadAsync(await generate());
+    const path = `${EPUB_CONTENT_DIR}/chapter-03.xhtml`;
+    const xhtml = await zip.file(path)!.async('string');
+    zip.file(path, xhtml.replace(`id="ch-${chapters[2].id}"`, `id="${chapters[2].id}"`).replace('href="#h-2024-plans"', 'href="#nowhere"'));
+    const broken = await zip.generateAsync({ type: 'uint8array', mimeType: 'application/epub+zip' });
+
+    const tocLink = `chapter-03.xhtml#ch-${chapters[2].id}`;
+    expect(await validateEpub(broken)).toEqual([
+      { path: `${EPUB_CONTENT_DIR}/chapter-02.xhtml`, message: `reference "${tocLink}" points to a missing id` },
+      { path, message: 'reference "#nowhere" points to a missing id' },
+      { path, message: `invalid id "${chapters[2].id}"` },
+    ]);
+  });
+});
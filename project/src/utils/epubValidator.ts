@@ -0,0 +1,225 @@
+import JSZip from 'jszip';
+import type { ValidationIssue } from './projectSchema';
+import { EPUB_MIME_TYPE } from './epubGenerator';
+
+const OPS_NS = 'http://www.idpf.org/2007/ops';
+const DC_NS = 'http://purl.org/dc/elements/1.1/';
+
+// A subset of the structural checks epubcheck runs: container layout, package
+// document, manifest/spine consistency, well-formed XHTML and resolvable links.
+// Returns an empty list for a valid book.
+export async function validateEpub(epub: Blob | ArrayBuffer): Promise<ValidationIssue[]> {
+  const issues: ValidationIssue[] = [];
+  const bytes = new Uint8Array(epub instanceof Blob ? await epub.arrayBuffer() : epub);
+
+  checkMimetypeEntry(bytes, issues);
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(bytes);
+  } catch {
+    issues.push({ path: '', message: 'not a readable zip archive' });
+    return issues;
+  }
+
+  const mimetype = await zip.file('mimetype')?.async('string');
+  if (mimetype !== EPUB_MIME_TYPE) {
+    issues.push({ path: 'mimetype', message: `expected "${EPUB_MIME_TYPE}", got ${mimetype === undefined ? 'no file' : `"${mimetype}"`}` });
+  }
+
+  const container = await readXml(zip, 'META-INF/container.xml', issues);
+  if (!container) return issues;
+
+  const packagePath = container.getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+  if (!packagePath) {
+    issues.push({ path: 'META-INF/container.xml', message: 'no rootfile full-path' });
+    return issues;
+  }
+
+  const opf = await readXml(zip, packagePath, issues);
+  if (!opf) return issues;
+
+  const pkg = opf.documentElement;
+  if (pkg.getAttribute('version') !== '3.0') {
+    issues.push({ path: packagePath, message: `package version must be 3.0, got "${pkg.getAttribute('version')}"` });
+  }
+
+  const uniqueId = pkg.getAttribute('unique-identifier');
+  const identifiers = Array.from(opf.getElementsByTagNameNS(DC_NS, 'identifier'));
+  if (!identifiers.some(identifier => identifier.getAttribute('id') === uniqueId && identifier.textContent?.trim())) {
+    issues.push({ path: packagePath, message: `unique-identifier "${uniqueId}" does not match a non-empty dc:identifier` });
+  }
+  (['title', 'language'] as const).forEach(name => {
+    if (!opf.getElementsByTagNameNS(DC_NS, name)[0]?.textContent?.trim()) {
+      issues.push({ path: packagePath, message: `missing dc:${name}` });
+    }
+  });
+
+  const modified = Array.from(opf.getElementsByTagName('meta'))
+    .find(meta => meta.getAttribute('property') === 'dcterms:modified')?.textContent?.trim();
+  if (!modified || !/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/.test(modified)) {
+    issues.push({ path: packagePath, message: 'dcterms:modified must be present as CCYY-MM-DDThh:mm:ssZ' });
+  }
+
+  const baseDir = dirname(packagePath);
+  const manifestIds = new Map<string, Element>();
+  const manifestPaths = new Set<string>();
+  for (const item of Array.from(opf.getElementsByTagName('item'))) {
+    const id = item.getAttribute('id') ?? '';
+    const href = item.getAttribute('href') ?? '';
+    const path = resolvePath(baseDir, href);
+
+    if (manifestIds.has(id)) {
+      issues.push({ path: packagePath, message: `duplicate manifest id "${id}"` });
+    }
+    manifestIds.set(id, item);
+    manifestPaths.add(path);
+
+    if (!item.getAttribute('media-type')) {
+      issues.push({ path: packagePath, message: `manifest item "${id}" has no media-type` });
+    }
+    if (!zip.file(path)) {
+      issues.push({ path, message: `manifest item "${id}" points to a missing file` });
+    }
+  }
+
+  const itemsWithProperty = (property: string) => Array.from(manifestIds.values())
+    .filter(item => (item.getAttribute('properties') ?? '').split(/\s+/).includes(property));
+
+  const navItems = itemsWithProperty('nav');
+  if (navItems.length !== 1) {
+    issues.push({ path: packagePath, message: `expected exactly one nav document, found ${navItems.length}` });
+  }
+  if (itemsWithProperty('cover-image').length > 1) {
+    issues.push({ path: packagePath, message: 'more than one cover-image' });
+  }
+
+  const spineRefs = Array.from(opf.getElementsByTagName('itemref'));
+  if (spineRefs.length === 0) {
+    issues.push({ path: packagePath, message: 'spine is empty' });
+  }
+  spineRefs.forEach(ref => {
+    const idref = ref.getAttribute('idref') ?? '';
+    const item = manifestIds.get(idref);
+    if (!item) {
+      issues.push({ path: packagePath, message: `spine itemref "${idref}" is not in the manifest` });
+    } else if (item.getAttribute('media-type') !== 'application/xhtml+xml') {
+      issues.push({ path: packagePath, message: `spine item "${idref}" is not an XHTML content document` });
+    }
+  });
+
+  zip.forEach((path, entry) => {
+    if (entry.dir || path === 'mimetype' || path.startsWith('META-INF/') || path === packagePath) return;
+    if (!manifestPaths.has(path)) {
+      issues.push({ path, message: 'file is not listed in the manifest' });
+    }
+  });
+
+  const contentDocuments = new Map<string, Document>();
+  for (const item of manifestIds.values()) {
+    if (item.getAttribute('media-type') !== 'application/xhtml+xml') continue;
+    const path = resolvePath(baseDir, item.getAttribute('href') ?? '');
+    const dom = await readXml(zip, path, issues, 'application/xhtml+xml');
+    if (dom) contentDocuments.set(path, dom);
+  }
+
+  const navPath = navItems[0] && resolvePath(baseDir, navItems[0].getAttribute('href') ?? '');
+  const nav = navPath ? contentDocuments.get(navPath) : undefined;
+  if (nav && !Array.from(nav.getElementsByTagName('nav')).some(el => el.getAttributeNS(OPS_NS, 'type') === 'toc')) {
+    issues.push({ path: navPath!, message: 'nav document has no epub:type="toc" nav' });
+  }
+
+  for (const [path, dom] of contentDocuments) {
+    const references = [
+      ...Array.from(dom.getElementsByTagName('a')).map(el => el.getAttribute('href')),
+      ...Array.from(dom.getElementsByTagName('img')).map(el => el.getAttribute('src')),
+      ...Array.from(dom.getElementsByTagName('link')).map(el => el.getAttribute('href')),
+    ];
+
+    for (const reference of references) {
+      if (!reference || /^[a-z][a-z\d+.-]*:/i.test(reference)) continue;
+      const [file, fragment] = reference.split('#');
+      const target = file ? resolvePath(dirname(path), file) : path;
+
+      if (!manifestPaths.has(target)) {
+        issues.push({ path, message: `reference "${reference}" points outside the manifest` });
+      } else if (fragment && contentDocuments.has(target)) {
+        const targetDom = contentDocuments.get(target)!;
+        if (!targetDom.getElementById(decodeURIComponent(fragment))) {
+          issues.push({ path, message: `reference "${reference}" points to a missing id` });
+        }
+      }
+    }
+
+    const ids = new Set<string>();
+    for (const element of Array.from(dom.querySelectorAll('[id]'))) {
+      if (ids.has(element.id)) {
+        issues.push({ path, message: `duplicate id "${element.id}"` });
+      }
+      // XML ids cannot start with a digit, '-' or '.', nor contain whitespace
+      if (/^[\d.-]|\s/.test(element.id)) {
+        issues.push({ path, message: `invalid id "${element.id}"` });
+      }
+      ids.add(element.id);
+    }
+  }
+
+  return issues;
+}
+
+// The first local file header must be an uncompressed `mimetype` with no extra field
+function checkMimetypeEntry(bytes: Uint8Array, issues: ValidationIssue[]) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 30 || view.getUint32(0, true) !== 0x04034b50) {
+    issues.push({ path: '', message: 'not a zip archive' });
+    return;
+  }
+
+  const nameLength = view.getUint16(26, true);
+  const name = new TextDecoder().decode(bytes.subarray(30, 30 + nameLength));
+  if (name !== 'mimetype') {
+    issues.push({ path: 'mimetype', message: `must be the first entry, found "${name}"` });
+    return;
+  }
+  if (view.getUint16(8, true) !== 0) {
+    issues.push({ path: 'mimetype', message: 'must be stored uncompressed' });
+  }
+  if (view.getUint16(28, true) !== 0) {
+    issues.push({ path: 'mimetype', message: 'must not have an extra field' });
+  }
+}
+
+async function readXml(
+  zip: JSZip,
+  path: string,
+  issues: ValidationIssue[],
+  type: DOMParserSupportedType = 'application/xml'
+): Promise<Document | null> {
+  const text = await zip.file(path)?.async('string');
+  if (text === undefined) {
+    issues.push({ path, message: 'file is missing' });
+    return null;
+  }
+
+  const dom = new DOMParser().parseFromString(text, type);
+  const error = dom.getElementsByTagName('parsererror')[0];
+  if (error) {
+    issues.push({ path, message: `not well-formed XML: ${error.textContent?.trim().split('\n')[0] ?? ''}` });
+    return null;
+  }
+  return dom;
+}
+
+function dirname(path: string) {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+function resolvePath(base: string, href: string) {
+  const parts = base ? base.split('/') : [];
+  for (const part of decodeURI(href).split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+}
@@ -0,0 +1,140 @@
+import type { Chapter, EbookSettings, Language } from '../types';
+import { getBookText } from './bookText';
+import { parseMarkdownAst } from './markdownAst';
+import type { BlockNode, InlineNode, ListNode } from './markdownAst';
+import { getChapterLabel } from './tableOfContents';
+
+export const ENDNOTES_CHAPTER_ID = 'endnotes';
+
+export type Note = {
+  id: string; // unique in the book, used as the link target
+  referenceId: string; // id of the first reference, for links back
+  label: string;
+  number: number;
+  children: InlineNode[];
+};
+
+// Notes of one chapter (sub-chapters included) by label, in reference order
+export type ChapterNotes = Map<string, Note>;
+
+export type BookNotes = {
+  placement: EbookSettings['notes']['placement'];
+  chapters: Map<string, ChapterNotes>;
+};
+
+function forEachInline(nodes: InlineNode[], visit: (node: InlineNode) => void) {
+  for (const node of nodes) {
+    visit(node);
+    if ('children' in node) forEachInline(node.children, visit);
+  }
+}
+
+function listInlines(list: ListNode): InlineNode[][] {
+  return list.items.flatMap(item => [item.children, ...item.sublists.flatMap(listInlines)]);
+}
+
+function blockInlines(block: BlockNode): InlineNode[][] {
+  switch (block.type) {
+    case 'list':
+      return listInlines(block);
+    case 'table':
+      return [block.header, ...block.rows].flat();
+    case 'blockquote':
+      return block.children.flatMap(blockInlines);
+    case 'code':
+    case 'thematicBreak':
+    case 'sceneBreak':
+      return [];
+    default:
+      return [block.children];
+  }
+}
+
+// Notes are resolved per chapter, sub-chapters included, before any of its
+// text is drawn
+function chapterBlocks(chapter: Chapter): BlockNode[] {
+  return [chapter.content, ...chapter.subChapters.map(sub => sub.content)]
+    .flatMap(content => parseMarkdownAst(content));
+}
+
+// Numbers every note that is both defined and referenced, in order of first
+// reference. References without a definition stay literal text.
+export function collectNotes(chapters: Chapter[], settings: EbookSettings): BookNotes {
+  const notes: BookNotes = { placement: settings.notes.placement, chapters: new Map() };
+  let bookNumber = 0;
+  let sequence = 0;
+
+  for (const chapter of chapters) {
+    if (chapter.type === 'toc') continue;
+
+    const blocks = chapterBlocks(chapter);
+    const definitions = new Map<string, InlineNode[]>();
+    blocks.forEach(block => {
+      if (block.type === 'footnoteDefinition' && !definitions.has(block.label)) {
+        definitions.set(block.label, block.children);
+      }
+    });
+
+    const chapterNotes: ChapterNotes = new Map();
+    let chapterNumber = 0;
+    blocks
+      .filter(block => block.type !== 'footnoteDefinition')
+      .forEach(block => blockInlines(block).forEach(nodes => forEachInline(nodes, node => {
+        if (node.type !== 'footnoteReference' || chapterNotes.has(node.label)) return;
+        const children = definitions.get(node.label);
+        if (!children) return;
+
+        sequence++;
+        chapterNotes.set(node.label, {
+          id: `note-${sequence}`,
+          referenceId: `noteref-${sequence}`,
+          label: node.label,
+          number: settings.notes.numbering === 'book' ? ++bookNumber : ++chapterNumber,
+          children,
+        });
+      })));
+
+    if (chapterNotes.size > 0) notes.chapters.set(chapter.id, chapterNotes);
+  }
+
+  return notes;
+}
+
+// In endnotes mode the notes get a back matter chapter of their own, placed
+// before any other back matter. Its content is generated by each renderer.
+export function withEndnotesChapter(chapters: Chapter[], notes: BookNotes, language: Language): Chapter[] {
+  if (notes.placement !== 'endnotes' || notes.chapters.size === 0) return chapters;
+
+  const endnotes: Chapter = {
+    id: ENDNOTES_CHAPTER_ID,
+    title: getBookText(language).notes,
+    content: '',
+    images: [],
+    type: 'backmatter',
+    indentation: 0,
+    lineSpacing: 1.5,
+    subChapters: [],
+  };
+  const index = chapters.findIndex(ch => ch.type === 'backmatter');
+  return index === -1
+    ? [...chapters, endnotes]
+    : [...chapters.slice(0, index), endnotes, ...chapters.slice(index)];
+}
+
+// The endnotes chapter lists notes under the chapter they belong to
+export function endnoteGroups(
+  chapters: Chapter[],
+  notes: BookNotes,
+  language: Language
+): { title: string; notes: Note[] }[] {
+  const mainChapterIds = chapters.filter(ch => ch.type === 'chapter').map(ch => ch.id);
+  return chapters
+    .filter(chapter => notes.chapters.has(chapter.id))
+    .map(chapter => {
+      const index = mainChapterIds.indexOf(chapter.id);
+      return {
+        title: index === -1 ? chapter.title : `${getChapterLabel(index + 1, language)}: ${chapter.title}`,
+        notes: Array.from(notes.chapters.get(chapter.id)!.values()),
+      };
+    });
+}
@@ -0,0 +1,220 @@
+import type { EbookSettings, ImageQuality } from '../types';
+import { urlToBlob } from './bookAssets';
+import { fillImage, fitImage } from './layout';
+import type { BookLayout, ImageSize } from './layout';
+import { loadImage } from './layoutResources';
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'gif' | 'svg';
+
+// What jsPDF's addImage takes
+export type PdfImage = {
+  data: Uint8Array;
+  format: 'PNG' | 'JPEG';
+};
+
+const MM_PER_INCH = 25.4;
+const SNIFF_LENGTH = 512;
+
+// Uploads are scaled down to this many pixels on their longest side, which
+// still prints an A3 page at 300 dpi
+const MAX_SOURCE_SIZE = 5000;
+// SVGs are rasterized on upload at the largest size that stays sharp in print
+const SVG_RASTER_SIZE = 3508;
+const UPLOAD_JPEG_QUALITY = 92;
+// Browsers size an SVG without width and height like any replaced element
+const DEFAULT_SVG_SIZE: ImageSize = { width: 300, height: 150 };
+
+const mimeTypes: Record<ImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+};
+
+// For the accept attribute of upload inputs
+export const imageFileTypes = Object.values(mimeTypes).join(',');
+
+export class ImageFormatError extends Error {
+  fileName: string;
+
+  constructor(message: string, fileName: string) {
+    super(message);
+    this.name = 'ImageFormatError';
+    this.fileName = fileName;
+  }
+}
+
+// Goes by the file signature: blob URLs from the project database and renamed
+// files do not carry a trustworthy type
+export function detectImageFormat(bytes: Uint8Array): ImageFormat | null {
+  const startsWith = (signature: number[], offset = 0) =>
+    signature.every((byte, i) => bytes[offset + i] === byte);
+
+  if (startsWith([0x89, 0x50, 0x4e, 0x47])) return 'png';
+  if (startsWith([0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith([0x47, 0x49, 0x46, 0x38])) return 'gif';
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) return 'webp';
+
+  const head = new TextDecoder().decode(bytes).trimStart();
+  if (head.startsWith('<') && /<svg[\s>]/i.test(head)) return 'svg';
+  return null;
+}
+
+async function sniffFormat(blob: Blob) {
+  return detectImageFormat(new Uint8Array(await blob.slice(0, SNIFF_LENGTH).arrayBuffer()));
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function intrinsicSize(img: HTMLImageElement): ImageSize {
+  return img.naturalWidth && img.naturalHeight
+    ? { width: img.naturalWidth, height: img.naturalHeight }
+    : DEFAULT_SVG_SIZE;
+}
+
+function drawScaled(img: HTMLImageElement, width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const context = canvas.getContext('2d')!;
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+function hasTransparency(canvas: HTMLCanvasElement): boolean {
+  const { data } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+}
+
+// Neutral grey from luminance, so black-and-white interiors print without a colour cast
+function desaturate(canvas: HTMLCanvasElement) {
+  const context = canvas.getContext('2d')!;
+  const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = pixels;
+  for (let i = 0; i < data.length; i += 4) {
+    const luminance = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+    data[i] = data[i + 1] = data[i + 2] = luminance;
+  }
+  context.putImageData(pixels, 0, 0);
+}
+
+// Photographs go to JPEG; anything that may hold transparency or sharp
+// edges (PNG, GIF, SVG) stays lossless
+function encodeCanvas(canvas: HTMLCanvasElement, format: ImageFormat, jpegQuality: number): Promise<Blob> {
+  const lossy = format === 'jpeg' || (format === 'webp' && !hasTransparency(canvas));
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      lossy ? 'image/jpeg' : 'image/png',
+      lossy ? jpegQuality / 100 : undefined
+    );
+  });
+}
+
+// Reads an uploaded image into a data URL every export can embed. PNG and
+// JPEG are kept as they are unless very large; WebP and GIF are re-encoded
+// and SVG is rasterized, since jsPDF embeds neither.
+export async function readImageFile(file: File): Promise<string> {
+  const format = await sniffFormat(file);
+  if (!format) {
+    throw new ImageFormatError(`${file.name} is not a PNG, JPEG, WebP, GIF or SVG image`, file.name);
+  }
+
+  const dataUrl = await blobToDataUrl(new Blob([file], { type: mimeTypes[format] }));
+  const img = await loadImage(dataUrl);
+  const size = intrinsicSize(img);
+  const longest = Math.max(size.width, size.height);
+  if ((format === 'png' || format === 'jpeg') && longest <= MAX_SOURCE_SIZE) {
+    return dataUrl;
+  }
+
+  const scale = format === 'svg' ? SVG_RASTER_SIZE / longest : Math.min(1, MAX_SOURCE_SIZE / longest);
+  const canvas = drawScaled(img, size.width * scale, size.height * scale);
+  return blobToDataUrl(await encodeCanvas(canvas, format, UPLOAD_JPEG_QUALITY));
+}
+
+export function effectiveDpi(pixelWidth: number, placedWidth: number): number {
+  return pixelWidth / (placedWidth / MM_PER_INCH);
+}
+
+// The image as it should be embedded when placed `placedWidth` mm wide: no
+// sharper than the quality's dpi, and left untouched when it already is.
+// Untouched JPEGs keep their colour space, so CMYK files reach the printer as CMYK.
+export async function prepareExportImage(
+  url: string,
+  placedWidth: number,
+  quality: ImageQuality,
+  grayscale = false
+): Promise<Blob> {
+  const blob = await urlToBlob(url);
+  const format = await sniffFormat(blob);
+  if (!format) {
+    throw new ImageFormatError('Unsupported image format', url);
+  }
+
+  const img = await loadImage(url);
+  const size = intrinsicSize(img);
+  const maxWidth = Math.ceil((placedWidth / MM_PER_INCH) * quality.maxDpi);
+  if ((format === 'png' || format === 'jpeg') && size.width <= maxWidth && !grayscale) {
+    return new Blob([blob], { type: mimeTypes[format] });
+  }
+
+  // SVGs from before uploads were rasterized are drawn at the size they need
+  const width = format === 'svg' ? maxWidth : Math.min(size.width, maxWidth);
+  const canvas = drawScaled(img, width, (width * size.height) / size.width);
+  if (grayscale) desaturate(canvas);
+  return encodeCanvas(canvas, format, quality.jpegQuality);
+}
+
+export async function preparePdfImage(
+  url: string,
+  placedWidth: number,
+  quality: ImageQuality,
+  grayscale = false
+): Promise<PdfImage> {
+  const blob = await prepareExportImage(url, placedWidth, quality, grayscale);
+  return {
+    data: new Uint8Array(await blob.arrayBuffer()),
+    format: blob.type === 'image/png' ? 'PNG' : 'JPEG',
+  };
+}
+
+// Lowest resolution, in dpi, each image prints at in the PDF, keyed by URL.
+// Covers fit their page; full-page images are enlarged to fill it.
+export async function measureImageDpi(layout: BookLayout, settings: EbookSettings): Promise<Record<string, number>> {
+  const covers = [settings.coverImage, settings.backCoverImage].filter((url): url is string => !!url);
+  const placements: { url: string; width?: number; fill?: boolean }[] = [
+    ...covers.map((url) => ({ url })),
+    ...layout.pages.flatMap((page) =>
+      page.boxes.flatMap((box) => (box.type === 'image' ? [{ url: box.url, width: box.width, fill: box.bleed }] : []))
+    ),
+  ];
+
+  const dpi: Record<string, number> = {};
+  await Promise.all(
+    placements.map(async ({ url, width, fill }) => {
+      try {
+        const size = intrinsicSize(await loadImage(url));
+        const placedWidth = fill
+          ? fillImage(size, layout.pageWidth, layout.pageHeight).width
+          : width ?? fitImage(size, layout.pageWidth, layout.pageHeight).width;
+        dpi[url] = Math.min(dpi[url] ?? Infinity, effectiveDpi(size.width, placedWidth));
+      } catch (err) {
+        console.error(`Error measuring image ${url}:`, err);
+      }
+    })
+  );
+  return dpi;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { defaultSettings } from '../store/useEbookStore';
+import type { Chapter, EbookSettings } from '../types';
+import { coverPageCount, layoutBookWithToc } from './layout';
+
+const chapter = (id: string): Chapter => ({
+  id,
+  title: `Chapter ${id}`,
+  content: 'Text.',
+  images: [],
+  type: 'chapter',
+  indentation: 0,
+  lineSpacing: 1.5,
+  subChapters: [],
+});
+
+// Chapters open on rectos, on a title page of their own
+const settings: EbookSettings = {
+  ...defaultSettings,
+  coverImage: 'data:image/png;base64,',
+  chapterStarts: { sections: { frontmatter: 'recto', body: 'recto', backmatter: 'recto' }, titlePage: false },
+};
+
+const layout = (coverPages: number) =>
+  layoutBookWithToc([chapter('a'), chapter('b')], settings, (text) => text.length, new Map(), coverPages);
+
+describe('coverPageCount', () => {
+  it('counts the front cover in the screen PDF only', () => {
+    expect(coverPageCount(settings, 'screen')).toBe(1);
+    expect(coverPageCount(settings, 'print')).toBe(0);
+    expect(coverPageCount({ ...settings, coverImage: null }, 'screen')).toBe(0);
+  });
+});
+
+describe('layoutBookWithToc', () => {
+  it('starts the print interior on a recto', () => {
+    const pages = layout(coverPageCount(settings, 'print')).pages;
+    expect(pages.map((page) => [page.side, page.kind])).toEqual([
+      ['recto', 'title'],
+      ['verso', 'blank'],
+      ['recto', 'opening'],
+      ['verso', 'blank'],
+      ['recto', 'opening'],
+    ]);
+  });
+
+  it('puts the first page after the front cover on a verso', () => {
+    const pages = layout(coverPageCount(settings, 'screen')).pages;
+    expect(pages.map((page) => [page.side, page.kind])).toEqual([
+      ['verso', 'title'],
+      ['recto', 'opening'],
+      ['verso', 'blank'],
+      ['recto', 'opening'],
+    ]);
+  });
+});
@@ -0,0 +1,784 @@
+import type { BookSection, Chapter, EbookSettings, FontSettings, LengthUnit, PageLabels, PaperSize, PdfProfile } from '../types';
+import { createPageCounter } from './pageNumbering';
+import { getRunningHeadAlignment, getRunningHeadText } from './runningHeads';
+import { buildTocEntries, getChapterLabel, layoutTocEntry, samePageLabels } from './tableOfContents';
+import { getBookText } from './bookText';
+import { layoutMarkdown, layoutNote } from './pdfMarkdownParser';
+import { slugify } from './pdfLinks';
+import type { PdfDestination, PdfLinkArea, PdfOutlineItem } from './pdfLinks';
+import { ENDNOTES_CHAPTER_ID, collectNotes, endnoteGroups, withEndnotesChapter } from './footnotes';
+import type { BookNotes, ChapterNotes } from './footnotes';
+
+export const PT_TO_MM = 0.352778;
+
+// A TOC that grows or shrinks shifts every later page, so its labels are only
+// trusted once a pass reproduces the labels it was laid out with.
+const MAX_TOC_PASSES = 3;
+
+export const MM_PER_UNIT: Record<LengthUnit, number> = { mm: 1, in: 25.4 };
+
+// Trim sizes of the presets in mm, upright
+export const paperDimensions: Record<Exclude<PaperSize, 'custom'>, { width: number; height: number }> = {
+  A4: { width: 210, height: 297 },
+  A5: { width: 148, height: 210 },
+  B5: { width: 176, height: 250 },
+  Letter: { width: 215.9, height: 279.4 },
+  Legal: { width: 215.9, height: 355.6 },
+  '5.5x8.5in': { width: 139.7, height: 215.9 },
+  '6x9in': { width: 152.4, height: 228.6 },
+  '14x21cm': { width: 140, height: 210 },
+  '15.5x23cm': { width: 155, height: 230 },
+};
+
+// The page every output is laid out on, in mm. Orientation decides which
+// side is the long one, for custom sizes too.
+export function pageDimensions(settings: EbookSettings): { width: number; height: number } {
+  const { paperSize, customPaperSize } = settings;
+  const size = paperSize === 'custom'
+    ? {
+        width: customPaperSize.width * MM_PER_UNIT[customPaperSize.unit],
+        height: customPaperSize.height * MM_PER_UNIT[customPaperSize.unit],
+      }
+    : paperDimensions[paperSize];
+
+  const short = Math.min(size.width, size.height);
+  const long = Math.max(size.width, size.height);
+  return settings.orientation === 'landscape' ? { width: long, height: short } : { width: short, height: long };
+}
+
+// Pages ahead of the laid-out book in the finished PDF. They decide which side
+// the first page falls on: the screen PDF opens with the front cover, the print
+// interior has none (the covers go on the wraparound cover).
+export function coverPageCount(settings: EbookSettings, profile: PdfProfile): number {
+  return profile === 'screen' && settings.coverImage ? 1 : 0;
+}
+
+export type FontStyleName = 'normal' | 'bold' | 'italic' | 'bolditalic';
+
+export type FontSpec = {
+  family: string;
+  style: FontStyleName;
+  size: number; // pt
+};
+
+// Width in mm of `text` set in `font`
+export type TextMeasurer = (text: string, font: FontSpec) => number;
+
+export type ImageSize = { width: number; height: number };
+
+// Largest box with the image's proportions that fits the area, centred in it.
+// Covers are placed this way on their page.
+export function fitImage(size: ImageSize, width: number, height: number) {
+  const scale = Math.min(width / size.width, height / size.height);
+  const fitted = { width: size.width * scale, height: size.height * scale };
+  return { x: (width - fitted.width) / 2, y: (height - fitted.height) / 2, ...fitted };
+}
+
+// Smallest box with the image's proportions that covers the area, centred on
+// it; whatever sticks out is cut off
+export function fillImage(size: ImageSize, width: number, height: number) {
+  const scale = Math.max(width / size.width, height / size.height);
+  const filled = { width: size.width * scale, height: size.height * scale };
+  return { x: (width - filled.width) / 2, y: (height - filled.height) / 2, ...filled };
+}
+
+// Coordinates are mm from the page's top-left corner; text `y` is the baseline
+export type TextBox = {
+  type: 'text';
+  x: number;
+  y: number;
+  text: string;
+  font: FontSpec;
+  color?: string;
+  angle?: number; // degrees anticlockwise about (x, y), as jsPDF turns text
+};
+
+export type ImageBox = {
+  type: 'image';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  url: string;
+  bleed?: boolean; // fills the box, cut to its proportions, and the bleed around it in print
+};
+
+export type LineBox = {
+  type: 'line';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  width: number; // stroke width in mm
+  color?: string;
+};
+
+export type RectBox = {
+  type: 'rect';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fill?: string;
+  stroke?: string; // outlined with a hairline
+};
+
+export type LayoutBox = TextBox | ImageBox | LineBox | RectBox;
+
+export type LayoutPage = {
+  number: number; // 1-based position in the content PDF
+  side: 'recto' | 'verso'; // counting any cover pages ahead of the book
+  kind: 'title' | 'opening' | 'body' | 'plate' | 'blank'; // a plate is a full-page image
+  section: BookSection;
+  label: string;
+  showFolio: boolean;
+  chapterTitle: string;
+  subChapterTitle: string;
+  boxes: LayoutBox[];
+};
+
+export type BookLayout = {
+  pageWidth: number;
+  pageHeight: number;
+  gutter: number; // mm on the binding edge, left of rectos and right of versos
+  pages: LayoutPage[];
+  pageLabels: PageLabels;
+  destinations: Map<string, PdfDestination>;
+  links: PdfLinkArea[];
+  outline: PdfOutlineItem[];
+};
+
+// One line of a footnote, drawn once the page's footnote area is known
+export type NoteLine = { height: number; draw: (baseline: number) => void };
+
+export type FlowNote = { id: string; lines: NoteLine[] };
+
+// What block layout (markdown, TOC entries) needs from the page flow
+export type LayoutFlow = {
+  measure: TextMeasurer;
+  // Left edge, width and height of the text area of a page
+  contentLeft: number;
+  contentWidth: number;
+  contentHeight: number;
+  // Moves down one line and returns its baseline, starting a page when it does
+  // not fit. Notes referenced on the line go to the bottom of the same page,
+  // running over to the next page when they are too long.
+  nextLine: (height: number, notes?: FlowNote[]) => number;
+  // Room left below the current line on this page
+  spaceLeft: () => number;
+  // Starts a new page unless nothing has been placed on the current one yet
+  breakPage: () => boolean;
+  addText: (text: string, x: number, y: number, font: FontSpec, link?: string | null) => void;
+  addLine: (line: Omit<LineBox, 'type'>) => void;
+  addDestination: (anchors: string[], y: number) => PdfDestination;
+};
+
+const LINK_COLOR = '#0000ee';
+// Gap between the text and the footnotes, with the separator rule in it
+const NOTE_SEPARATOR_SPACE = 4;
+
+export function fontSpec(font: FontSettings, style: FontStyleName = 'normal', scale = 1): FontSpec {
+  return { family: font.family, style, size: font.size * scale };
+}
+
+export function lineHeightOf(font: FontSettings, scale = 1): number {
+  return font.size * scale * PT_TO_MM * font.lineHeight;
+}
+
+// Breaks text into lines no wider than maxWidth, keeping explicit line breaks
+// and splitting words that are wider than a line on their own
+export function wrapText(measure: TextMeasurer, text: string, font: FontSpec, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measure(candidate, font) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+
+      line = '';
+      for (const char of word) {
+        if (line && measure(line + char, font) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+function alignedX(
+  align: 'left' | 'center' | 'right' | 'justify',
+  width: number,
+  left: number,
+  maxWidth: number
+) {
+  if (align === 'center') return left + (maxWidth - width) / 2;
+  if (align === 'right') return left + maxWidth - width;
+  return left;
+}
+
+export function layoutBook(
+  chapters: Chapter[],
+  settings: EbookSettings,
+  measure: TextMeasurer,
+  images: Map<string, ImageSize>,
+  notes: BookNotes,
+  tocPageLabels: PageLabels | null,
+  coverPages: number
+): BookLayout {
+  const { width: pageWidth, height: pageHeight } = pageDimensions(settings);
+  const gutter = settings.margins.gutter * 10;
+  // Pages are laid out as rectos, with the gutter on the left, and versos
+  // are moved across at the end when the margins are mirrored
+  const marginLeft = settings.margins.left * 10 + gutter;
+  const marginRight = settings.margins.right * 10;
+  const marginTop = settings.margins.top * 10;
+  const marginBottom = settings.margins.bottom * 10;
+  const contentWidth = pageWidth - marginLeft - marginRight;
+  const maxY = pageHeight - marginBottom;
+  const { fonts } = settings;
+
+  const sideOf = (number: number): LayoutPage['side'] => ((number + coverPages) % 2 === 0 ? 'verso' : 'recto');
+
+  const counter = createPageCounter(settings.pageNumbering, settings.language);
+  const pages: LayoutPage[] = [];
+  let page: LayoutPage | null = null;
+  let currentSection: BookSection | null = null;
+  let y = marginTop;
+
+  let currentChapterTitle = '';
+  let currentSubChapterTitle = '';
+  // Pages that already name a sub-chapter starting on them in their running head
+  const subChapterStarts = new Set<number>();
+
+  // Footnotes stack up from the bottom margin and the text stops above them
+  let pageNotes: NoteLine[] = [];
+  let notesHeight = 0;
+  let pendingNotes: NoteLine[] = [];
+  const placedNotes = new Set<string>();
+  const textBottom = () => maxY - (pageNotes.length > 0 ? notesHeight + NOTE_SEPARATOR_SPACE : 0);
+
+  const addNoteLine = (line: NoteLine) => {
+    pageNotes.push(line);
+    notesHeight += line.height;
+  };
+
+  const finishNotes = () => {
+    if (pageNotes.length === 0) return;
+    const top = maxY - notesHeight;
+    const ruleY = top - NOTE_SEPARATOR_SPACE / 2;
+    currentPage().boxes.push({ type: 'line', x1: marginLeft, y1: ruleY, x2: marginLeft + contentWidth / 3, y2: ruleY, width: 0.2 });
+
+    let baseline = top;
+    for (const line of pageNotes) {
+      baseline += line.height;
+      line.draw(baseline);
+    }
+    pageNotes = [];
+    notesHeight = 0;
+  };
+
+  const startPage = (kind: LayoutPage['kind'], section: BookSection, showFolio = kind !== 'title'): LayoutPage => {
+    // Notes running over from the last text get pages of their own before a new chapter
+    if (kind !== 'body') {
+      while (pendingNotes.length > 0) startPage('body', currentSection!);
+    }
+    if (page) {
+      finishNotes();
+      counter.advance();
+    }
+    if (section !== currentSection) {
+      counter.beginSection(section);
+      currentSection = section;
+    }
+
+    page = {
+      number: pages.length + 1,
+      side: sideOf(pages.length + 1),
+      kind,
+      section,
+      label: counter.label(),
+      showFolio: showFolio && counter.isNumbered(),
+      chapterTitle: currentChapterTitle,
+      subChapterTitle: currentSubChapterTitle,
+      boxes: [],
+    };
+    pages.push(page);
+    y = marginTop;
+
+    // Carried-over notes take at most half the page, unless a single line is more
+    const carried = pendingNotes;
+    pendingNotes = [];
+    for (const line of carried) {
+      if (pendingNotes.length === 0 && (pageNotes.length === 0 || notesHeight + line.height <= (maxY - marginTop) / 2)) {
+        addNoteLine(line);
+      } else {
+        pendingNotes.push(line);
+      }
+    }
+    return page;
+  };
+
+  const currentPage = () => page!;
+
+  const addText = (text: string, x: number, baseline: number, font: FontSpec, link?: string | null) => {
+    currentPage().boxes.push({ type: 'text', x, y: baseline, text, font, color: link ? LINK_COLOR : undefined });
+    if (link && text.trim()) {
+      const height = font.size * PT_TO_MM;
+      addLink({ x, y: baseline - height * 0.8, width: measure(text, font), height, href: link });
+    }
+  };
+
+  const pageLabels: PageLabels = {};
+  const recordPageLabel = (id: string) => {
+    pageLabels[id] = { pageNumber: counter.value(), pageLabel: counter.label() };
+  };
+
+  // Chapters and sub-chapters can be linked by id or by their slugged title,
+  // headings inside the text by slug only. The first anchor with a name wins.
+  const destinations = new Map<string, PdfDestination>();
+  const addDestination = (anchors: string[], top: number) => {
+    const destination = { page: currentPage().number, y: Math.max(0, top) };
+    anchors.forEach(anchor => {
+      if (anchor && !destinations.has(anchor)) destinations.set(anchor, destination);
+    });
+    return destination;
+  };
+
+  const links: PdfLinkArea[] = [];
+  const addLink = (link: Omit<PdfLinkArea, 'page'>) => {
+    links.push({ ...link, page: currentPage().number });
+  };
+
+  const breakPage = () => {
+    if (y <= marginTop) return false;
+    startPage('body', currentSection!);
+    return true;
+  };
+
+  const flow: LayoutFlow = {
+    measure,
+    contentLeft: marginLeft,
+    contentWidth,
+    contentHeight: maxY - marginTop,
+    nextLine: (height, notes = []) => {
+      const newNotes = notes.filter(note => !placedNotes.has(note.id));
+      // The line needs room for the first line of each note it references
+      const notesNeeded = newNotes.reduce((sum, note) => sum + (note.lines[0]?.height ?? 0), 0) +
+        (newNotes.length > 0 && pageNotes.length === 0 ? NOTE_SEPARATOR_SPACE : 0);
+      if (y + height + notesNeeded > textBottom()) breakPage();
+      y += height;
+
+      for (const note of newNotes) {
+        placedNotes.add(note.id);
+        for (const line of note.lines) {
+          const separator = pageNotes.length === 0 ? NOTE_SEPARATOR_SPACE : 0;
+          if (pendingNotes.length === 0 && y + notesHeight + separator + line.height <= maxY) {
+            addNoteLine(line);
+          } else {
+            pendingNotes.push(line);
+          }
+        }
+      }
+      return y;
+    },
+    spaceLeft: () => textBottom() - y,
+    breakPage,
+    addText,
+    addLine: (line) => {
+      currentPage().boxes.push({ type: 'line', ...line });
+    },
+    addDestination,
+  };
+
+  const outline: PdfOutlineItem[] = [];
+  // A chapter continuing below another leaves the page's running head to the
+  // chapter it started with
+  const startChapter = (id: string, title: string, outlineTitle = title, top = 0) => {
+    currentChapterTitle = title;
+    currentSubChapterTitle = '';
+    if (top === 0) {
+      currentPage().chapterTitle = title;
+      currentPage().subChapterTitle = '';
+    }
+    recordPageLabel(id);
+    outline.push({
+      title: outlineTitle,
+      destination: addDestination([id, slugify(title)], top),
+      children: [],
+    });
+  };
+
+  // Opens a chapter where its section asks for it and returns whether it got
+  // a page of its own. A recto start after a recto puts an unnumbered blank
+  // verso in between; a continuing chapter needs room for its heading and a
+  // line of text, and never runs on from another section.
+  const openChapter = (section: BookSection, needed: number, showFolio = true) => {
+    const start = settings.chapterStarts.sections[section];
+    const { kind } = currentPage();
+    const gap = lineHeightOf(fonts.subtitle);
+    if (
+      start === 'continue' &&
+      section === currentSection &&
+      (kind === 'opening' || kind === 'body') &&
+      pendingNotes.length === 0 &&
+      y + gap + needed <= textBottom()
+    ) {
+      if (y > marginTop) y += gap;
+      return false;
+    }
+
+    // Notes running over from the previous chapter come before the blank page
+    while (pendingNotes.length > 0) startPage('body', currentSection!);
+    if (start === 'recto' && sideOf(pages.length + 1) === 'verso') {
+      startPage('blank', currentSection!, false);
+    }
+    startPage('opening', section, showFolio);
+    return true;
+  };
+
+  const startSubChapter = (id: string, title: string) => {
+    recordPageLabel(id);
+    outline[outline.length - 1]?.children.push({
+      title,
+      destination: addDestination([id, slugify(title)], y),
+      children: [],
+    });
+    if (!subChapterStarts.has(currentPage().number)) {
+      currentPage().subChapterTitle = title;
+      subChapterStarts.add(currentPage().number);
+    }
+    currentSubChapterTitle = title;
+  };
+
+  // Headings of front and back matter sit at the top of their first page
+  const sectionHeadingHeight = (title: string) =>
+    wrapText(measure, title, fontSpec(fonts.subtitle), contentWidth).length * lineHeightOf(fonts.subtitle);
+
+  const layoutSectionHeading = (title: string) => {
+    const font = fontSpec(fonts.subtitle);
+    for (const line of wrapText(measure, title, font, contentWidth)) {
+      const baseline = flow.nextLine(lineHeightOf(fonts.subtitle));
+      addText(line, alignedX(fonts.subtitle.alignment, measure(line, font), marginLeft, contentWidth), baseline, font);
+    }
+  };
+
+  const layoutParagraphs = (content: string, x: number, maxWidth: number, font: FontSettings, chapterNotes?: ChapterNotes) => {
+    layoutMarkdown(flow, content, x, {
+      maxWidth,
+      align: font.alignment,
+      fontSize: font.size,
+      lineHeight: font.lineHeight,
+      font: font.family,
+      keepTablesTogether: settings.tables.keepTogether,
+      blocks: settings.blocks,
+      notes: chapterNotes,
+      footnotes: notes.placement === 'footnotes',
+    });
+  };
+
+  const layoutImages = (chapter: Chapter) => {
+    const font = fonts.chapterContent;
+    for (const image of chapter.images) {
+      const size = images.get(image.url);
+      if (!size) continue;
+
+      // A full-page image takes a page of its own, without folio or running
+      // heads; the caption only serves as its alt text
+      if (image.bleed) {
+        breakPage();
+        const plate = currentPage();
+        plate.kind = 'plate';
+        plate.showFolio = false;
+        plate.boxes.push({ type: 'image', x: 0, y: 0, width: pageWidth, height: pageHeight, url: image.url, bleed: true });
+        // Whatever follows starts on the next page
+        y = maxY;
+        continue;
+      }
+
+      let width = (contentWidth * image.width) / 100;
+      let height = (width * size.height) / size.width;
+      // An image taller than the text area is scaled down to fit one page
+      const available = maxY - marginTop;
+      if (height > available) {
+        width *= available / height;
+        height = available;
+      }
+
+      if (y + height > textBottom() && y > marginTop) {
+        startPage('body', currentSection!);
+      }
+
+      const x = image.alignment === 'center'
+        ? marginLeft + (contentWidth - width) / 2
+        : image.alignment === 'right'
+          ? marginLeft + contentWidth - width
+          : marginLeft;
+      currentPage().boxes.push({ type: 'image', x, y, width, height, url: image.url });
+      y += height;
+
+      if (image.caption) {
+        const captionFont = fontSpec(font, 'normal', 0.8);
+        for (const line of wrapText(measure, image.caption, captionFont, contentWidth)) {
+          const baseline = flow.nextLine(lineHeightOf(font));
+          addText(line, alignedX('center', measure(line, captionFont), marginLeft, contentWidth), baseline, captionFont);
+        }
+      }
+      y += lineHeightOf(font);
+    }
+  };
+
+  // Notes grouped under the chapter they come from, headed like sub-chapters
+  const layoutEndnotes = () => {
+    const font = fonts.backmatterContent;
+    const headingFont = fontSpec(fonts.subtitle, 'normal', 0.8);
+    const headingLineHeight = lineHeightOf(fonts.subtitle);
+    for (const group of endnoteGroups(chapters, notes, settings.language)) {
+      const headingLines = wrapText(measure, group.title, headingFont, contentWidth);
+      if (y + headingLines.length * headingLineHeight + lineHeightOf(font) > textBottom() && y > marginTop) {
+        startPage('body', currentSection!);
+      }
+      for (const line of headingLines) {
+        addText(line, marginLeft, flow.nextLine(headingLineHeight), headingFont);
+      }
+      for (const note of group.notes) {
+        layoutNote(flow, note, marginLeft, {
+          maxWidth: contentWidth,
+          align: font.alignment,
+          fontSize: font.size,
+          lineHeight: font.lineHeight,
+          font: font.family,
+          blocks: settings.blocks,
+        });
+      }
+    }
+  };
+
+  // Title page
+  startPage('title', 'frontmatter');
+  const titleFont = fontSpec(fonts.title);
+  const subtitleFont = fontSpec(fonts.subtitle);
+  const titleText = settings.title || getBookText(settings.language).untitled;
+  addText(
+    titleText,
+    alignedX(fonts.title.alignment, measure(titleText, titleFont), marginLeft, contentWidth),
+    pageHeight / 2 - lineHeightOf(fonts.title),
+    titleFont
+  );
+  if (settings.author) {
+    addText(
+      settings.author,
+      alignedX(fonts.subtitle.alignment, measure(settings.author, subtitleFont), marginLeft, contentWidth),
+      pageHeight / 2 + lineHeightOf(fonts.subtitle),
+      subtitleFont
+    );
+  }
+
+  const tocEntries = buildTocEntries(chapters, settings, tocPageLabels);
+  const frontmatterChapters = chapters.filter(ch => ch.type === 'frontmatter' || ch.type === 'toc');
+  for (const chapter of frontmatterChapters) {
+    const content = fonts.frontmatterContent;
+    const top = openChapter('frontmatter', sectionHeadingHeight(chapter.title) + lineHeightOf(content)) ? 0 : y;
+    startChapter(chapter.id, chapter.title, chapter.title, top);
+    layoutSectionHeading(chapter.title);
+
+    if (chapter.type === 'toc') {
+      const tocOptions = {
+        maxWidth: contentWidth,
+        fontSize: content.size,
+        lineHeight: content.lineHeight,
+        font: content.family,
+      };
+      for (const entry of tocEntries) {
+        let entryLayout = layoutTocEntry(measure, entry, settings.toc.leader, marginLeft, y, tocOptions);
+        if (entryLayout.bottom > maxY && y > marginTop) {
+          startPage('body', 'frontmatter');
+          entryLayout = layoutTocEntry(measure, entry, settings.toc.leader, marginLeft, y, tocOptions);
+        }
+
+        currentPage().boxes.push(...entryLayout.boxes);
+        addLink({
+          x: marginLeft,
+          y,
+          width: contentWidth,
+          height: entryLayout.bottom - y,
+          href: `#${entry.id}`,
+        });
+        y = entryLayout.bottom;
+      }
+    } else {
+      // A TOC chapter's own text is ignored, its entries are generated above
+      layoutParagraphs(chapter.content, marginLeft, contentWidth, content, notes.chapters.get(chapter.id));
+    }
+  }
+
+  const mainChapters = chapters.filter(ch => ch.type === 'chapter');
+  for (const [chapterIndex, chapter] of mainChapters.entries()) {
+    const label = getChapterLabel(chapterIndex + 1, settings.language);
+
+    const outlineTitle = `${label}: ${chapter.title}`;
+    const titleLines = [
+      ...wrapText(measure, label, titleFont, contentWidth),
+      ...wrapText(measure, chapter.title, titleFont, contentWidth),
+    ];
+    const titleLineHeight = lineHeightOf(fonts.title);
+
+    if (settings.chapterStarts.titlePage && settings.chapterStarts.sections.body !== 'continue') {
+      // A title page with the label and title centred, the text on the next page
+      openChapter('body', 0, false);
+      startChapter(chapter.id, chapter.title, outlineTitle);
+      let baseline = (pageHeight - titleLines.length * titleLineHeight) / 2 + fonts.title.size * PT_TO_MM;
+      for (const line of titleLines) {
+        addText(line, alignedX(fonts.title.alignment, measure(line, titleFont), marginLeft, contentWidth), baseline, titleFont);
+        baseline += titleLineHeight;
+      }
+      startPage('body', 'body');
+    } else {
+      const needed = titleLines.length * titleLineHeight + lineHeightOf(fonts.chapterContent);
+      const top = openChapter('body', needed) ? 0 : y;
+      startChapter(chapter.id, chapter.title, outlineTitle, top);
+      for (const line of titleLines) {
+        const baseline = flow.nextLine(titleLineHeight);
+        addText(line, alignedX(fonts.title.alignment, measure(line, titleFont), marginLeft, contentWidth), baseline, titleFont);
+      }
+    }
+
+    const indent = chapter.indentation * 10;
+    const chapterNotes = notes.chapters.get(chapter.id);
+    layoutParagraphs(chapter.content, marginLeft + indent, contentWidth - indent, fonts.chapterContent, chapterNotes);
+    layoutImages(chapter);
+
+    const headingFont = fontSpec(fonts.subtitle, 'normal', 0.8);
+    const headingLineHeight = lineHeightOf(fonts.subtitle);
+    for (const subChapter of chapter.subChapters) {
+      const headingLines = wrapText(measure, subChapter.title, headingFont, contentWidth);
+      // Keep the heading with the first line of its text
+      const needed = headingLines.length * headingLineHeight + lineHeightOf(fonts.subchapterContent);
+      if (y + needed > textBottom() && y > marginTop) {
+        startPage('body', 'body');
+      }
+
+      startSubChapter(subChapter.id, subChapter.title);
+      for (const line of headingLines) {
+        addText(line, marginLeft, flow.nextLine(headingLineHeight), headingFont);
+      }
+      layoutParagraphs(subChapter.content, marginLeft + indent, contentWidth - indent, fonts.subchapterContent, chapterNotes);
+    }
+  }
+
+  const backmatterChapters = chapters.filter(ch => ch.type === 'backmatter');
+  for (const chapter of backmatterChapters) {
+    const needed = sectionHeadingHeight(chapter.title) + lineHeightOf(fonts.backmatterContent);
+    const top = openChapter('backmatter', needed) ? 0 : y;
+    startChapter(chapter.id, chapter.title, chapter.title, top);
+    layoutSectionHeading(chapter.title);
+    if (chapter.id === ENDNOTES_CHAPTER_ID) {
+      layoutEndnotes();
+    } else {
+      layoutParagraphs(chapter.content, marginLeft, contentWidth, fonts.backmatterContent, notes.chapters.get(chapter.id));
+    }
+  }
+
+  // Folios and running heads go on last, once every page knows its chapter
+  while (pendingNotes.length > 0) startPage('body', currentSection!);
+  finishNotes();
+
+  const folioFont = fontSpec(fonts.footer);
+  const folioY = settings.pageNumbering.position === 'top'
+    ? marginTop - 5
+    : pageHeight - marginBottom / 2;
+  const footerY = settings.pageNumbering.enabled && settings.pageNumbering.position === 'bottom'
+    ? pageHeight - marginBottom / 2 - lineHeightOf(fonts.footer)
+    : pageHeight - marginBottom / 2;
+  const { mirrored } = settings.margins;
+
+  for (const layoutPage of pages) {
+    page = layoutPage;
+    const isVerso = layoutPage.side === 'verso';
+    if (layoutPage.showFolio && layoutPage.label) {
+      const width = measure(layoutPage.label, folioFont);
+      // With mirrored margins folios sit on the same side of the spread's outer edge
+      const align = mirrored && isVerso
+        ? mirrorAlignment(settings.pageNumbering.alignment)
+        : settings.pageNumbering.alignment;
+      addText(layoutPage.label, alignedX(align, width, marginLeft, contentWidth), folioY, folioFont);
+    }
+
+    if (layoutPage.kind !== 'body') continue;
+    const heads = [
+      { config: settings.header, font: fonts.header, y: marginTop / 2 },
+      { config: settings.footer, font: fonts.footer, y: footerY },
+    ];
+    for (const { config, font, y: headY } of heads) {
+      const text = getRunningHeadText(config, isVerso, {
+        bookTitle: settings.title,
+        author: settings.author,
+        chapterTitle: layoutPage.chapterTitle,
+        subChapterTitle: layoutPage.subChapterTitle,
+        page: layoutPage.label,
+      });
+      if (!text) continue;
+
+      const spec = fontSpec(font);
+      const align = getRunningHeadAlignment(font.alignment === 'justify' ? 'center' : font.alignment, config, isVerso);
+      const [line] = wrapText(measure, text, spec, contentWidth);
+      addText(line, alignedX(align, measure(line, spec), marginLeft, contentWidth), headY, spec);
+    }
+  }
+
+  // Versos keep the outside margin on the left and the inside one, with the
+  // gutter, on the right
+  const versoShift = (mirrored ? marginRight : settings.margins.left * 10) - marginLeft;
+  if (versoShift !== 0) {
+    for (const layoutPage of pages) {
+      if (layoutPage.side === 'verso') layoutPage.boxes = layoutPage.boxes.map((box) => shiftBox(box, versoShift));
+    }
+    for (const link of links) {
+      if (sideOf(link.page) === 'verso') link.x += versoShift;
+    }
+  }
+
+  return { pageWidth, pageHeight, gutter, pages, pageLabels, destinations, links, outline };
+}
+
+function mirrorAlignment(alignment: 'left' | 'center' | 'right') {
+  return alignment === 'left' ? 'right' : alignment === 'right' ? 'left' : alignment;
+}
+
+// Full-page images stay put, they are not placed against the margins
+function shiftBox(box: LayoutBox, dx: number): LayoutBox {
+  if (box.type === 'line') return { ...box, x1: box.x1 + dx, x2: box.x2 + dx };
+  if (box.type === 'image' && box.bleed) return box;
+  return { ...box, x: box.x + dx };
+}
+
+// Lays the book out until the TOC's page labels agree with the pages they point to
+export function layoutBookWithToc(
+  bookChapters: Chapter[],
+  settings: EbookSettings,
+  measure: TextMeasurer,
+  images: Map<string, ImageSize>,
+  coverPages: number
+): BookLayout {
+  const notes = collectNotes(bookChapters, settings);
+  const chapters = withEndnotesChapter(bookChapters, notes, settings.language);
+  let layout = layoutBook(chapters, settings, measure, images, notes, null, coverPages);
+  if (chapters.some(ch => ch.type === 'toc')) {
+    for (let pass = 1; pass < MAX_TOC_PASSES; pass++) {
+      const next = layoutBook(chapters, settings, measure, images, notes, layout.pageLabels, coverPages);
+      const isStable = samePageLabels(layout.pageLabels, next.pageLabels);
+      layout = next;
+      if (isStable) break;
+    }
+  }
+  return layout;
+}
@@ -0,0 +1,73 @@
+import { jsPDF } from 'jspdf';
+import type { Chapter, CustomFont, EbookSettings } from '../types';
+import { loadPdfFontData, registerPdfFonts } from './customFonts';
+import type { PdfFontData } from './customFonts';
+import type { TextMeasurer } from './layout';
+
+// Loaded once per layout and shared by every TOC pass
+export type LayoutResources = {
+  images: Map<string, HTMLImageElement>;
+  fonts: PdfFontData;
+};
+
+const imageCache = new Map<string, Promise<HTMLImageElement>>();
+
+export const loadImage = async (url: string): Promise<HTMLImageElement> => {
+  let pending = imageCache.get(url);
+  if (!pending) {
+    pending = new Promise((resolve, reject) => {
+      const img = new Image();
+      img.crossOrigin = 'Anonymous';
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('Failed to load image'));
+      img.src = url;
+    });
+    imageCache.set(url, pending);
+    pending.catch(() => imageCache.delete(url));
+  }
+  return pending;
+};
+
+// Decoded images are kept for the open book only; nothing in another book or in
+// its history can refer to them
+export function clearImageCache() {
+  imageCache.clear();
+}
+
+// An image that fails to load is left out of the layout rather than failing it
+export async function loadLayoutResources(chapters: Chapter[], settings: EbookSettings): Promise<LayoutResources> {
+  const images = new Map<string, HTMLImageElement>();
+  await Promise.all(
+    chapters.flatMap(chapter => chapter.images).map(async image => {
+      try {
+        images.set(image.url, await loadImage(image.url));
+      } catch (err) {
+        console.error(`Error loading image ${image.url}:`, err);
+      }
+    })
+  );
+
+  return { images, fonts: await loadPdfFontData(settings.customFonts) };
+}
+
+// Measures with jsPDF's own font metrics, so the layout matches the PDF exactly
+export function createPdfMeasurer(doc: jsPDF): TextMeasurer {
+  return (text, font) => {
+    doc.setFont(font.family, font.style);
+    doc.setFontSize(font.size);
+    return doc.getTextWidth(text);
+  };
+}
+
+let measuringDoc: { fonts: CustomFont[]; doc: jsPDF } | null = null;
+
+// The preview lays out on every edit; the document only holds font metrics, so
+// it is rebuilt only when the custom fonts change
+export function createMeasuringDoc(customFonts: CustomFont[], fonts: PdfFontData): jsPDF {
+  if (measuringDoc?.fonts !== customFonts) {
+    const doc = new jsPDF({ unit: 'mm' });
+    registerPdfFonts(doc, customFonts, fonts);
+    measuringDoc = { fonts: customFonts, doc };
+  }
+  return measuringDoc.doc;
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { inlineText, parseInline, parseMarkdownAst } from './markdownAst';
+
+describe('parseInline', () => {
+  it('nests emphasis, strong, strikethrough and code', () => {
+    expect(parseInline('a **b *c*** ~~d~~ `e*f`')).toEqual([
+      { type: 'text', value: 'a ' },
+      {
+        type: 'strong',
+        children: [
+          { type: 'text', value: 'b ' },
+          { type: 'emphasis', children: [{ type: 'text', value: 'c' }] },
+        ],
+      },
+      { type: 'text', value: ' ' },
+      { type: 'delete', children: [{ type: 'text', value: 'd' }] },
+      { type: 'text', value: ' ' },
+      { type: 'inlineCode', value: 'e*f' },
+    ]);
+  });
+
+  it('reads links and footnote references', () => {
+    expect(parseInline('see [the *map*](#map)[^1]')).toEqual([
+      { type: 'text', value: 'see ' },
+      {
+        type: 'link',
+        href: '#map',
+        children: [
+          { type: 'text', value: 'the ' },
+          { type: 'emphasis', children: [{ type: 'text', value: 'map' }] },
+        ],
+      },
+      { type: 'footnoteReference', label: '1' },
+    ]);
+  });
+
+  it('keeps escaped markers and underscores inside words as text', () => {
+    expect(parseInline('snake_case_name and \\*stars\\*')).toEqual([
+      { type: 'text', value: 'snake_case_name and *stars*' },
+    ]);
+    expect(parseInline('\\> 1\\. \\+ \\#')).toEqual([{ type: 'text', value: '> 1. + #' }]);
+  });
+
+  it('leaves unclosed markers as text', () => {
+    expect(parseInline('2 * 3 and **open')).toEqual([{ type: 'text', value: '2 * 3 and **open' }]);
+  });
+});
+
+describe('parseMarkdownAst', () => {
+  it('gives headings a slug id from their text', () => {
+    const [heading] = parseMarkdownAst('## Hello, *World*!');
+    expect(heading).toMatchObject({ type: 'heading', level: 2, id: 'hello-world' });
+    expect(heading.type === 'heading' && inlineText(heading.children)).toBe('Hello, World!');
+  });
+
+  it('nests indented lists under the item above', () => {
+    const [list] = parseMarkdownAst('1. one\n  - inner\n2. two');
+    expect(list).toMatchObject({
+      type: 'list',
+      ordered: true,
+      start: 1,
+      items: [
+        {
+          children: [{ type: 'text', value: 'one' }],
+          sublists: [{ type: 'list', ordered: false, items: [{ children: [{ type: 'text', value: 'inner' }] }] }],
+        },
+        { children: [{ type: 'text', value: 'two' }], sublists: [] },
+      ],
+    });
+  });
+
+  it('reads pipe tables with column alignment', () => {
+    const [table] = parseMarkdownAst('| A | B |\n|:--|--:|\n| 1 | 2 |');
+    expect(table).toEqual({
+      type: 'table',
+      align: ['left', 'right'],
+      header: [[{ type: 'text', value: 'A' }], [{ type: 'text', value: 'B' }]],
+      rows: [[[{ type: 'text', value: '1' }], [{ type: 'text', value: '2' }]]],
+    });
+  });
+
+  it('tells scene breaks from rules', () => {
+    expect(parseMarkdownAst('***\n\n---').map((block) => block.type)).toEqual(['sceneBreak', 'thematicBreak']);
+  });
+
+  it('parses quotes as markdown and keeps code verbatim', () => {
+    expect(parseMarkdownAst('> **quoted**\n\n```js\nconst a = *b*;\n```')).toEqual([
+      {
+        type: 'blockquote',
+        children: [
+          { type: 'paragraph', indent: 0, children: [{ type: 'strong', children: [{ type: 'text', value: 'quoted' }] }] },
+        ],
+      },
+      { type: 'code', lang: 'js', value: 'const a = *b*;' },
+    ]);
+  });
+
+  it('reads footnote definitions on their own line', () => {
+    expect(parseMarkdownAst('[^note]: The *source*.')).toEqual([
+      {
+        type: 'footnoteDefinition',
+        label: 'note',
+        children: [
+          { type: 'text', value: 'The ' },
+          { type: 'emphasis', children: [{ type: 'text', value: 'source' }] },
+          { type: 'text', value: '.' },
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,434 @@
+import { slugify } from './pdfLinks';
+
+// The one markdown parser. The HTML renderer (markdownParser.ts) and the page
+// layout (pdfMarkdownParser.ts) both walk this tree, so they agree on what the
+// text means and differ only in how it is drawn.
+
+export type TextNode = { type: 'text'; value: string };
+export type InlineCodeNode = { type: 'inlineCode'; value: string };
+export type StrongNode = { type: 'strong'; children: InlineNode[] };
+export type EmphasisNode = { type: 'emphasis'; children: InlineNode[] };
+export type DeleteNode = { type: 'delete'; children: InlineNode[] };
+export type LinkNode = { type: 'link'; href: string; children: InlineNode[] };
+// `[^label]`, numbered and resolved per book by footnotes.ts
+export type FootnoteReferenceNode = { type: 'footnoteReference'; label: string };
+
+export type InlineNode =
+  | TextNode
+  | InlineCodeNode
+  | StrongNode
+  | EmphasisNode
+  | DeleteNode
+  | LinkNode
+  | FootnoteReferenceNode;
+
+// `indent` counts two-space steps of leading whitespace in the source line
+export type HeadingNode = {
+  type: 'heading';
+  level: 1 | 2 | 3 | 4 | 5 | 6;
+  id: string;
+  indent: number;
+  children: InlineNode[];
+};
+
+export type ParagraphNode = { type: 'paragraph'; indent: number; children: InlineNode[] };
+
+// Lists indented under an item are nested in it
+export type ListItemNode = { type: 'listItem'; indent: number; children: InlineNode[]; sublists: ListNode[] };
+
+export type ListNode = {
+  type: 'list';
+  ordered: boolean;
+  start: number;
+  indent: number;
+  items: ListItemNode[];
+};
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+// GFM pipe table; every row has one cell per column
+export type TableNode = {
+  type: 'table';
+  align: TableAlign[];
+  header: InlineNode[][];
+  rows: InlineNode[][][];
+};
+
+// `[^label]: text` on a line of its own
+export type FootnoteDefinitionNode = { type: 'footnoteDefinition'; label: string; children: InlineNode[] };
+
+// `> text`; the quoted lines are parsed as markdown of their own
+export type BlockquoteNode = { type: 'blockquote'; children: BlockNode[] };
+
+// Fenced with ``` or ~~~, kept verbatim
+export type CodeNode = { type: 'code'; lang: string | null; value: string };
+
+// `---` or `___`, drawn as a rule
+export type ThematicBreakNode = { type: 'thematicBreak' };
+
+// `***`, drawn as the scene break ornament
+export type SceneBreakNode = { type: 'sceneBreak' };
+
+export type BlockNode =
+  | HeadingNode
+  | ParagraphNode
+  | ListNode
+  | TableNode
+  | FootnoteDefinitionNode
+  | BlockquoteNode
+  | CodeNode
+  | ThematicBreakNode
+  | SceneBreakNode;
+
+const LINK_PATTERN = /^\[([^\]]+)\]\(([^)\s]+)\)/;
+const FOOTNOTE_REFERENCE_PATTERN = /^\[\^([^\]\s]+)\]/;
+const FOOTNOTE_DEFINITION_PATTERN = /^\[\^([^\]\s]+)\]:\s*(.*)$/;
+const DELIMITERS: { marker: string; type: 'strong' | 'emphasis' | 'delete' }[] = [
+  { marker: '**', type: 'strong' },
+  { marker: '__', type: 'strong' },
+  { marker: '~~', type: 'delete' },
+  { marker: '*', type: 'emphasis' },
+  { marker: '_', type: 'emphasis' },
+];
+
+const TABLE_DELIMITER_PATTERN = /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/;
+const FENCE_PATTERN = /^(`{3,}|~{3,})\s*([^`\s]*)/;
+const SCENE_BREAK_PATTERN = /^(?:\*\s*){3,}$/;
+const THEMATIC_BREAK_PATTERN = /^(?:(?:-\s*){3,}|(?:_\s*){3,})$/;
+const BLOCKQUOTE_PATTERN = /^\s*>\s?/;
+
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}]/u.test(char);
+
+// Finds the delimiter closing one opened just before `from`. A closing run longer
+// than the delimiter closes with its last characters, so `***a***` nests.
+function findClosing(text: string, from: number, marker: string): number {
+  const char = marker[0];
+  let i = from;
+  while (i < text.length) {
+    if (text[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (text[i] === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end !== -1) {
+        i = end + 1;
+        continue;
+      }
+    }
+    if (text[i] !== char) {
+      i++;
+      continue;
+    }
+
+    let run = 0;
+    while (text[i + run] === char) run++;
+    const closesHere = run >= marker.length &&
+      i > from &&
+      !/\s/.test(text[i - 1]) &&
+      (char !== '_' || !isWordChar(text[i + run]));
+    if (closesHere && (marker.length > 1 || run !== 2)) {
+      return i + run - marker.length;
+    }
+    i += run;
+  }
+  return -1;
+}
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', value: buffer });
+      buffer = '';
+    }
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && i + 1 < text.length && /[\\`*_~[\]()#>.+-]/.test(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: 'inlineCode', value: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '[' && text[i + 1] === '^') {
+      const match = text.slice(i).match(FOOTNOTE_REFERENCE_PATTERN);
+      if (match) {
+        flush();
+        nodes.push({ type: 'footnoteReference', label: match[1] });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const match = text.slice(i).match(LINK_PATTERN);
+      if (match) {
+        flush();
+        nodes.push({ type: 'link', href: match[2], children: parseInline(match[1]) });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    const delimiter = DELIMITERS.find(({ marker }) => text.startsWith(marker, i));
+    // `_` inside a word (snake_case) is text, not emphasis
+    const canOpen = delimiter &&
+      !/\s/.test(text[i + delimiter.marker.length] ?? ' ') &&
+      (char !== '_' || !isWordChar(text[i - 1]));
+    if (delimiter && canOpen) {
+      const close = findClosing(text, i + delimiter.marker.length, delimiter.marker);
+      if (close !== -1) {
+        flush();
+        nodes.push({
+          type: delimiter.type,
+          children: parseInline(text.slice(i + delimiter.marker.length, close)),
+        });
+        i = close + delimiter.marker.length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+// Plain text of inline nodes, as used for heading ids and outlines
+export function inlineText(nodes: InlineNode[]): string {
+  return nodes.map(node => {
+    if (node.type === 'text' || node.type === 'inlineCode') return node.value;
+    if (node.type === 'footnoteReference') return '';
+    return inlineText(node.children);
+  }).join('');
+}
+
+// Links a book may carry: web and mail addresses and anchors within the book;
+// other schemes (javascript:, data:, file:) are kept as plain text
+export function isSafeHref(href: string): boolean {
+  return href.startsWith('#') || /^(https?|mailto):/i.test(href);
+}
+
+// Needs a pipe, so a lone `---` is never taken for one
+function isTableDelimiter(line: string) {
+  const trimmed = line.trim();
+  return trimmed.includes('|') && TABLE_DELIMITER_PATTERN.test(trimmed);
+}
+
+// Splits a table row on pipes that are not escaped or inside a code span
+function splitTableRow(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let inCode = false;
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+
+  for (let i = 0; i < trimmed.length; i++) {
+    const char = trimmed[i];
+    if (char === '\\' && trimmed[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (char === '|' && !inCode) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      if (char === '`') inCode = !inCode;
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function parseTableAlign(cell: string): TableAlign {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+}
+
+// Parses the table starting at lines[start] if there is one, returning it and
+// the index of the first line after it
+function parseTable(lines: string[], start: number): { table: TableNode; end: number } | null {
+  const headerLine = lines[start];
+  const delimiterLine = lines[start + 1];
+  if (!headerLine.includes('|') || delimiterLine === undefined || !isTableDelimiter(delimiterLine)) {
+    return null;
+  }
+
+  const header = splitTableRow(headerLine);
+  const align = splitTableRow(delimiterLine).map(parseTableAlign);
+  if (header.length !== align.length) return null;
+
+  const toCells = (cells: string[]) =>
+    align.map((_, column) => parseInline(cells[column] ?? ''));
+
+  const rows: InlineNode[][][] = [];
+  let end = start + 2;
+  while (end < lines.length && lines[end].trim() && lines[end].includes('|')) {
+    rows.push(toCells(splitTableRow(lines[end])));
+    end++;
+  }
+
+  return { table: { type: 'table', align, header: toCells(header), rows }, end };
+}
+
+function leadingSpaces(line: string) {
+  return line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+}
+
+// Parses the fenced code block starting at lines[start], up to its closing
+// fence or the end of the text
+function parseCode(lines: string[], start: number): { code: CodeNode; end: number } | null {
+  const match = lines[start].trim().match(FENCE_PATTERN);
+  if (!match) return null;
+
+  const fence = match[1];
+  const fenceIndent = leadingSpaces(lines[start]);
+  const closing = new RegExp(`^${fence[0] === '`' ? '`' : '~'}{${fence.length},}\\s*$`);
+  const body: string[] = [];
+  let end = start + 1;
+  while (end < lines.length && !closing.test(lines[end].trim())) {
+    // Indentation up to the fence's own is not part of the code
+    body.push(lines[end].replace(new RegExp(`^ {0,${fenceIndent}}`), ''));
+    end++;
+  }
+
+  return { code: { type: 'code', lang: match[2] || null, value: body.join('\n') }, end: end + 1 };
+}
+
+// Adds a list item, nesting it under the previous item when it is indented
+// deeper and closing nested lists when it is not
+function addListItem(blocks: BlockNode[], openLists: ListNode[], item: ListItemNode, ordered: boolean, start: number) {
+  while (openLists.length > 0 && openLists[openLists.length - 1].indent > item.indent) {
+    openLists.pop();
+  }
+
+  let list = openLists[openLists.length - 1];
+  if (list && list.indent === item.indent && list.ordered !== ordered) {
+    openLists.pop();
+    list = openLists[openLists.length - 1];
+  }
+
+  if (!list || list.indent !== item.indent) {
+    const created: ListNode = { type: 'list', ordered, start, indent: item.indent, items: [] };
+    if (list) {
+      list.items[list.items.length - 1].sublists.push(created);
+    } else {
+      blocks.push(created);
+    }
+    openLists.push(created);
+    list = created;
+  }
+
+  list.items.push(item);
+}
+
+export function parseMarkdownAst(markdown: string): BlockNode[] {
+  if (!markdown) return [];
+
+  const blocks: BlockNode[] = [];
+  // The list being added to, preceded by the lists it is nested in
+  let openLists: ListNode[] = [];
+  const lines = markdown.split('\n');
+
+  for (let index = 0; index < lines.length; index++) {
+    const rawLine = lines[index];
+    const indent = Math.floor(leadingSpaces(rawLine) / 2);
+    const line = rawLine.trim();
+
+    if (!line) {
+      openLists = [];
+      continue;
+    }
+
+    const listMatch = line.match(/^(?:(\d+)\.|[-*+])\s+(.+)$/);
+    if (!listMatch || SCENE_BREAK_PATTERN.test(line) || THEMATIC_BREAK_PATTERN.test(line)) {
+      openLists = [];
+    }
+
+    const code = parseCode(lines, index);
+    if (code) {
+      blocks.push(code.code);
+      index = code.end - 1;
+      continue;
+    }
+
+    if (BLOCKQUOTE_PATTERN.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && BLOCKQUOTE_PATTERN.test(lines[index])) {
+        quoted.push(lines[index].replace(BLOCKQUOTE_PATTERN, ''));
+        index++;
+      }
+      index--;
+      blocks.push({ type: 'blockquote', children: parseMarkdownAst(quoted.join('\n')) });
+      continue;
+    }
+
+    if (SCENE_BREAK_PATTERN.test(line)) {
+      blocks.push({ type: 'sceneBreak' });
+      continue;
+    }
+
+    if (THEMATIC_BREAK_PATTERN.test(line)) {
+      blocks.push({ type: 'thematicBreak' });
+      continue;
+    }
+
+    const table = parseTable(lines, index);
+    if (table) {
+      blocks.push(table.table);
+      index = table.end - 1;
+      continue;
+    }
+
+    const footnoteMatch = line.match(FOOTNOTE_DEFINITION_PATTERN);
+    if (footnoteMatch) {
+      blocks.push({ type: 'footnoteDefinition', label: footnoteMatch[1], children: parseInline(footnoteMatch[2]) });
+      continue;
+    }
+
+    const headerMatch = line.match(/^(#{1,6})\s+(.+)$/);
+    if (headerMatch) {
+      const children = parseInline(headerMatch[2]);
+      blocks.push({
+        type: 'heading',
+        level: headerMatch[1].length as HeadingNode['level'],
+        id: slugify(inlineText(children)),
+        indent,
+        children,
+      });
+      continue;
+    }
+
+    if (listMatch) {
+      const ordered = listMatch[1] !== undefined;
+      const item: ListItemNode = { type: 'listItem', indent, children: parseInline(listMatch[2]), sublists: [] };
+      addListItem(blocks, openLists, item, ordered, ordered ? Number(listMatch[1]) : 1);
+      continue;
+    }
+
+    blocks.push({ type: 'paragraph', indent, children: parseInline(line) });
+  }
+
+  return blocks;
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { parseMarkdown } from './markdownParser';
+
+describe('parseMarkdown', () => {
+  it('renders headings with their ids and inline formatting', () => {
+    expect(parseMarkdown('# Hello *World*')).toBe('<h1 id="hello-world">Hello <em>World</em></h1>');
+    expect(parseMarkdown('A **b** `c` [d](#e)')).toContain('A <strong>b</strong> <code>c</code> <a href="#e">d</a>');
+  });
+
+  it('keeps links with other schemes as plain text', () => {
+    expect(parseMarkdown('[web](https://example.com) [mail](mailto:a@b.c)')).toContain(
+      '<a href="https://example.com">web</a> <a href="mailto:a@b.c">mail</a>'
+    );
+    expect(parseMarkdown('[click *me*](javascript:void)')).toContain('>click <em>me</em></p>');
+  });
+
+  it('escapes text and code', () => {
+    expect(parseMarkdown('a < b & "c"')).toContain('a &lt; b &amp; &quot;c&quot;');
+    expect(parseMarkdown('```html\n<p>\n```')).toBe('<pre><code class="language-html">&lt;p&gt;</code></pre>');
+  });
+
+  it('renders tables with their column alignment', () => {
+    expect(parseMarkdown('| A | B |\n|:--|--:|\n| 1 | 2 |')).toBe(
+      '<table><thead><tr><th style="text-align: left;">A</th><th style="text-align: right;">B</th></tr></thead>' +
+        '<tbody><tr><td style="text-align: left;">1</td><td style="text-align: right;">2</td></tr></tbody></table>'
+    );
+  });
+
+  it('renders scene breaks apart from rules and leaves out footnote definitions', () => {
+    expect(parseMarkdown('***\n\n---\n\n[^1]: note')).toBe('<hr class="scene-break"/><hr/>');
+  });
+
+  it('keeps unknown footnote references as written', () => {
+    expect(parseMarkdown('text[^1]')).toContain('text[^1]');
+  });
+});
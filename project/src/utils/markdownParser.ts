@@ -1,199 +1,106 @@
 import { useMemo } from 'react';
-
-interface ParserState {
-  currentHeadingLevel: number;
-  currentListLevel: number;
-  inOrderedList: boolean;
-  inUnorderedList: boolean;
-  orderedListCounter: number;
-}
-
-const initialParserState: ParserState = {
-  currentHeadingLevel: 0,
-  currentListLevel: 0,
-  inOrderedList: false,
-  inUnorderedList: false,
-  orderedListCounter: 1,
-};
-
-function formatInlineMarkdown(text: string): string {
-  let result = text;
-  
-  result = result.replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>');
-  result = result.replace(/\*([^*]+)\*/g, '<em>$1</em>');
-  result = result.replace(/__([^_]+)__/g, '<strong>$1</strong>');
-  result = result.replace(/_([^_]+)_/g, '<em>$1</em>');
-  result = result.replace(/`([^`]+)`/g, '<code>$1</code>');
-  result = result.replace(/~~([^~]+)~~/g, '<del>$1</del>');
-  result = result.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2">$1</a>');
-  
-  return result;
+import { isSafeHref, parseMarkdownAst } from './markdownAst';
+import type { BlockNode, InlineNode, ListNode, TableAlign } from './markdownAst';
+import type { ChapterNotes, Note } from './footnotes';
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
 }
 
-function addIndent(level: number): string {
-  return level > 0 ? ` style="margin-left: ${level * 2}em;"` : '';
+function addIndent(level: number, style = ''): string {
+  const rules = [level > 0 ? `margin-left: ${level * 2}em;` : '', style].filter(Boolean).join(' ');
+  return rules ? ` style="${rules}"` : '';
 }
 
-function formatTableOfContents(text: string): string {
-  const lines = text.split('\n');
-  let html = '<div class="table-of-contents">';
-  
-  lines.forEach(line => {
-    const trimmedLine = line.trim();
-    if (!trimmedLine) return;
-
-    // Extract page number from the end of the line
-    const pageMatch = trimmedLine.match(/(?:Halaman\s*)?(\d+|[ivxlcdm]+)$/i);
-    const pageNumber = pageMatch ? pageMatch[1] : '';
-    
-    // Remove page number from the content
-    let content = pageMatch ? trimmedLine.slice(0, pageMatch.index).trim() : trimmedLine;
-    content = content.replace(/Halaman\s*$/, '').trim();
-
-    // Match different types of content
-    if (content.toLowerCase().startsWith('kata pengantar')) {
-      html += `<div class="toc-frontmatter"${addIndent(0)}>
-        <span class="toc-title">Kata Pengantar</span>
-        <span class="toc-dots"></span>
-        <span class="toc-page">${pageNumber}</span>
-      </div>`;
-    } else if (content.match(/^Bab\s+\d+/i)) {
-      const [chapter, ...titleParts] = content.split(/\s+(.+)/);
-      const title = titleParts.join(' ').trim();
-      html += `<div class="toc-chapter"${addIndent(0)}>
-        <span class="toc-number">${chapter}</span>
-        <span class="toc-title">${title}</span>
-        <span class="toc-dots"></span>
-        <span class="toc-page">${pageNumber}</span>
-      </div>`;
-    } else if (content.match(/^\d+\.\d+/)) {
-      const [number, ...titleParts] = content.split(/\s+(.+)/);
-      const title = titleParts.join(' ').trim();
-      html += `<div class="toc-subchapter"${addIndent(2)}>
-        <span class="toc-number">${number}</span>
-        <span class="toc-title">${title}</span>
-        <span class="toc-dots"></span>
-        <span class="toc-page">${pageNumber}</span>
-      </div>`;
-    } else {
-      html += `<div class="toc-item"${addIndent(0)}>
-        <span class="toc-title">${content}</span>
-        ${pageNumber ? `
-          <span class="toc-dots"></span>
-          <span class="toc-page">${pageNumber}</span>
-        ` : ''}
-      </div>`;
+export function renderInlineHtml(nodes: InlineNode[], notes?: ChapterNotes): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return escapeHtml(node.value);
+      case 'inlineCode':
+        return `<code>${escapeHtml(node.value)}</code>`;
+      case 'strong':
+        return `<strong>${renderInlineHtml(node.children, notes)}</strong>`;
+      case 'emphasis':
+        return `<em>${renderInlineHtml(node.children, notes)}</em>`;
+      case 'delete':
+        return `<del>${renderInlineHtml(node.children, notes)}</del>`;
+      case 'link':
+        if (!isSafeHref(node.href)) return renderInlineHtml(node.children, notes);
+        return `<a href="${escapeHtml(node.href)}">${renderInlineHtml(node.children, notes)}</a>`;
+      case 'footnoteReference': {
+        const note = notes?.get(node.label);
+        if (!note) return escapeHtml(`[^${node.label}]`);
+        return `<sup class="noteref"><a id="${note.referenceId}" href="#${note.id}" epub:type="noteref">${note.number}</a></sup>`;
+      }
     }
-  });
-
-  html += '</div>';
-  return html;
+  }).join('');
 }
 
-function wrapText(text: string, maxWidth: number = 80): string {
-  const words = text.split(' ');
-  const lines: string[] = [];
-  let currentLine = '';
-
-  words.forEach(word => {
-    if (currentLine.length + word.length + 1 <= maxWidth) {
-      currentLine += (currentLine ? ' ' : '') + word;
-    } else {
-      lines.push(currentLine);
-      currentLine = word;
-    }
+function renderTableRow(cells: InlineNode[][], align: TableAlign[], tag: 'th' | 'td', notes?: ChapterNotes): string {
+  const rendered = cells.map((cell, column) => {
+    const style = align[column] ? ` style="text-align: ${align[column]};"` : '';
+    return `<${tag}${style}>${renderInlineHtml(cell, notes)}</${tag}>`;
   });
-
-  if (currentLine) {
-    lines.push(currentLine);
-  }
-
-  return lines.join('\n');
+  return `<tr>${rendered.join('')}</tr>`;
 }
 
-export function parseMarkdown(markdown: string): string {
-  if (!markdown) return '';
-  
-  markdown = markdown.replace(/---/g, '\n');
-  markdown = markdown.replace(/\n{2,}/g, '\n');
-  
-  // Check if this is a table of contents
-  if (markdown.includes('Halaman') && 
-      (markdown.includes('Bab') || markdown.includes('Kata Pengantar'))) {
-    return formatTableOfContents(markdown);
-  }
-  
-  const lines = markdown.split('\n');
-  let html = '';
-  let currentListItems: string[] = [];
-  let listLevel = 0;
-  let inOrderedList = false;
-  let inUnorderedList = false;
-  let orderedListCounter = 1;
-
-  function closeList() {
-    if (currentListItems.length > 0) {
-      const listTag = inOrderedList ? 'ol' : 'ul';
-      html += `<${listTag}${addIndent(listLevel)}>${currentListItems.join('')}</${listTag}>`;
-      currentListItems = [];
-      inOrderedList = false;
-      inUnorderedList = false;
-      orderedListCounter = 1;
-    }
-  }
-
-  for (let i = 0; i < lines.length; i++) {
-    let line = lines[i];
-    const indentLevel = Math.floor((line.match(/^\s*/)?.[0].length || 0) / 2);
-    line = line.trim();
-    
-    if (!line) {
-      closeList();
-      continue;
-    }
-
-    const headerMatch = line.match(/^(#{1,6})\s+(.+)$/);
-    if (headerMatch) {
-      closeList();
-      const level = headerMatch[1].length;
-      const content = formatInlineMarkdown(headerMatch[2]);
-      html += `<h${level}${addIndent(indentLevel)}>${content}</h${level}>`;
-      continue;
-    }
+// Nested lists sit inside their item and are indented by it
+function renderListHtml(list: ListNode, notes: ChapterNotes | undefined, nested: boolean): string {
+  const tag = list.ordered ? 'ol' : 'ul';
+  const start = list.ordered && list.start !== 1 ? ` start="${list.start}"` : '';
+  const items = list.items.map(item => {
+    const sublists = item.sublists.map(sublist => renderListHtml(sublist, notes, true)).join('');
+    return `<li${addIndent(1)}>${renderInlineHtml(item.children, notes)}${sublists}</li>`;
+  }).join('');
+  return `<${tag}${start}${nested ? '' : addIndent(list.indent)}>${items}</${tag}>`;
+}
 
-    const orderedListMatch = line.match(/^(\d+)\.\s+(.+)$/);
-    if (orderedListMatch) {
-      const content = formatInlineMarkdown(orderedListMatch[2]);
-      if (!inOrderedList) {
-        closeList();
-        inOrderedList = true;
-        listLevel = indentLevel;
+export function renderBlocksHtml(blocks: BlockNode[], notes?: ChapterNotes): string {
+  return blocks.map(block => {
+    switch (block.type) {
+      case 'heading':
+        return `<h${block.level} id="${block.id}"${addIndent(block.indent)}>${renderInlineHtml(block.children, notes)}</h${block.level}>`;
+      case 'list':
+        return renderListHtml(block, notes, false);
+      case 'table': {
+        const body = block.rows.map(row => renderTableRow(row, block.align, 'td', notes)).join('');
+        return `<table><thead>${renderTableRow(block.header, block.align, 'th', notes)}</thead><tbody>${body}</tbody></table>`;
       }
-      currentListItems.push(`<li${addIndent(1)}>${content}</li>`);
-      continue;
-    }
-
-    const unorderedListMatch = line.match(/^[-*]\s+(.+)$/);
-    if (unorderedListMatch) {
-      const content = formatInlineMarkdown(unorderedListMatch[1]);
-      if (!inUnorderedList) {
-        closeList();
-        inUnorderedList = true;
-        listLevel = indentLevel;
+      case 'blockquote':
+        return `<blockquote>${renderBlocksHtml(block.children, notes)}</blockquote>`;
+      case 'code': {
+        const lang = block.lang ? ` class="language-${escapeHtml(block.lang)}"` : '';
+        return `<pre><code${lang}>${escapeHtml(block.value)}</code></pre>`;
       }
-      currentListItems.push(`<li${addIndent(1)}>${content}</li>`);
-      continue;
+      case 'thematicBreak':
+        return '<hr/>';
+      case 'sceneBreak':
+        // The ornament comes from the stylesheet, which knows the book settings
+        return '<hr class="scene-break"/>';
+      case 'footnoteDefinition':
+        // Drawn with the chapter's notes, see renderNotesHtml
+        return '';
+      case 'paragraph':
+        return `<p${addIndent(block.indent, 'text-indent: 0.25em;')}>${renderInlineHtml(block.children, notes)}</p>`;
     }
+  }).join('');
+}
 
-    closeList();
-    const content = formatInlineMarkdown(line);
-    html += `<p${addIndent(indentLevel)} style="text-indent: 0.25em;">${content}</p>`;
-  }
+export function parseMarkdown(markdown: string, notes?: ChapterNotes): string {
+  return renderBlocksHtml(parseMarkdownAst(markdown), notes);
+}
 
-  closeList();
-  return html;
+// Each note links back to where it is first referenced
+export function renderNotesHtml(notes: Note[], type: 'footnote' | 'endnote'): string {
+  const items = notes.map(note => `<li id="${note.id}" epub:type="${type}"><a href="#${note.referenceId}">${note.number}.</a> ${renderInlineHtml(note.children)}</li>`);
+  return `<ol class="notes">${items.join('')}</ol>`;
 }
 
 export function useMarkdownParser(markdown: string): string {
   return useMemo(() => parseMarkdown(markdown), [markdown]);
-}
\ No newline at end of file
+}
@@ -0,0 +1,749 @@
+import type { BookSection, Chapter, ChapterStart, FontAlignment, Language, PageOrientation, PdfProfile, TocLeader } from '../types';
+import type { DocxSectionMapping } from './docxImport';
+
+// Strings of the editor itself, in the interface language the user picked.
+// Text that ends up in the book comes from bookText instead.
+
+// Each language by its own name, so it can be found whatever is selected
+export const languageNames: Record<Language, string> = {
+  id: 'Bahasa Indonesia',
+  en: 'English',
+};
+
+type FontRole =
+  | 'title' | 'subtitle' | 'paragraph' | 'header' | 'footer'
+  | 'frontmatterContent' | 'chapterContent' | 'subchapterContent' | 'backmatterContent';
+
+const id = {
+  cancel: 'Batal',
+  untitled: 'Tanpa judul',
+  chapterTypes: {
+    frontmatter: 'Kata Pengantar',
+    toc: 'Daftar Isi',
+    chapter: 'Bab',
+    backmatter: 'Penutup',
+    subchapter: 'Subbab',
+  } as Record<Chapter['type'] | 'subchapter', string>,
+
+  layout: {
+    settings: 'Pengaturan',
+    chapters: 'Bab',
+    generatePdf: 'Buat PDF',
+    generatePrintPdf: 'Buat PDF siap cetak',
+    generateEpub: 'Buat EPUB',
+  },
+
+  project: {
+    newProject: 'Proyek baru',
+    duplicate: 'Gandakan proyek',
+    delete: 'Hapus proyek',
+    export: 'Ekspor berkas proyek',
+    import: 'Impor berkas proyek',
+    copyOf: (title: string) => `${title} (salinan)`,
+    confirmDelete: (title: string) => `Hapus "${title}"? Tindakan ini tidak dapat dibatalkan.`,
+    exportFailed: 'Gagal mengekspor proyek.',
+    readFailed: 'Berkas proyek tidak dapat dibaca',
+    importFailed: 'Impor gagal. Tidak ada yang diubah.',
+    recovered: (time: string) =>
+      `Editor tidak ditutup dengan benar. Pekerjaan Anda dipulihkan dari simpanan otomatis pukul ${time}.`,
+    loading: 'Memuat...',
+    saving: 'Menyimpan...',
+    saved: 'Tersimpan',
+    savedAt: (time: string) => `Tersimpan ${time}`,
+    error: 'Galat',
+    databaseFailed: 'Basis data proyek tidak dapat dibuka. Perubahan tidak akan disimpan.',
+    openFailed: 'Gagal membuka proyek.',
+    duplicateFailed: 'Gagal menggandakan proyek.',
+    deleteFailed: 'Gagal menghapus proyek.',
+    autosaveFailed: 'Simpan otomatis gagal. Perubahan terakhir Anda belum tersimpan.',
+  },
+
+  preview: {
+    cover: 'Sampul',
+    backCover: 'Sampul belakang',
+    titlePage: 'Judul',
+    pageCount: (count: number) => `${count} halaman`,
+    layingOut: 'Menata halaman...',
+    generating: (format: string) => `Membuat ${format}, mohon tunggu...`,
+    printPdf: 'PDF cetak',
+    pdfFailed: 'Gagal membuat PDF. Silakan coba lagi.',
+    epubFailed: 'Gagal membuat EPUB. Silakan coba lagi.',
+    layoutFailed: 'Gagal menata buku.',
+    singlePages: 'Halaman tunggal',
+    spreads: 'Dua halaman berhadapan',
+    zoomOut: 'Perkecil',
+    zoomIn: 'Perbesar',
+  },
+
+  settings: {
+    basicInfo: 'Informasi Dasar',
+    title: 'Judul',
+    author: 'Penulis',
+    description: 'Deskripsi',
+    frontCover: 'Gambar Sampul Depan',
+    backCover: 'Gambar Sampul Belakang',
+
+    language: 'Bahasa',
+    languageHelp: 'Bahasa buku menentukan label bab, judul bawaan dan angka di PDF dan EPUB. Bahasa antarmuka hanya berlaku untuk editor ini.',
+    bookLanguage: 'Bahasa Buku',
+    interfaceLanguage: 'Bahasa Antarmuka',
+
+    pageSettings: 'Pengaturan Halaman',
+    paperSize: 'Ukuran Kertas',
+    customSize: 'Ukuran khusus',
+    pageWidth: 'Lebar',
+    pageHeight: 'Tinggi',
+    unit: 'Satuan',
+    orientation: 'Orientasi',
+    orientations: { portrait: 'Tegak', landscape: 'Mendatar' } as Record<PageOrientation, string>,
+    margins: {
+      top: 'Margin Atas (cm)',
+      bottom: 'Margin Bawah (cm)',
+      left: 'Margin Kiri (cm)',
+      right: 'Margin Kanan (cm)',
+      inside: 'Margin Dalam (cm)',
+      outside: 'Margin Luar (cm)',
+      gutter: 'Gutter (cm)',
+      mirrored: 'Cerminkan margin pada halaman berhadapan',
+      help: 'Gutter ditambahkan di sisi jilid: kiri halaman ganjil dan kanan halaman genap.',
+    },
+
+    pageNumbering: 'Penomoran Halaman',
+    enablePageNumbering: 'Aktifkan penomoran halaman',
+    position: 'Posisi',
+    alignment: 'Perataan',
+    positions: { top: 'Atas', bottom: 'Bawah' },
+    alignments: { left: 'Kiri', center: 'Tengah', right: 'Kanan', justify: 'Rata kiri-kanan' } as Record<FontAlignment, string>,
+    sections: { frontmatter: 'Bagian Depan', body: 'Isi', backmatter: 'Bagian Belakang' } as Record<BookSection, string>,
+    style: 'Gaya',
+    numbering: 'Penomoran',
+    restart: 'Mulai ulang',
+    continue: 'Lanjutkan',
+    startFrom: 'Mulai Dari',
+    pageNumberNone: 'Tanpa nomor',
+
+    chapterStarts: 'Awal Bab',
+    chapterStartsHelp: 'Bab yang dimulai di halaman kanan didahului halaman kosong tanpa nomor bila perlu. Bab yang bersambung dimulai di bawah bab sebelumnya bila masih muat.',
+    chapterStartOptions: {
+      recto: 'Halaman kanan',
+      any: 'Halaman berikutnya',
+      continue: 'Bersambung di halaman yang sama',
+    } as Record<ChapterStart, string>,
+    chapterTitlePage: 'Halaman judul tersendiri untuk setiap bab (bukan judul di atas teks)',
+
+    toc: 'Daftar Isi',
+    tocHelp: 'Dibuat dari bab dan subbab, dengan nomor halaman dari tata letak PDF akhir.',
+    depth: 'Kedalaman',
+    chaptersOnly: 'Hanya bab',
+    chaptersAndSubChapters: 'Bab dan subbab',
+    leader: 'Garis Penuntun',
+    leaders: { dots: 'Titik ....', dashes: 'Strip ----', underscore: 'Garis ____', none: 'Tidak ada' } as Record<TocLeader, string>,
+    chapterPrefix: 'Awalan Bab',
+    none: 'Tidak ada',
+    numberSubChapters: 'Beri nomor subbab',
+
+    tables: 'Tabel',
+    tablesHelp: 'Tabel yang terpotong antarhalaman mengulang baris judulnya di setiap halaman.',
+    keepTablesTogether: 'Satukan tabel bila muat dalam satu halaman',
+
+    blocks: 'Kutipan, Kode & Jeda',
+    blocksHelp: 'Baris yang diawali > adalah kutipan, ``` mengapit blok kode, --- menggambar garis dan *** jeda adegan.',
+    codeFont: 'Huruf Kode',
+    sceneBreak: 'Ornamen Jeda Adegan',
+    quoteIndent: 'Indentasi Kutipan (mm)',
+    quoteRule: 'Garis di samping kutipan',
+
+    images: 'Gambar',
+    imagesHelp: 'Gambar yang lebih tajam dari resolusi maksimum diperkecil saat ekspor. PDF biasa dan EPUB memakai kualitas layar, PDF siap cetak memakai kualitas cetak.',
+    imageTargets: { screen: 'Layar', print: 'Cetak' } as Record<PdfProfile, string>,
+    maxDpi: 'Resolusi Maks. (dpi)',
+    jpegQuality: 'Kualitas JPEG (%)',
+    minimumDpi: 'Peringatkan di Bawah (dpi)',
+
+    print: 'PDF Siap Cetak',
+    printHelp: 'Hanya isi buku: sampul dicetak dari desain sampul. Gambar penuh halaman dilebarkan melewati garis potong sejauh bleed. Tautan dan bookmark tidak disertakan.',
+    bleed: 'Bleed (mm)',
+    cropMarks: 'Tanda potong',
+    grayscaleImages: 'Ubah gambar menjadi skala abu-abu',
+
+    notes: 'Catatan',
+    notesHelp: 'Tulis [^1] di teks lalu definisikan di baris tersendiri sebagai [^1]: Isi catatan.',
+    placement: 'Penempatan',
+    footnotes: 'Catatan kaki di bawah halaman',
+    endnotes: 'Bab catatan akhir',
+    perChapter: 'Mulai ulang setiap bab',
+    wholeBook: 'Berlanjut sepanjang buku',
+
+    runningHeads: 'Kepala & Kaki Halaman',
+    variables: (list: string) => `Variabel: ${list}.`,
+    runningHeadsHelp: 'Disembunyikan di halaman pembuka bab dan halaman kosong.',
+    enableRunningHead: { header: 'Aktifkan kepala halaman', footer: 'Aktifkan kaki halaman' },
+    alternateEvenOdd: 'Teks berbeda di halaman genap dan ganjil',
+    oddPages: 'Halaman ganjil (recto)',
+    text: 'Teks',
+    evenPages: 'Halaman genap (verso)',
+
+    fontSettings: 'Pengaturan Huruf',
+    fontRoles: {
+      title: 'Huruf judul',
+      subtitle: 'Huruf subjudul',
+      paragraph: 'Huruf paragraf',
+      header: 'Huruf kepala halaman',
+      footer: 'Huruf kaki halaman',
+      frontmatterContent: 'Huruf isi bagian depan',
+      chapterContent: 'Huruf isi bab',
+      subchapterContent: 'Huruf isi subbab',
+      backmatterContent: 'Huruf isi bagian belakang',
+    } as Record<FontRole, string>,
+    family: 'Keluarga',
+    size: 'Ukuran (pt)',
+    lineHeight: 'Tinggi Baris',
+  },
+
+  fonts: {
+    customFonts: 'Huruf Kustom',
+    addFont: 'Tambah Huruf',
+    help: 'Unggah berkas TrueType (.ttf) atau OpenType (.otf), lalu pilih hurufnya berdasarkan nama di Pengaturan Huruf. Gaya yang tidak ada memakai unggahan terdekat.',
+    removeFont: 'Hapus huruf',
+    confirmRemove: (family: string) => `Hapus "${family}"? Teks yang memakainya akan beralih ke Helvetica.`,
+    nameTaken: 'Huruf lain sudah memakai nama ini.',
+    uploaded: 'Terunggah',
+    upload: 'Unggah',
+    readFailed: (fileName: string) => `Gagal membaca ${fileName}.`,
+    cffOutlines: (fileName: string) =>
+      `${fileName} adalah huruf OpenType dengan kontur PostScript (CFF), yang tidak dapat disematkan di PDF. Gunakan berkas .ttf atau .otf berbasis TrueType.`,
+    notAFont: (fileName: string) => `${fileName} bukan berkas huruf TrueType atau OpenType.`,
+  },
+
+  chapters: {
+    heading: 'Daftar Konten',
+    help: 'Kelola konten buku Anda termasuk kata pengantar, daftar isi, bab-bab, dan penutup.',
+    bulkUpload: 'Unggah Folder',
+    importDocx: 'Impor DOCX',
+    docxFailed: (fileName: string) => `${fileName} tidak dapat dibaca sebagai dokumen Word (.docx).`,
+    add: {
+      frontmatter: 'Tambah Kata Pengantar',
+      toc: 'Tambah Daftar Isi',
+      chapter: 'Tambah Bab',
+      backmatter: 'Tambah Penutup',
+    } as Record<Chapter['type'], string>,
+    titlePlaceholder: 'Judul',
+    confirmRemove: (title: string) => `Hapus "${title}" beserta isinya?`,
+    indentation: 'Indentasi (cm)',
+    lineSpacing: 'Jarak Baris',
+    tocHelp: 'Daftar isi dibuat otomatis dari bab dan subbab. Atur tampilannya di Pengaturan.',
+    content: 'Konten',
+    markdownHelp: 'Gunakan markdown: **tebal**, *miring*, # Judul, 1. Daftar bernomor, - Daftar bullet',
+    contentPlaceholder: 'Tulis konten di sini menggunakan markdown...',
+    captionPlaceholder: 'Keterangan gambar...',
+    fullBleed: 'Satu halaman penuh hingga tepi kertas',
+    alignment: 'Perataan',
+    imageAlignments: { left: 'Kiri', center: 'Tengah', right: 'Kanan' },
+    width: 'Lebar (%)',
+    subChapters: 'Subbab',
+    addSubChapter: 'Tambah Subbab',
+    subChapterTitlePlaceholder: 'Judul Subbab',
+    subChapterContentPlaceholder: 'Konten subbab...',
+    addImage: 'Tambah Gambar',
+  },
+
+  docxImport: {
+    heading: (fileName: string) => `Impor ${fileName}`,
+    help: 'Heading 1 menjadi bab dan Heading 2 menjadi subbab. Periksa pembagiannya sebelum diimpor.',
+    mappings: {
+      frontmatter: 'Kata Pengantar',
+      toc: 'Daftar Isi',
+      chapter: 'Bab',
+      subchapter: 'Subbab dari bagian sebelumnya',
+      backmatter: 'Penutup',
+      skip: 'Lewati',
+    } as Record<DocxSectionMapping, string>,
+    warnings: 'Beberapa bagian dokumen tidak dapat dikonversi sepenuhnya:',
+    empty: 'Dokumen ini tidak berisi teks yang dapat diimpor.',
+    imageCount: (count: number) => `${count} gambar`,
+    confirm: (count: number) => `Impor ${count} bagian`,
+  },
+
+  bulkImport: {
+    heading: (folderName: string) => `Unggah Folder ${folderName}`,
+    help: 'Aturan dicoba dari atas ke bawah. Grup bernama title dalam pola menjadi judul.',
+    defaultPreset: 'Bawaan: BAB n - Judul / n.n Subjudul',
+    presetName: 'Nama preset',
+    savePreset: 'Simpan Preset',
+    deletePreset: 'Hapus preset',
+    folder: 'Folder',
+    file: 'Berkas',
+    pattern: 'Pola (regex)',
+    becomes: 'menjadi',
+    addRule: 'Tambah Aturan',
+    dryRun: (imported: number, total: number) => `Hasil uji (${imported} dari ${total} berkas diimpor)`,
+    confirm: (count: number) => `Impor ${count} bagian`,
+    report: {
+      'not-text': 'Dilewati: bukan berkas .txt atau .md',
+      'no-rule': 'Dilewati: tidak ada aturan yang cocok',
+      'no-chapter': 'Dilewati: subbab tanpa bab sebelumnya',
+      intro: (title: string) => `Teks pembuka "${title}"`,
+      subchapter: (title: string, chapter: string) => `Subbab "${title}" dari "${chapter}"`,
+      section: (type: string, title: string) => `${type} "${title}"`,
+    },
+  },
+  images: {
+    unsupported: (fileName: string) => `${fileName} bukan gambar PNG, JPEG, WebP, GIF atau SVG.`,
+    readFailed: (fileName: string) => `Gambar ${fileName} tidak dapat dibaca.`,
+    lowResolution: (dpi: number, minimum: number) =>
+      `Tercetak pada ${dpi} dpi, di bawah ${minimum} dpi. Gunakan gambar yang lebih besar atau perkecil lebarnya.`,
+  },
+
+  history: {
+    undo: 'Urungkan (Ctrl+Z)',
+    redo: 'Ulangi (Ctrl+Shift+Z)',
+    toggle: 'Riwayat perubahan',
+    open: 'Proyek dibuka',
+    addChapter: (title: string) => `Tambah "${title}"`,
+    editChapter: (title: string) => `Ubah "${title}"`,
+    removeChapter: (title: string) => `Hapus "${title}"`,
+    addSubChapter: (title: string) => `Tambah subbab "${title}"`,
+    removeSubChapter: (title: string) => `Hapus subbab "${title}"`,
+    importChapters: (count: number) => `Impor ${count} bagian`,
+    reorder: 'Urutkan ulang bab',
+    settings: 'Ubah pengaturan',
+    restoreSnapshot: (name: string) => `Pulihkan versi "${name}"`,
+    restoreChapter: (title: string, name: string) => `Pulihkan "${title}" dari "${name}"`,
+  },
+
+  snapshots: {
+    open: 'Versi tersimpan',
+    heading: 'Versi',
+    namePlaceholder: 'Nama versi, mis. Draf untuk editor',
+    defaultName: (time: string) => `Versi ${time}`,
+    create: 'Simpan Versi',
+    empty: 'Belum ada versi tersimpan.',
+    restore: 'Pulihkan',
+    confirmRestore: (name: string) => `Ganti buku dengan versi "${name}"? Langkah ini dapat diurungkan.`,
+    delete: 'Hapus versi',
+    confirmDelete: (name: string) => `Hapus versi "${name}"?`,
+    compare: 'Bandingkan',
+    from: 'Dari',
+    to: 'Ke',
+    currentBook: 'Buku saat ini',
+    noChanges: 'Tidak ada perbedaan.',
+    unchanged: (count: number) => `${count} bab tidak berubah`,
+    status: {
+      added: 'Ditambahkan',
+      removed: 'Dihapus',
+      changed: 'Diubah',
+      moved: 'Dipindahkan',
+    },
+    titleChanged: (before: string, after: string) => `Judul: "${before}" menjadi "${after}"`,
+    typeChanged: (before: string, after: string) => `Jenis: ${before} menjadi ${after}`,
+    formatChanged: 'Indentasi atau spasi baris diubah',
+    imagesChanged: 'Gambar diubah',
+    restoreChapter: 'Pulihkan bab ini',
+    settings: 'Pengaturan',
+    file: '(berkas)',
+    listFailed: 'Gagal memuat daftar versi.',
+    createFailed: 'Gagal menyimpan versi.',
+    loadFailed: 'Gagal membuka versi.',
+    deleteFailed: 'Gagal menghapus versi.',
+    close: 'Tutup',
+  },
+
+  cover: {
+    open: 'Rancang sampul lingkar',
+    heading: 'Sampul Lingkar',
+    help: 'Sampul belakang, punggung dan sampul depan dalam satu lembar untuk cetak sesuai permintaan. Lebar punggung mengikuti jumlah halaman, bleed dan tanda potong mengikuti pengaturan PDF siap cetak.',
+    paperThickness: 'Tebal Kertas (mm/lembar)',
+    colors: {
+      background: 'Latar',
+      spineColor: 'Punggung',
+      textColor: 'Teks',
+    },
+    overlays: {
+      frontText: 'Judul dan penulis di depan',
+      spineText: 'Teks punggung',
+      blurb: 'Deskripsi di belakang',
+      barcodeArea: 'Ruang barcode',
+    },
+    showGuides: 'Tampilkan panduan',
+    guides: {
+      trim: 'Garis potong',
+      fold: 'Lipatan punggung',
+      safe: 'Area aman',
+    },
+    spine: (width: string, pages: number) => `Punggung ${width} mm untuk ${pages} halaman`,
+    sheet: (width: string, height: string) => `Lembar ${width} × ${height} mm dengan bleed`,
+    download: 'Unduh PDF Sampul',
+    generating: 'Membuat PDF sampul...',
+    failed: 'Gagal membuat PDF sampul. Silakan coba lagi.',
+    close: 'Tutup',
+  },
+};
+
+export type Messages = typeof id;
+
+const en: Messages = {
+  cancel: 'Cancel',
+  untitled: 'Untitled',
+  chapterTypes: {
+    frontmatter: 'Front matter',
+    toc: 'Table of contents',
+    chapter: 'Chapter',
+    backmatter: 'Back matter',
+    subchapter: 'Sub-chapter',
+  },
+
+  layout: {
+    settings: 'Settings',
+    chapters: 'Chapters',
+    generatePdf: 'Generate PDF',
+    generatePrintPdf: 'Generate print-ready PDF',
+    generateEpub: 'Generate EPUB',
+  },
+
+  project: {
+    newProject: 'New project',
+    duplicate: 'Duplicate project',
+    delete: 'Delete project',
+    export: 'Export project file',
+    import: 'Import project file',
+    copyOf: (title) => `${title} (copy)`,
+    confirmDelete: (title) => `Delete "${title}"? This cannot be undone.`,
+    exportFailed: 'Failed to export project.',
+    readFailed: 'Failed to read project file',
+    importFailed: 'Import failed. Nothing was changed.',
+    recovered: (time) =>
+      `The editor was not closed properly. Your work was restored from the autosave at ${time}.`,
+    loading: 'Loading...',
+    saving: 'Saving...',
+    saved: 'Saved',
+    savedAt: (time) => `Saved ${time}`,
+    error: 'Error',
+    databaseFailed: 'Could not open the project database. Changes will not be saved.',
+    openFailed: 'Failed to open project.',
+    duplicateFailed: 'Failed to duplicate project.',
+    deleteFailed: 'Failed to delete project.',
+    autosaveFailed: 'Autosave failed. Your latest changes are not stored yet.',
+  },
+
+  preview: {
+    cover: 'Cover',
+    backCover: 'Back cover',
+    titlePage: 'Title',
+    pageCount: (count) => `${count} pages`,
+    layingOut: 'Laying out pages...',
+    generating: (format) => `Generating ${format}, please wait...`,
+    printPdf: 'print PDF',
+    pdfFailed: 'Failed to generate PDF. Please try again.',
+    epubFailed: 'Failed to generate EPUB. Please try again.',
+    layoutFailed: 'Failed to lay out the book.',
+    singlePages: 'Single pages',
+    spreads: 'Two-page spreads',
+    zoomOut: 'Zoom out',
+    zoomIn: 'Zoom in',
+  },
+
+  settings: {
+    basicInfo: 'Basic Information',
+    title: 'Title',
+    author: 'Author',
+    description: 'Description',
+    frontCover: 'Front Cover Image',
+    backCover: 'Back Cover Image',
+
+    language: 'Language',
+    languageHelp: 'The book language sets chapter labels, default titles and numbers in the PDF and EPUB. The interface language only applies to this editor.',
+    bookLanguage: 'Book Language',
+    interfaceLanguage: 'Interface Language',
+
+    pageSettings: 'Page Settings',
+    paperSize: 'Paper Size',
+    customSize: 'Custom size',
+    pageWidth: 'Width',
+    pageHeight: 'Height',
+    unit: 'Unit',
+    orientation: 'Orientation',
+    orientations: { portrait: 'Portrait', landscape: 'Landscape' },
+    margins: {
+      top: 'Top Margin (cm)',
+      bottom: 'Bottom Margin (cm)',
+      left: 'Left Margin (cm)',
+      right: 'Right Margin (cm)',
+      inside: 'Inside Margin (cm)',
+      outside: 'Outside Margin (cm)',
+      gutter: 'Gutter (cm)',
+      mirrored: 'Mirror margins on facing pages',
+      help: 'The gutter is added on the binding edge: left of recto pages and right of verso pages.',
+    },
+
+    pageNumbering: 'Page Numbering',
+    enablePageNumbering: 'Enable page numbering',
+    position: 'Position',
+    alignment: 'Alignment',
+    positions: { top: 'Top', bottom: 'Bottom' },
+    alignments: { left: 'Left', center: 'Center', right: 'Right', justify: 'Justify' },
+    sections: { frontmatter: 'Front Matter', body: 'Body', backmatter: 'Back Matter' },
+    style: 'Style',
+    numbering: 'Numbering',
+    restart: 'Restart',
+    continue: 'Continue',
+    startFrom: 'Start From',
+    pageNumberNone: 'None',
+
+    chapterStarts: 'Chapter Openings',
+    chapterStartsHelp: 'Chapters that start on a right-hand page get an unnumbered blank page before them when needed. Continuing chapters start below the previous one when it fits.',
+    chapterStartOptions: {
+      recto: 'Right-hand page',
+      any: 'Next page',
+      continue: 'Continue on the same page',
+    },
+    chapterTitlePage: 'Separate title page for each chapter (instead of a heading above the text)',
+
+    toc: 'Table of Contents',
+    tocHelp: 'Generated from the chapters and sub-chapters, with page numbers from the final PDF layout.',
+    depth: 'Depth',
+    chaptersOnly: 'Chapters only',
+    chaptersAndSubChapters: 'Chapters and sub-chapters',
+    leader: 'Leader',
+    leaders: { dots: 'Dots ....', dashes: 'Dashes ----', underscore: 'Line ____', none: 'None' },
+    chapterPrefix: 'Chapter Prefix',
+    none: 'None',
+    numberSubChapters: 'Number sub-chapters',
+
+    tables: 'Tables',
+    tablesHelp: 'A table split across pages repeats its header row on every page.',
+    keepTablesTogether: 'Keep tables together when they fit on one page',
+
+    blocks: 'Quotes, Code & Breaks',
+    blocksHelp: 'Lines starting with > are quotes, ``` fences a code block, --- draws a rule and *** a scene break.',
+    codeFont: 'Code Font',
+    sceneBreak: 'Scene Break Ornament',
+    quoteIndent: 'Quote Indent (mm)',
+    quoteRule: 'Rule beside quotes',
+
+    images: 'Images',
+    imagesHelp: 'Images sharper than the maximum resolution are scaled down on export. The regular PDF and EPUB use screen quality, the print-ready PDF uses print quality.',
+    imageTargets: { screen: 'Screen', print: 'Print' },
+    maxDpi: 'Max. Resolution (dpi)',
+    jpegQuality: 'JPEG Quality (%)',
+    minimumDpi: 'Warn Below (dpi)',
+
+    print: 'Print-Ready PDF',
+    printHelp: 'The interior only: covers are printed from the cover designer. Full-page images run past the trim line by the bleed. Links and bookmarks are left out.',
+    bleed: 'Bleed (mm)',
+    cropMarks: 'Crop marks',
+    grayscaleImages: 'Convert images to grayscale',
+
+    notes: 'Notes',
+    notesHelp: 'Write [^1] in the text and define it on a line of its own as [^1]: Note text.',
+    placement: 'Placement',
+    footnotes: 'Footnotes at page bottom',
+    endnotes: 'Endnotes chapter',
+    perChapter: 'Restart each chapter',
+    wholeBook: 'Continuous through book',
+
+    runningHeads: 'Running Headers & Footers',
+    variables: (list) => `Variables: ${list}.`,
+    runningHeadsHelp: 'Hidden on chapter opening pages and blank pages.',
+    enableRunningHead: { header: 'Enable header', footer: 'Enable footer' },
+    alternateEvenOdd: 'Different text on even and odd pages',
+    oddPages: 'Odd (recto) pages',
+    text: 'Text',
+    evenPages: 'Even (verso) pages',
+
+    fontSettings: 'Font Settings',
+    fontRoles: {
+      title: 'Title font',
+      subtitle: 'Subtitle font',
+      paragraph: 'Paragraph font',
+      header: 'Header font',
+      footer: 'Footer font',
+      frontmatterContent: 'Front matter content font',
+      chapterContent: 'Chapter content font',
+      subchapterContent: 'Sub-chapter content font',
+      backmatterContent: 'Back matter content font',
+    },
+    family: 'Family',
+    size: 'Size (pt)',
+    lineHeight: 'Line Height',
+  },
+
+  fonts: {
+    customFonts: 'Custom Fonts',
+    addFont: 'Add Font',
+    help: 'Upload TrueType (.ttf) or OpenType (.otf) files, then pick the font by name under Font Settings. Missing styles use the closest uploaded one.',
+    removeFont: 'Remove font',
+    confirmRemove: (family) => `Remove "${family}"? Text using it will switch to Helvetica.`,
+    nameTaken: 'Another font already uses this name.',
+    uploaded: 'Uploaded',
+    upload: 'Upload',
+    readFailed: (fileName) => `Failed to read ${fileName}.`,
+    cffOutlines: (fileName) =>
+      `${fileName} is an OpenType font with PostScript (CFF) outlines, which cannot be embedded in the PDF. Use a TrueType-flavoured .ttf or .otf file.`,
+    notAFont: (fileName) => `${fileName} is not a TrueType or OpenType font file.`,
+  },
+
+  chapters: {
+    heading: 'Contents',
+    help: 'Manage the content of your book, including the preface, table of contents, chapters and afterword.',
+    bulkUpload: 'Bulk Upload',
+    importDocx: 'Import DOCX',
+    docxFailed: (fileName) => `${fileName} could not be read as a Word document (.docx).`,
+    add: {
+      frontmatter: 'Add Front Matter',
+      toc: 'Add Table of Contents',
+      chapter: 'Add Chapter',
+      backmatter: 'Add Back Matter',
+    },
+    titlePlaceholder: 'Title',
+    confirmRemove: (title) => `Delete "${title}" and its content?`,
+    indentation: 'Indentation (cm)',
+    lineSpacing: 'Line Spacing',
+    tocHelp: 'The table of contents is generated from the chapters and sub-chapters. Set its look under Settings.',
+    content: 'Content',
+    markdownHelp: 'Use markdown: **bold**, *italic*, # Heading, 1. Numbered list, - Bulleted list',
+    contentPlaceholder: 'Write the content here in markdown...',
+    captionPlaceholder: 'Image caption...',
+    fullBleed: 'Full page to the paper edge',
+    alignment: 'Alignment',
+    imageAlignments: { left: 'Left', center: 'Center', right: 'Right' },
+    width: 'Width (%)',
+    subChapters: 'Sub-chapters',
+    addSubChapter: 'Add Sub-chapter',
+    subChapterTitlePlaceholder: 'Sub-chapter title',
+    subChapterContentPlaceholder: 'Sub-chapter content...',
+    addImage: 'Add Image',
+  },
+
+  docxImport: {
+    heading: (fileName) => `Import ${fileName}`,
+    help: 'Heading 1 becomes a chapter and Heading 2 a sub-chapter. Check the split before importing.',
+    mappings: {
+      frontmatter: 'Front matter',
+      toc: 'Table of contents',
+      chapter: 'Chapter',
+      subchapter: 'Sub-chapter of the section above',
+      backmatter: 'Back matter',
+      skip: 'Skip',
+    },
+    warnings: 'Some parts of the document could not be fully converted:',
+    empty: 'This document has no text to import.',
+    imageCount: (count) => `${count} ${count === 1 ? 'image' : 'images'}`,
+    confirm: (count) => `Import ${count} ${count === 1 ? 'section' : 'sections'}`,
+  },
+
+  bulkImport: {
+    heading: (folderName) => `Bulk Upload ${folderName}`,
+    help: 'Rules are tried top to bottom. A group named title in the pattern becomes the title.',
+    defaultPreset: 'Default: BAB n - Title / n.n Subtitle',
+    presetName: 'Preset name',
+    savePreset: 'Save Preset',
+    deletePreset: 'Delete preset',
+    folder: 'Folder',
+    file: 'File',
+    pattern: 'Pattern (regex)',
+    becomes: 'becomes',
+    addRule: 'Add Rule',
+    dryRun: (imported, total) => `Dry run (${imported} of ${total} files imported)`,
+    confirm: (count) => `Import ${count} ${count === 1 ? 'section' : 'sections'}`,
+    report: {
+      'not-text': 'Skipped: not a .txt or .md file',
+      'no-rule': 'Skipped: no rule matches',
+      'no-chapter': 'Skipped: sub-chapter without a chapter before it',
+      intro: (title) => `Opening text of "${title}"`,
+      subchapter: (title, chapter) => `Sub-chapter "${title}" of "${chapter}"`,
+      section: (type, title) => `${type} "${title}"`,
+    },
+  },
+  images: {
+    unsupported: (fileName) => `${fileName} is not a PNG, JPEG, WebP, GIF or SVG image.`,
+    readFailed: (fileName) => `Could not read the image ${fileName}.`,
+    lowResolution: (dpi, minimum) =>
+      `Prints at ${dpi} dpi, below ${minimum} dpi. Use a larger image or make it narrower.`,
+  },
+
+  history: {
+    undo: 'Undo (Ctrl+Z)',
+    redo: 'Redo (Ctrl+Shift+Z)',
+    toggle: 'Change history',
+    open: 'Opened project',
+    addChapter: (title) => `Add "${title}"`,
+    editChapter: (title) => `Edit "${title}"`,
+    removeChapter: (title) => `Delete "${title}"`,
+    addSubChapter: (title) => `Add sub-chapter "${title}"`,
+    removeSubChapter: (title) => `Delete sub-chapter "${title}"`,
+    importChapters: (count) => `Import ${count} ${count === 1 ? 'section' : 'sections'}`,
+    reorder: 'Reorder chapters',
+    settings: 'Change settings',
+    restoreSnapshot: (name) => `Restore version "${name}"`,
+    restoreChapter: (title, name) => `Restore "${title}" from "${name}"`,
+  },
+
+  snapshots: {
+    open: 'Saved versions',
+    heading: 'Versions',
+    namePlaceholder: 'Version name, e.g. Draft for editor',
+    defaultName: (time) => `Version ${time}`,
+    create: 'Save Version',
+    empty: 'No saved versions yet.',
+    restore: 'Restore',
+    confirmRestore: (name) => `Replace the book with version "${name}"? This can be undone.`,
+    delete: 'Delete version',
+    confirmDelete: (name) => `Delete version "${name}"?`,
+    compare: 'Compare',
+    from: 'From',
+    to: 'To',
+    currentBook: 'Current book',
+    noChanges: 'No differences.',
+    unchanged: (count) => `${count} chapters unchanged`,
+    status: {
+      added: 'Added',
+      removed: 'Removed',
+      changed: 'Changed',
+      moved: 'Moved',
+    },
+    titleChanged: (before, after) => `Title: "${before}" became "${after}"`,
+    typeChanged: (before, after) => `Type: ${before} became ${after}`,
+    formatChanged: 'Indentation or line spacing changed',
+    imagesChanged: 'Images changed',
+    restoreChapter: 'Restore this chapter',
+    settings: 'Settings',
+    file: '(file)',
+    listFailed: 'Could not load the versions.',
+    createFailed: 'Could not save the version.',
+    loadFailed: 'Could not open the version.',
+    deleteFailed: 'Could not delete the version.',
+    close: 'Close',
+  },
+
+  cover: {
+    open: 'Design wraparound cover',
+    heading: 'Wraparound Cover',
+    help: 'Back cover, spine and front cover on one sheet for print on demand. The spine width follows the page count; bleed and crop marks follow the print-ready PDF settings.',
+    paperThickness: 'Paper Thickness (mm/leaf)',
+    colors: {
+      background: 'Background',
+      spineColor: 'Spine',
+      textColor: 'Text',
+    },
+    overlays: {
+      frontText: 'Title and author on the front',
+      spineText: 'Spine text',
+      blurb: 'Description on the back',
+      barcodeArea: 'Barcode area',
+    },
+    showGuides: 'Show guides',
+    guides: {
+      trim: 'Trim',
+      fold: 'Spine folds',
+      safe: 'Safe area',
+    },
+    spine: (width, pages) => `Spine ${width} mm for ${pages} pages`,
+    sheet: (width, height) => `Sheet ${width} × ${height} mm with bleed`,
+    download: 'Download Cover PDF',
+    generating: 'Generating cover PDF...',
+    failed: 'Failed to generate the cover PDF. Please try again.',
+    close: 'Close',
+  },
+};
+
+export const messages: Record<Language, Messages> = { id, en };
@@ -0,0 +1,11 @@
+import type React from 'react';
+
+// Change handler for number inputs. While a field is cleared or half typed
+// ('', '-', '1e') it reports no number; that is ignored rather than stored as
+// NaN, which would make the project fail validation when it is next opened.
+export function onNumberInput(apply: (value: number) => void, integer = false) {
+  return (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const value = integer ? parseInt(e.target.value, 10) : parseFloat(e.target.value);
+    if (Number.isFinite(value)) apply(value);
+  };
+}
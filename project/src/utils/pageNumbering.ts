@@ -0,0 +1,105 @@
+import type { BookSection, Chapter, EbookSettings, Language, PageNumberStyle } from '../types';
+import { formatNumber } from './bookText';
+
+const romanNumerals = [
+  { value: 1000, numeral: 'M' },
+  { value: 900, numeral: 'CM' },
+  { value: 500, numeral: 'D' },
+  { value: 400, numeral: 'CD' },
+  { value: 100, numeral: 'C' },
+  { value: 90, numeral: 'XC' },
+  { value: 50, numeral: 'L' },
+  { value: 40, numeral: 'XL' },
+  { value: 10, numeral: 'X' },
+  { value: 9, numeral: 'IX' },
+  { value: 5, numeral: 'V' },
+  { value: 4, numeral: 'IV' },
+  { value: 1, numeral: 'I' }
+];
+
+export function romanize(num: number): string {
+  if (!num || num <= 0) return '';
+
+  let result = '';
+  let remaining = num;
+
+  for (const { value, numeral } of romanNumerals) {
+    while (remaining >= value) {
+      result += numeral;
+      remaining -= value;
+    }
+  }
+
+  return result;
+}
+
+// 1 → A, 26 → Z, 27 → AA (spreadsheet-style columns)
+export function alphabetize(num: number): string {
+  if (!num || num <= 0) return '';
+
+  let result = '';
+  let remaining = num;
+  while (remaining > 0) {
+    const offset = (remaining - 1) % 26;
+    result = String.fromCharCode(65 + offset) + result;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+  return result;
+}
+
+export function formatPageNumber(value: number, style: PageNumberStyle, language: Language): string {
+  switch (style) {
+    case 'decimal':
+      return formatNumber(value, language);
+    case 'lower-roman':
+      return romanize(value).toLowerCase();
+    case 'upper-roman':
+      return romanize(value);
+    case 'lower-alpha':
+      return alphabetize(value).toLowerCase();
+    case 'upper-alpha':
+      return alphabetize(value);
+    case 'none':
+      return '';
+  }
+}
+
+export function getChapterSection(type: Chapter['type']): BookSection {
+  if (type === 'frontmatter' || type === 'toc') return 'frontmatter';
+  if (type === 'backmatter') return 'backmatter';
+  return 'body';
+}
+
+export type PageCounter = {
+  beginSection: (section: BookSection) => void;
+  advance: (pages?: number) => void;
+  value: () => number;
+  label: () => string;
+  isNumbered: () => boolean;
+};
+
+// Shared by the page estimate in the store and the PDF writer so both number
+// pages the same way. A section either restarts at its own startFrom or keeps
+// counting from the previous section.
+export function createPageCounter(numbering: EbookSettings['pageNumbering'], language: Language): PageCounter {
+  let section: BookSection = 'frontmatter';
+  let current = numbering.sections.frontmatter.startFrom;
+  let started = false;
+
+  return {
+    beginSection: (next) => {
+      const scheme = numbering.sections[next];
+      if (!started || scheme.restart) {
+        current = scheme.startFrom;
+      }
+      section = next;
+      started = true;
+    },
+    advance: (pages = 1) => {
+      current += pages;
+    },
+    value: () => current,
+    label: () => formatPageNumber(current, numbering.sections[section].style, language),
+    isNumbered: () => numbering.enabled && numbering.sections[section].style !== 'none',
+  };
+}
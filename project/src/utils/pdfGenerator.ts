@@ -0,0 +1,275 @@
+import { jsPDF } from 'jspdf';
+import { PDFDocument } from 'pdf-lib';
+import type { Chapter, EbookSettings, PdfProfile } from '../types';
+import { addLinkAnnotations, addOutline } from './pdfLinks';
+import { registerPdfFonts } from './customFonts';
+import { coverPageCount, fillImage, fitImage, layoutBookWithToc } from './layout';
+import type { BookLayout, ImageBox, ImageSize, LayoutBox } from './layout';
+import { preparePdfImage } from './imagePipeline';
+import type { PdfImage } from './imagePipeline';
+import { createMeasuringDoc, createPdfMeasurer, loadImage, loadLayoutResources } from './layoutResources';
+import { drawCropMarks, inkColor, pdfGeometry, setPrintBoxes } from './printProfile';
+import type { PdfGeometry } from './printProfile';
+import { layoutCoverWrap } from './coverWrap';
+
+const RECT_STROKE_WIDTH = 0.2;
+
+export type GeneratedPdf = {
+  bytes: Uint8Array;
+};
+
+function sheetOptions(geometry: PdfGeometry) {
+  return {
+    unit: 'mm' as const,
+    format: [geometry.sheetWidth, geometry.sheetHeight],
+    orientation: geometry.sheetWidth > geometry.sheetHeight ? 'landscape' as const : 'portrait' as const,
+    compress: true
+  };
+}
+
+// Where an image lands on the sheet. A bleed image is cut to fill its box
+// grown by the bleed, which `clip` then outlines.
+function imagePlacement(box: ImageBox, size: ImageSize | undefined, geometry: PdfGeometry) {
+  const x = box.x + geometry.offset;
+  const y = box.y + geometry.offset;
+  if (!box.bleed || !size) {
+    return { x, y, width: box.width, height: box.height, clip: null };
+  }
+
+  const clip = {
+    x: x - geometry.bleed,
+    y: y - geometry.bleed,
+    width: box.width + 2 * geometry.bleed,
+    height: box.height + 2 * geometry.bleed,
+  };
+  const filled = fillImage(size, clip.width, clip.height);
+  return { x: clip.x + filled.x, y: clip.y + filled.y, width: filled.width, height: filled.height, clip };
+}
+
+function imageQuality(settings: EbookSettings, geometry: PdfGeometry) {
+  return {
+    quality: settings.images[geometry.profile],
+    grayscale: geometry.profile === 'print' && settings.print.grayscaleImages,
+  };
+}
+
+type PreparedImages = Map<string, PdfImage & { alias: string }>;
+
+const pdfImageKey = (box: ImageBox) => `${box.url}@${box.width.toFixed(2)}`;
+
+// Every image is encoded once for each size it is drawn at. One at a time,
+// since a large book holds many decoded images otherwise.
+async function preparePdfImages(
+  boxes: ImageBox[],
+  sizes: Map<string, ImageSize>,
+  settings: EbookSettings,
+  geometry: PdfGeometry
+): Promise<PreparedImages> {
+  const { quality, grayscale } = imageQuality(settings, geometry);
+  const prepared: PreparedImages = new Map();
+  for (const box of boxes) {
+    if (prepared.has(pdfImageKey(box))) continue;
+    try {
+      const { width } = imagePlacement(box, sizes.get(box.url), geometry);
+      const image = await preparePdfImage(box.url, width, quality, grayscale);
+      prepared.set(pdfImageKey(box), { ...image, alias: `image-${prepared.size + 1}` });
+    } catch (err) {
+      console.error(`Error preparing image ${box.url}:`, err);
+    }
+  }
+  return prepared;
+}
+
+function drawImage(
+  doc: jsPDF,
+  box: ImageBox,
+  images: PreparedImages,
+  sizes: Map<string, ImageSize>,
+  geometry: PdfGeometry
+) {
+  const image = images.get(pdfImageKey(box));
+  if (!image) return;
+
+  const placement = imagePlacement(box, sizes.get(box.url), geometry);
+  if (placement.clip) {
+    doc.saveGraphicsState();
+    doc.rect(placement.clip.x, placement.clip.y, placement.clip.width, placement.clip.height, null);
+    doc.clip();
+    doc.discardPath();
+  }
+  doc.addImage(image.data, image.format, placement.x, placement.y, placement.width, placement.height, image.alias);
+  if (placement.clip) doc.restoreGraphicsState();
+}
+
+// Screen covers are fitted inside the page; print covers fill it to the bleed
+const generateCoverPDF = async (imageUrl: string, settings: EbookSettings, geometry: PdfGeometry): Promise<Uint8Array> => {
+  try {
+    const doc = new jsPDF(sheetOptions(geometry));
+
+    const img = await loadImage(imageUrl);
+    const sizes = new Map<string, ImageSize>([[imageUrl, img]]);
+    const box: ImageBox = geometry.profile === 'print'
+      ? { type: 'image', x: 0, y: 0, width: geometry.trimWidth, height: geometry.trimHeight, url: imageUrl, bleed: true }
+      : { type: 'image', ...fitImage(img, geometry.trimWidth, geometry.trimHeight), url: imageUrl };
+
+    drawImage(doc, box, await preparePdfImages([box], sizes, settings, geometry), sizes, geometry);
+    drawCropMarks(doc, geometry);
+    return new Uint8Array(doc.output('arraybuffer'));
+  } catch (err) {
+    console.error('Error generating cover PDF:', err);
+    throw err;
+  }
+};
+
+function drawBoxes(
+  doc: jsPDF,
+  boxes: LayoutBox[],
+  images: PreparedImages,
+  sizes: Map<string, ImageSize>,
+  geometry: PdfGeometry
+) {
+  const { offset } = geometry;
+  for (const box of boxes) {
+    if (box.type === 'image') {
+      drawImage(doc, box, images, sizes, geometry);
+      continue;
+    }
+    if (box.type === 'line') {
+      inkColor(doc, box.color ?? '#000000', geometry, 'draw');
+      doc.setLineWidth(box.width);
+      doc.line(box.x1 + offset, box.y1 + offset, box.x2 + offset, box.y2 + offset);
+      continue;
+    }
+    if (box.type === 'rect') {
+      if (box.fill) inkColor(doc, box.fill, geometry, 'fill');
+      if (box.stroke) {
+        inkColor(doc, box.stroke, geometry, 'draw');
+        doc.setLineWidth(RECT_STROKE_WIDTH);
+      }
+      const style = box.fill && box.stroke ? 'FD' : box.fill ? 'F' : 'S';
+      doc.rect(box.x + offset, box.y + offset, box.width, box.height, style);
+      continue;
+    }
+
+    doc.setFont(box.font.family, box.font.style);
+    doc.setFontSize(box.font.size);
+    inkColor(doc, box.color ?? '#000000', geometry, 'text');
+    doc.text(box.text, box.x + offset, box.y + offset, box.angle ? { angle: box.angle } : undefined);
+  }
+}
+
+function drawLayout(
+  doc: jsPDF,
+  layout: BookLayout,
+  images: PreparedImages,
+  sizes: Map<string, ImageSize>,
+  geometry: PdfGeometry
+) {
+  layout.pages.forEach((page, index) => {
+    if (index > 0) doc.addPage();
+    drawBoxes(doc, page.boxes, images, sizes, geometry);
+    drawCropMarks(doc, geometry);
+  });
+}
+
+// The print profile adds bleed, crop marks and trim and bleed boxes to every
+// page, and leaves out links, which preflight treats as errors. It is the
+// interior only: the covers are printed from the wraparound cover instead.
+export async function generateBookPdf(
+  chapters: Chapter[],
+  settings: EbookSettings,
+  profile: PdfProfile = 'screen'
+): Promise<GeneratedPdf> {
+  const { images, fonts } = await loadLayoutResources(chapters, settings);
+  const geometry = pdfGeometry(settings, profile);
+
+  const doc = new jsPDF(sheetOptions(geometry));
+  registerPdfFonts(doc, settings.customFonts, fonts);
+  doc.setR2L(false);
+
+  const layout = layoutBookWithToc(chapters, settings, createPdfMeasurer(doc), images, coverPageCount(settings, profile));
+  const imageBoxes = layout.pages.flatMap((page) => page.boxes.filter((box): box is ImageBox => box.type === 'image'));
+  drawLayout(doc, layout, await preparePdfImages(imageBoxes, images, settings, geometry), images, geometry);
+
+  const contentPdfBytes = doc.output('arraybuffer');
+
+  const withCovers = profile !== 'print';
+
+  let coverPdfBytes: Uint8Array | null = null;
+  if (withCovers && settings.coverImage) {
+    try {
+      coverPdfBytes = await generateCoverPDF(settings.coverImage, settings, geometry);
+    } catch (err) {
+      console.error('Error generating cover PDF:', err);
+    }
+  }
+
+  let backCoverPdfBytes: Uint8Array | null = null;
+  if (withCovers && settings.backCoverImage) {
+    try {
+      backCoverPdfBytes = await generateCoverPDF(settings.backCoverImage, settings, geometry);
+    } catch (err) {
+      console.error('Error generating back cover PDF:', err);
+    }
+  }
+
+  const mergedPdf = await PDFDocument.create();
+  
+  if (coverPdfBytes) {
+    const coverDoc = await PDFDocument.load(coverPdfBytes);
+    const coverPages = await mergedPdf.copyPages(coverDoc, coverDoc.getPageIndices());
+    coverPages.forEach(page => mergedPdf.addPage(page));
+  }
+
+  const leadingPages = mergedPdf.getPageCount();
+  const contentDoc = await PDFDocument.load(contentPdfBytes);
+  const contentPages = await mergedPdf.copyPages(contentDoc, contentDoc.getPageIndices());
+  contentPages.forEach(page => mergedPdf.addPage(page));
+
+  if (backCoverPdfBytes) {
+    const backCoverDoc = await PDFDocument.load(backCoverPdfBytes);
+    const backCoverPages = await mergedPdf.copyPages(backCoverDoc, backCoverDoc.getPageIndices());
+    backCoverPages.forEach(page => mergedPdf.addPage(page));
+  }
+
+  if (profile === 'print') {
+    setPrintBoxes(mergedPdf, geometry);
+  } else {
+    addLinkAnnotations(mergedPdf, layout.links, layout.destinations, leadingPages);
+    addOutline(mergedPdf, layout.outline, leadingPages);
+  }
+
+  const bytes = await mergedPdf.save();
+  return { bytes };
+}
+
+// The wraparound cover for print, laid out around a spine as thick as the
+// interior the book lays out to now
+export async function generateCoverWrapPdf(chapters: Chapter[], settings: EbookSettings): Promise<Uint8Array> {
+  const { images, fonts } = await loadLayoutResources(chapters, settings);
+  // Laid out as the print interior: measured as in the preview, with no cover
+  // ahead of the first page, so the spine holds exactly the printed pages
+  const measure = createPdfMeasurer(createMeasuringDoc(settings.customFonts, fonts));
+  const layout = layoutBookWithToc(chapters, settings, measure, images, coverPageCount(settings, 'print'));
+
+  const wrap = layoutCoverWrap(settings, layout.pages.length, measure);
+  const geometry = pdfGeometry(settings, 'print', wrap);
+  const doc = new jsPDF(sheetOptions(geometry));
+  registerPdfFonts(doc, settings.customFonts, fonts);
+
+  const artwork = wrap.boxes.filter((box): box is ImageBox => box.type === 'image');
+  const sizes = new Map<string, ImageSize>();
+  for (const box of artwork) {
+    try {
+      sizes.set(box.url, await loadImage(box.url));
+    } catch (err) {
+      console.error(`Error loading cover image ${box.url}:`, err);
+    }
+  }
+  drawBoxes(doc, wrap.boxes, await preparePdfImages(artwork, sizes, settings, geometry), sizes, geometry);
+  drawCropMarks(doc, geometry);
+
+  const pdf = await PDFDocument.load(doc.output('arraybuffer'));
+  setPrintBoxes(pdf, geometry);
+  return pdf.save();
+}
@@ -0,0 +1,139 @@
+import { PDFDocument, PDFHexString, PDFName, PDFRef, PDFString } from 'pdf-lib';
+import type { PDFDict, PDFPage } from 'pdf-lib';
+import { isSafeHref } from './markdownAst';
+
+// Positions are in the content document's jsPDF units (mm from the top-left)
+// with 1-based page numbers, as they are known while rendering.
+export type PdfDestination = {
+  page: number;
+  y: number;
+};
+
+export type PdfLinkArea = {
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  href: string;
+};
+
+export type PdfOutlineItem = {
+  title: string;
+  destination: PdfDestination;
+  children: PdfOutlineItem[];
+};
+
+const MM_TO_PT = 72 / 25.4;
+
+// Matches the ids GitHub gives markdown headings, so `[see](#my-heading)` works
+// the same in the preview and the PDF
+export function slugify(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .replace(/\s+/g, '-');
+}
+
+function destinationArray(pdf: PDFDocument, pages: PDFPage[], destination: PdfDestination, pageOffset: number) {
+  const page = pages[destination.page - 1 + pageOffset];
+  if (!page) return null;
+  const top = page.getHeight() - destination.y * MM_TO_PT;
+  return pdf.context.obj([page.ref, 'XYZ', null, Math.min(page.getHeight(), top), null]);
+}
+
+// `pageOffset` is the number of pages (cover) placed before the content pages
+export function addLinkAnnotations(
+  pdf: PDFDocument,
+  links: PdfLinkArea[],
+  destinations: Map<string, PdfDestination>,
+  pageOffset: number
+) {
+  const pages = pdf.getPages();
+
+  for (const link of links) {
+    const page = pages[link.page - 1 + pageOffset];
+    if (!page) continue;
+
+    let target: Record<string, unknown>;
+    if (link.href.startsWith('#')) {
+      const destination = destinations.get(decodeURIComponent(link.href.slice(1)));
+      const dest = destination && destinationArray(pdf, pages, destination, pageOffset);
+      if (!dest) continue;
+      target = { Dest: dest };
+    } else if (isSafeHref(link.href)) {
+      target = { A: { Type: 'Action', S: 'URI', URI: PDFString.of(link.href) } };
+    } else {
+      continue;
+    }
+
+    const pageHeight = page.getHeight();
+    const annotation = pdf.context.obj({
+      Type: 'Annot',
+      Subtype: 'Link',
+      Rect: [
+        link.x * MM_TO_PT,
+        pageHeight - (link.y + link.height) * MM_TO_PT,
+        (link.x + link.width) * MM_TO_PT,
+        pageHeight - link.y * MM_TO_PT,
+      ],
+      Border: [0, 0, 0],
+      ...target,
+    } as Parameters<typeof pdf.context.obj>[0]);
+    page.node.addAnnot(pdf.context.register(annotation));
+  }
+}
+
+// Writes sibling items and their children, returning how many entries are open
+function writeOutlineItems(
+  pdf: PDFDocument,
+  pages: PDFPage[],
+  items: PdfOutlineItem[],
+  parent: PDFRef,
+  pageOffset: number
+): { first: PDFRef; last: PDFRef; count: number } {
+  const refs = items.map(() => pdf.context.nextRef());
+  let count = 0;
+
+  items.forEach((item, index) => {
+    const dict = pdf.context.obj({
+      Title: PDFHexString.fromText(item.title),
+      Parent: parent,
+    }) as PDFDict;
+
+    const dest = destinationArray(pdf, pages, item.destination, pageOffset);
+    if (dest) dict.set(PDFName.of('Dest'), dest);
+    if (index > 0) dict.set(PDFName.of('Prev'), refs[index - 1]);
+    if (index < items.length - 1) dict.set(PDFName.of('Next'), refs[index + 1]);
+
+    if (item.children.length > 0) {
+      const children = writeOutlineItems(pdf, pages, item.children, refs[index], pageOffset);
+      dict.set(PDFName.of('First'), children.first);
+      dict.set(PDFName.of('Last'), children.last);
+      dict.set(PDFName.of('Count'), pdf.context.obj(children.count));
+      count += children.count;
+    }
+
+    pdf.context.assign(refs[index], dict);
+    count++;
+  });
+
+  return { first: refs[0], last: refs[refs.length - 1], count };
+}
+
+export function addOutline(pdf: PDFDocument, items: PdfOutlineItem[], pageOffset: number) {
+  if (items.length === 0) return;
+
+  const outlinesRef = pdf.context.nextRef();
+  const { first, last, count } = writeOutlineItems(pdf, pdf.getPages(), items, outlinesRef, pageOffset);
+  pdf.context.assign(outlinesRef, pdf.context.obj({
+    Type: 'Outlines',
+    First: first,
+    Last: last,
+    Count: count,
+  }));
+
+  pdf.catalog.set(PDFName.of('Outlines'), outlinesRef);
+  pdf.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { defaultSettings } from '../store/useEbookStore';
+import type { FontSpec, LayoutFlow, LineBox } from './layout';
+import { layoutMarkdown } from './pdfMarkdownParser';
+
+type PlacedText = { text: string; x: number; y: number; font: FontSpec; link?: string | null };
+
+// A flow on one endless page, measuring every character as 1mm
+function recordingFlow() {
+  const texts: PlacedText[] = [];
+  const lines: Omit<LineBox, 'type'>[] = [];
+  let y = 0;
+  const flow: LayoutFlow = {
+    measure: (text) => text.length,
+    contentLeft: 0,
+    contentWidth: 100,
+    contentHeight: 1000,
+    nextLine: (height) => (y += height),
+    spaceLeft: () => 1000 - y,
+    breakPage: () => false,
+    addText: (text, x, baseline, font, link) => texts.push({ text, x, y: baseline, font, link }),
+    addLine: (line) => lines.push(line),
+    addDestination: () => ({ page: 0, y }),
+  };
+  return { flow, texts, lines };
+}
+
+const options = {
+  maxWidth: 100,
+  fontSize: 12,
+  lineHeight: 1.5,
+  font: 'Helvetica',
+  blocks: defaultSettings.blocks,
+};
+
+describe('layoutMarkdown', () => {
+  it('places styled runs with their fonts and links', () => {
+    const { flow, texts } = recordingFlow();
+    layoutMarkdown(flow, 'plain **bold** [link](https://example.com)', 0, options);
+
+    const bold = texts.find((text) => text.text.includes('bold'));
+    expect(bold?.font.style).toBe('bold');
+    const link = texts.find((text) => text.text.includes('link'));
+    expect(link?.link).toBe('https://example.com');
+    expect(texts.map((text) => text.text).join('')).toContain('plain');
+  });
+
+  it('wraps paragraphs to the width', () => {
+    const { flow, texts } = recordingFlow();
+    layoutMarkdown(flow, 'word '.repeat(40).trim(), 0, { ...options, maxWidth: 30 });
+
+    const baselines = new Set(texts.map((text) => text.y));
+    expect(baselines.size).toBeGreaterThan(1);
+    for (const text of texts) {
+      expect(text.x + text.text.trimEnd().length).toBeLessThanOrEqual(30 + 1e-6);
+    }
+  });
+
+  it('centres the scene break ornament and draws rules for thematic breaks', () => {
+    const { flow, texts, lines } = recordingFlow();
+    layoutMarkdown(flow, '***\n\n---', 0, options);
+
+    const ornament = defaultSettings.blocks.sceneBreak;
+    expect(texts).toHaveLength(1);
+    expect(texts[0]).toMatchObject({ text: ornament, x: (100 - ornament.length) / 2 });
+    expect(lines).toHaveLength(1);
+  });
+});
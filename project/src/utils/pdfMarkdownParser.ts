@@ -1,13 +1,21 @@
-import { jsPDF } from "jspdf";
+import type { FlowNote, FontSpec, FontStyleName, LayoutFlow, TextMeasurer } from './layout';
+import { PT_TO_MM } from './layout';
+import { isSafeHref, parseMarkdownAst } from './markdownAst';
+import type { BlockNode, CodeNode, HeadingNode, InlineNode, ListItemNode, ListNode, ParagraphNode, TableNode } from './markdownAst';
+import type { ChapterNotes, Note } from './footnotes';
+import type { BlockStyleSettings } from '../types';
+
+// Lays the markdown AST out into the page flow. The HTML rendering of the same
+// tree lives in markdownParser.ts.
 
 interface TextStyle {
   bold: boolean;
   italic: boolean;
-  heading: number | null;
-  list: boolean;
-  listType: 'ordered' | 'unordered' | null;
-  listLevel: number;
-  indentation: number;
+  code: boolean;
+  strike: boolean;
+  superscript: boolean;
+  link: string | null;
+  note: Note | null;
 }
 
 interface TextSegment {
@@ -21,149 +29,105 @@ interface PDFMarkdownOptions {
   fontSize: number;
   lineHeight: number;
   font: string;
+  keepTablesTogether?: boolean;
+  blocks: BlockStyleSettings;
+  notes?: ChapterNotes;
+  footnotes?: boolean; // place notes at the page bottom rather than linking to endnotes
 }
 
-function applyStyle(doc: jsPDF, style: TextStyle, baseFontSize: number, font: string) {
-  let fontStyle = 'normal';
-  if (style.bold && style.italic) fontStyle = 'bolditalic';
-  else if (style.bold) fontStyle = 'bold';
-  else if (style.italic) fontStyle = 'italic';
-  doc.setFont(font, fontStyle);
-
-  if (style.heading) {
-    const headingSizes = {
-      1: baseFontSize * 2,
-      2: baseFontSize * 1.5,
-      3: baseFontSize * 1.17,
-      4: baseFontSize * 1,
-      5: baseFontSize * 0.83,
-      6: baseFontSize * 0.67,
-    };
-    doc.setFontSize(headingSizes[style.heading]);
-  } else {
-    doc.setFontSize(baseFontSize);
-  }
+const CODE_SIZE_SCALE = 0.9;
+const CODE_BLOCK_INDENT = 5;
+const QUOTE_RULE_WIDTH = 0.5;
+const QUOTE_RULE_COLOR = '#999999';
+const BREAK_RULE_WIDTH = 0.3;
+const TABLE_CELL_PADDING_X = 1.5;
+const TABLE_CELL_PADDING_Y = 1;
+const TABLE_RULE_WIDTH = 0.2;
+const TABLE_RULE_COLOR = '#999999';
+const SUPERSCRIPT_SCALE = 0.6;
+const NOTE_SIZE_SCALE = 0.8;
+const NOTE_INDENT = 5;
+
+const plainStyle: TextStyle = {
+  bold: false,
+  italic: false,
+  code: false,
+  strike: false,
+  superscript: false,
+  link: null,
+  note: null,
+};
+
+function styleName(style: TextStyle): FontStyleName {
+  if (style.bold && style.italic) return 'bolditalic';
+  if (style.bold) return 'bold';
+  if (style.italic) return 'italic';
+  return 'normal';
 }
 
-function parseInlineMarkdown(text: string): TextSegment[] {
-  const segments: TextSegment[] = [];
-  let currentText = '';
-  let currentStyle: TextStyle = {
-    bold: false,
-    italic: false,
-    heading: null,
-    list: false,
-    listType: null,
-    listLevel: 0,
-    indentation: 0
+function fontFor(style: TextStyle, options: PDFMarkdownOptions, size: number): FontSpec {
+  return {
+    family: style.code ? options.blocks.codeFont : options.font,
+    style: styleName(style),
+    size: style.superscript ? size * SUPERSCRIPT_SCALE : size,
   };
+}
 
-  let i = 0;
-  while (i < text.length) {
-    if (text[i] === '*' || text[i] === '_') {
-      const marker = text[i];
-      const isDouble = text[i + 1] === marker;
-
-      if (currentText) {
-        segments.push({ text: currentText, style: { ...currentStyle } });
-        currentText = '';
-      }
-
-      if (isDouble) {
-        currentStyle.bold = !currentStyle.bold;
-        i += 2;
-      } else {
-        currentStyle.italic = !currentStyle.italic;
-        i++;
+// Flattens inline nodes into runs of uniformly styled text
+function toSegments(nodes: InlineNode[], options: PDFMarkdownOptions, style: TextStyle = plainStyle): TextSegment[] {
+  return nodes.flatMap(node => {
+    switch (node.type) {
+      case 'text':
+        return [{ text: node.value, style }];
+      case 'inlineCode':
+        return [{ text: node.value, style: { ...style, code: true } }];
+      case 'strong':
+        return toSegments(node.children, options, { ...style, bold: true });
+      case 'emphasis':
+        return toSegments(node.children, options, { ...style, italic: true });
+      case 'delete':
+        return toSegments(node.children, options, { ...style, strike: true });
+      case 'link':
+        return toSegments(node.children, options, { ...style, link: isSafeHref(node.href) ? node.href : style.link });
+      case 'footnoteReference': {
+        const note = options.notes?.get(node.label);
+        if (!note) return [{ text: `[^${node.label}]`, style }];
+        // Endnotes are far away, so their references link to them
+        const link = options.footnotes ? style.link : `#${note.id}`;
+        return [{ text: String(note.number), style: { ...style, superscript: true, link, note } }];
       }
-    } else {
-      currentText += text[i];
-      i++;
     }
-  }
-
-  if (currentText) {
-    segments.push({ text: currentText, style: { ...currentStyle } });
-  }
-
-  return segments;
-}
-
-function calculateIndentation(text: string): number {
-  let indentation = 0;
-  
-  const baseIndent = Math.floor((text.match(/^\s*/)?.[0].length || 0) / 2) * 0.25;
-  indentation += baseIndent;
-  
-  const listMatch = text.match(/^(\s*(?:[-*]|\d+\.)\s+)/);
-  if (listMatch) {
-    indentation += 0.25;
-  } else if (baseIndent > 0) {
-    indentation += 0.75;
-  } else if (text.trim().length > 0) {
-    indentation += 0.25;
-  }
-  
-  return indentation;
+  });
 }
 
-function renderJustifiedLine(
-  doc: jsPDF,
-  segments: TextSegment[],
-  x: number,
-  y: number,
-  maxWidth: number,
-  isLastLine: boolean
-) {
-  if (isLastLine || segments.length <= 1) {
-    let currentX = x;
-    segments.forEach(segment => {
-      applyStyle(doc, segment.style, doc.getFontSize(), doc.getFont().fontName);
-      doc.text(segment.text, currentX, y);
-      currentX += doc.getTextWidth(segment.text + (segment.text === ' ' ? '' : ' '));
-    });
-    return;
+// Left indentation in multiples of the font size
+function calculateIndentation(block: HeadingNode | ParagraphNode | ListItemNode): number {
+  const baseIndent = block.indent * 0.25;
+  if (block.type === 'paragraph' && baseIndent > 0) {
+    return baseIndent + 0.75;
   }
-
-  let totalTextWidth = 0;
-  let numberOfSpaces = segments.filter(s => s.text === ' ').length;
-  segments.forEach(segment => {
-    applyStyle(doc, segment.style, doc.getFontSize(), doc.getFont().fontName);
-    totalTextWidth += doc.getTextWidth(segment.text);
-  });
-
-  const remainingSpace = Math.max(0, maxWidth - totalTextWidth);
-  const extraSpacePerGap = numberOfSpaces > 0 ? remainingSpace / numberOfSpaces : 0;
-
-  let currentX = x;
-  segments.forEach((segment, index) => {
-    applyStyle(doc, segment.style, doc.getFontSize(), doc.getFont().fontName);
-    doc.text(segment.text, currentX, y);
-    
-    const segmentWidth = doc.getTextWidth(segment.text);
-    currentX += segmentWidth;
-    
-    if (segment.text === ' ' && index < segments.length - 1) {
-      currentX += extraSpacePerGap;
-    }
-  });
+  return baseIndent + 0.25;
 }
 
-function splitWordIfNeeded(word: string, style: TextStyle, doc: jsPDF, maxWidth: number): TextSegment[] {
+function splitWordIfNeeded(
+  measure: TextMeasurer,
+  word: string,
+  style: TextStyle,
+  font: (style: TextStyle) => FontSpec,
+  maxWidth: number
+): TextSegment[] {
   const result: TextSegment[] = [];
   let currentPart = '';
-  
-  applyStyle(doc, style, doc.getFontSize(), doc.getFont().fontName);
-  
-  if (doc.getTextWidth(word) <= maxWidth) {
+
+  if (measure(word, font(style)) <= maxWidth) {
     return [{ text: word, style: { ...style } }];
   }
-  
+
   for (let i = 0; i < word.length; i++) {
     const char = word[i];
     const testPart = currentPart + char;
-    const testWidth = doc.getTextWidth(testPart);
-    
+    const testWidth = measure(testPart, font(style));
+
     if (testWidth > maxWidth * 0.95) {
       if (currentPart.length >= 2) {
         result.push({ text: currentPart + '-', style: { ...style } });
@@ -179,464 +143,393 @@ function splitWordIfNeeded(word: string, style: TextStyle, doc: jsPDF, maxWidth:
       currentPart += char;
     }
   }
-  
+
   if (currentPart.length > 0) {
     result.push({ text: currentPart, style: { ...style } });
   }
-  
+
   return result;
 }
 
+// Greedy line breaking on measured word widths. Words are separated by single
+// space segments so justification can stretch them; styled runs that touch in
+// the source (`**bold**text`) stay joined.
 function splitTextToLines(
-  doc: jsPDF,
+  measure: TextMeasurer,
   segments: TextSegment[],
-  maxWidth: number,
-  baseIndentation: number = 0,
-  font: string
+  font: (style: TextStyle) => FontSpec,
+  availableWidth: number
 ): TextSegment[][] {
-  const lines: TextSegment[][] = [[]];
-  let currentLine = 0;
+  const lines: TextSegment[][] = [];
   let currentLineWidth = 0;
   let currentLineSegments: TextSegment[] = [];
-  
-  const indentationWidth = baseIndentation * doc.getFontSize();
-  const availableWidth = maxWidth - indentationWidth;
-  const spaceWidth = doc.getTextWidth(' ');
-  
+  let spaceBefore = false;
+
   function commitLine() {
     if (currentLineSegments.length > 0) {
-      lines[currentLine] = [...currentLineSegments];
-      currentLine++;
-      lines[currentLine] = [];
+      lines.push(currentLineSegments);
       currentLineSegments = [];
       currentLineWidth = 0;
     }
   }
-  
+
   segments.forEach(segment => {
-    const words = segment.text.split(/\s+/);
-    
-    words.forEach((word, wordIndex) => {
+    const spaceWidth = measure(' ', font(segment.style));
+
+    segment.text.split(/(\s+)/).forEach(word => {
       if (!word) return;
-      
-      applyStyle(doc, segment.style, doc.getFontSize(), font);
-      const wordWidth = doc.getTextWidth(word);
-      
-      const totalWidth = currentLineWidth + 
-        (currentLineSegments.length > 0 ? spaceWidth : 0) + 
-        wordWidth;
-      
-      if (totalWidth <= availableWidth) {
-        if (currentLineSegments.length > 0) {
+      if (/^\s/.test(word)) {
+        spaceBefore = true;
+        return;
+      }
+
+      const wordWidth = measure(word, font(segment.style));
+      const gap = currentLineSegments.length > 0 && spaceBefore ? spaceWidth : 0;
+      spaceBefore = false;
+
+      if (currentLineWidth + gap + wordWidth <= availableWidth || (currentLineSegments.length > 0 && gap === 0)) {
+        if (gap > 0) {
           currentLineSegments.push({ text: ' ', style: segment.style });
           currentLineWidth += spaceWidth;
         }
-        
+
         currentLineSegments.push({ text: word, style: segment.style });
         currentLineWidth += wordWidth;
+      } else if (wordWidth <= availableWidth) {
+        commitLine();
+        currentLineSegments.push({ text: word, style: segment.style });
+        currentLineWidth = wordWidth;
       } else {
-        if (wordWidth <= availableWidth) {
-          commitLine();
-          currentLineSegments.push({ text: word, style: segment.style });
-          currentLineWidth = wordWidth;
-        } else {
-          if (currentLineSegments.length > 0) {
+        commitLine();
+
+        const parts = splitWordIfNeeded(measure, word, segment.style, font, availableWidth);
+        parts.forEach((part, index) => {
+          if (index > 0) {
             commitLine();
           }
-          
-          const parts = splitWordIfNeeded(word, segment.style, doc, availableWidth);
-          parts.forEach((part, index) => {
-            if (index > 0) {
-              commitLine();
-            }
-            
-            currentLineSegments.push(part);
-            currentLineWidth = doc.getTextWidth(part.text);
-          });
-        }
-      }
-    });
-  });
-  
-  if (currentLineSegments.length > 0) {
-    commitLine();
-  }
-  
-  return lines
-    .filter(line => line.length > 0)
-    .map(line => {
-      let lineWidth = 0;
-      line.forEach(segment => {
-        applyStyle(doc, segment.style, doc.getFontSize(), font);
-        lineWidth += doc.getTextWidth(segment.text);
-      });
-      
-      if (lineWidth > availableWidth) {
-        const newLine: TextSegment[] = [];
-        let currentWidth = 0;
-        
-        line.forEach(segment => {
-          if (segment.text === ' ') {
-            if (currentWidth + spaceWidth <= availableWidth) {
-              newLine.push(segment);
-              currentWidth += spaceWidth;
-            }
-            return;
-          }
-          
-          const parts = splitWordIfNeeded(segment.text, segment.style, doc, availableWidth - currentWidth);
-          parts.forEach(part => {
-            if (currentWidth + doc.getTextWidth(part.text) <= availableWidth) {
-              newLine.push(part);
-              currentWidth += doc.getTextWidth(part.text);
-            }
-          });
+
+          currentLineSegments.push(part);
+          currentLineWidth = measure(part.text, font(part.style));
         });
-        
-        return newLine;
       }
-      
-      return line;
     });
+  });
+
+  commitLine();
+  return lines;
 }
 
-function formatPDFTableOfContents(
-  doc: jsPDF,
-  text: string,
+function drawLine(
+  flow: LayoutFlow,
+  lineSegments: TextSegment[],
   x: number,
   y: number,
-  options: PDFMarkdownOptions
-): number {
-  const lines = text.split('\n');
-  let currentY = y;
-  const lineHeight = options.fontSize * 0.352778 * options.lineHeight;
-  const dotChar = '.';
-  const pageWidth = doc.internal.pageSize.getWidth();
-  const marginRight = 20;
-  const pageNumberWidth = 10;
-  const dotSpacing = 2;
-
-  for (const line of lines) {
-    const trimmedLine = line.trim();
-    if (!trimmedLine) {
-      currentY += lineHeight;
-      continue;
-    }
+  maxWidth: number,
+  align: PDFMarkdownOptions['align'],
+  isLastLine: boolean,
+  font: (style: TextStyle) => FontSpec
+) {
+  const widths = lineSegments.map(segment => flow.measure(segment.text, font(segment.style)));
+  const totalWidth = widths.reduce((sum, width) => sum + width, 0);
+
+  let xOffset = x;
+  let extraSpacePerGap = 0;
+  if (align === 'justify' && !isLastLine) {
+    const numberOfSpaces = lineSegments.filter(segment => segment.text === ' ').length;
+    extraSpacePerGap = numberOfSpaces > 0 ? Math.max(0, maxWidth - totalWidth) / numberOfSpaces : 0;
+  } else if (align === 'center') {
+    xOffset = x + (maxWidth - totalWidth) / 2;
+  } else if (align === 'right') {
+    xOffset = x + maxWidth - totalWidth;
+  }
 
-    const pageMatch = trimmedLine.match(/(?:- Halaman\s*)?(\d+|[ivxlcdm]+)$/i);
-    const pageNumber = pageMatch ? pageMatch[1] : '';
-    
-    let content = pageMatch ? trimmedLine.slice(0, pageMatch.index).trim() : trimmedLine;
-    content = content.replace(/- Halaman\s*$/, '').trim();
-
-    let indent = 0;
-    let title = content;
-    let prefix = '';
-
-    if (content.toLowerCase().startsWith('kata pengantar')) {
-      doc.setFont(options.font, 'bold');
-    } else if (content.match(/^Bab\s+\d+/i)) {
-      doc.setFont(options.font, 'bold');
-      const [chapter, ...titleParts] = content.split(/\s+(.+)/);
-      prefix = chapter;
-      title = titleParts.join(' ').trim();
-    } else if (content.match(/^\d+\.\d+/)) {
-      doc.setFont(options.font, 'normal');
-      indent = 10;
-      const [number, ...titleParts] = content.split(/\s+(.+)/);
-      prefix = number;
-      title = titleParts.join(' ').trim();
-    } else {
-      doc.setFont(options.font, 'normal');
+  lineSegments.forEach((segment, index) => {
+    const segmentFont = font(segment.style);
+    const width = widths[index] + (segment.text === ' ' ? extraSpacePerGap : 0);
+    if (segment.text !== ' ') {
+      const raise = segment.style.superscript ? segmentFont.size * PT_TO_MM * 0.6 : 0;
+      flow.addText(segment.text, xOffset, y - raise, segmentFont, segment.style.link);
     }
-
-    const startX = x + indent;
-    const contentWidth = pageWidth - startX - pageNumberWidth - marginRight;
-    
-    if (prefix) {
-      doc.text(prefix, startX, currentY);
-      doc.text(title, startX + 15, currentY);
-    } else {
-      doc.text(title, startX, currentY);
+    if (segment.style.note) {
+      flow.addDestination([segment.style.note.referenceId], y - segmentFont.size * PT_TO_MM * 2);
     }
-
-    const titleWidth = prefix 
-      ? doc.getTextWidth(prefix + '  ' + title)
-      : doc.getTextWidth(title);
-    const dotsStart = startX + titleWidth + 5;
-    const dotsEnd = pageWidth - marginRight - pageNumberWidth;
-    const dotWidth = doc.getTextWidth(dotChar);
-    const numberOfDots = Math.floor((dotsEnd - dotsStart) / (dotWidth + dotSpacing));
-
-    doc.setFont(options.font, 'normal');
-    for (let i = 0; i < numberOfDots; i++) {
-      doc.text(dotChar, dotsStart + i * (dotWidth + dotSpacing), currentY);
+    if (segment.style.strike) {
+      const strikeY = y - segmentFont.size * PT_TO_MM * 0.3;
+      flow.addLine({ x1: xOffset, y1: strikeY, x2: xOffset + width, y2: strikeY, width: segmentFont.size * 0.02 });
     }
+    xOffset += width;
+  });
+}
 
-    doc.text(pageNumber, pageWidth - marginRight - pageNumberWidth, currentY, { align: 'right' });
+// A footnote laid out in the text area's width, one entry per line
+function footnoteLines(flow: LayoutFlow, note: Note, options: PDFMarkdownOptions): FlowNote {
+  const size = options.fontSize * NOTE_SIZE_SCALE;
+  const lineHeight = size * PT_TO_MM * options.lineHeight;
+  const font = (style: TextStyle) => fontFor(style, options, size);
+  const width = flow.contentWidth - NOTE_INDENT;
+  const lines = splitTextToLines(flow.measure, toSegments(note.children, options), font, width);
+  if (lines.length === 0) lines.push([]);
+
+  return {
+    id: note.id,
+    lines: lines.map((lineSegments, index) => ({
+      height: lineHeight,
+      draw: (baseline: number) => {
+        if (index === 0) flow.addText(String(note.number), flow.contentLeft, baseline, font(plainStyle));
+        drawLine(flow, lineSegments, flow.contentLeft + NOTE_INDENT, baseline, width, options.align, index === lines.length - 1, font);
+      },
+    })),
+  };
+}
 
-    currentY += lineHeight;
+// Footnotes referenced on a line, which the flow keeps on the line's page
+function notesOnLine(flow: LayoutFlow, segments: TextSegment[], options: PDFMarkdownOptions): FlowNote[] {
+  if (!options.footnotes) return [];
+  const notes = new Set(segments.map(segment => segment.style.note).filter((note): note is Note => note !== null));
+  return Array.from(notes, note => footnoteLines(flow, note, options));
+}
 
-    if (content.match(/^Bab\s+\d+/i)) {
-      currentY += lineHeight * 0.5;
-    }
+// Places the lines of one block, moving to a new page whenever the next line
+// does not fit
+function layoutLines(
+  flow: LayoutFlow,
+  lines: TextSegment[][],
+  x: number,
+  maxWidth: number,
+  lineHeight: number,
+  font: (style: TextStyle) => FontSpec,
+  options: PDFMarkdownOptions,
+  onFirstLine?: (y: number) => void
+) {
+  lines.forEach((lineSegments, lineIndex) => {
+    const y = flow.nextLine(lineHeight, notesOnLine(flow, lineSegments, options));
+    if (lineIndex === 0) onFirstLine?.(y);
+    drawLine(flow, lineSegments, x, y, maxWidth, options.align, lineIndex === lines.length - 1, font);
+  });
+}
+
+// Column widths that fit maxWidth: natural widths when they fit, otherwise each
+// column keeps its longest word and the rest is shared by how much more it wants
+function tableColumnWidths(
+  flow: LayoutFlow,
+  rows: TextSegment[][][],
+  columns: number,
+  font: (style: TextStyle) => FontSpec,
+  maxWidth: number
+): number[] {
+  const natural = new Array<number>(columns).fill(0);
+  const minimum = new Array<number>(columns).fill(0);
+
+  rows.forEach(row => row.forEach((cell, column) => {
+    const width = cell.reduce((sum, segment) => sum + flow.measure(segment.text, font(segment.style)), 0);
+    natural[column] = Math.max(natural[column], width + TABLE_CELL_PADDING_X * 2);
+    cell.forEach(segment => segment.text.split(/\s+/).forEach(word => {
+      minimum[column] = Math.max(minimum[column], flow.measure(word, font(segment.style)) + TABLE_CELL_PADDING_X * 2);
+    }));
+  }));
+
+  const naturalTotal = natural.reduce((sum, width) => sum + width, 0);
+  if (naturalTotal <= maxWidth) return natural;
+
+  const minimumTotal = minimum.reduce((sum, width) => sum + width, 0);
+  if (minimumTotal >= maxWidth) {
+    return minimum.map(width => (width / minimumTotal) * maxWidth);
   }
 
-  return currentY;
+  const spare = maxWidth - minimumTotal;
+  const wanted = naturalTotal - minimumTotal;
+  return minimum.map((width, column) => width + ((natural[column] - width) / wanted) * spare);
 }
 
-export function parsePDFMarkdown(
-  doc: jsPDF,
-  text: string,
+// Tables break between rows and repeat their header row on every page
+function layoutTable(
+  flow: LayoutFlow,
+  table: TableNode,
   x: number,
-  y: number,
-  options: PDFMarkdownOptions
-): number {
-  if (!text) return y;
+  options: PDFMarkdownOptions,
+  lineHeight: number
+) {
+  const columns = table.align.length;
+  const headerFont = (style: TextStyle) => fontFor({ ...style, bold: true }, options, options.fontSize);
+  const bodyFont = (style: TextStyle) => fontFor(style, options, options.fontSize);
+
+  const header = table.header.map(cell => toSegments(cell, options));
+  const body = table.rows.map(row => row.map(cell => toSegments(cell, options)));
+  const widths = tableColumnWidths(flow, [header, ...body], columns, headerFont, options.maxWidth);
+
+  const measureRow = (cells: TextSegment[][], font: (style: TextStyle) => FontSpec) => {
+    const lines = cells.map((cell, column) =>
+      splitTextToLines(flow.measure, cell, font, widths[column] - TABLE_CELL_PADDING_X * 2)
+    );
+    const height = Math.max(1, ...lines.map(cellLines => cellLines.length)) * lineHeight + TABLE_CELL_PADDING_Y * 2;
+    return { lines, height, font };
+  };
 
-  text = text.replace(/---/g, '\n');
-  text = text.replace(/\n{2,}/g, '\n');
+  const headerRow = measureRow(header, headerFont);
+  const bodyRows = body.map(cells => measureRow(cells, bodyFont));
+  const tableWidth = widths.reduce((sum, width) => sum + width, 0);
+  // Centres the em box of each line in its line height
+  const ascent = (lineHeight + options.fontSize * PT_TO_MM) / 2 - options.fontSize * PT_TO_MM * 0.2;
+
+  const drawRow = (row: ReturnType<typeof measureRow>) => {
+    const bottom = flow.nextLine(row.height, notesOnLine(flow, row.lines.flat(2), options));
+    const top = bottom - row.height;
+    let cellX = x;
+
+    row.lines.forEach((cellLines, column) => {
+      const cellWidth = widths[column] - TABLE_CELL_PADDING_X * 2;
+      cellLines.forEach((lineSegments, lineIndex) => {
+        const baseline = top + TABLE_CELL_PADDING_Y + lineIndex * lineHeight + ascent;
+        drawLine(flow, lineSegments, cellX + TABLE_CELL_PADDING_X, baseline, cellWidth, table.align[column] ?? 'left', true, row.font);
+      });
+      flow.addLine({ x1: cellX, y1: top, x2: cellX, y2: bottom, width: TABLE_RULE_WIDTH, color: TABLE_RULE_COLOR });
+      cellX += widths[column];
+    });
+
+    flow.addLine({ x1: cellX, y1: top, x2: cellX, y2: bottom, width: TABLE_RULE_WIDTH, color: TABLE_RULE_COLOR });
+    flow.addLine({ x1: x, y1: top, x2: x + tableWidth, y2: top, width: TABLE_RULE_WIDTH, color: TABLE_RULE_COLOR });
+    flow.addLine({ x1: x, y1: bottom, x2: x + tableWidth, y2: bottom, width: TABLE_RULE_WIDTH, color: TABLE_RULE_COLOR });
+  };
 
-  if (text.includes('- Halaman') && 
-      (text.includes('Bab') || text.includes('Kata Pengantar'))) {
-    return formatPDFTableOfContents(doc, text, x, y, options);
+  const totalHeight = [headerRow, ...bodyRows].reduce((sum, row) => sum + row.height, 0);
+  const keepTogether = options.keepTablesTogether && totalHeight <= flow.contentHeight;
+  // The header always comes with at least the first row
+  const openingHeight = keepTogether ? totalHeight : headerRow.height + (bodyRows[0]?.height ?? 0);
+  if (openingHeight > flow.spaceLeft()) flow.breakPage();
+
+  drawRow(headerRow);
+  for (const row of bodyRows) {
+    if (row.height > flow.spaceLeft() && flow.breakPage()) {
+      drawRow(headerRow);
+    }
+    drawRow(row);
   }
+}
 
-  doc.setFont(options.font, 'normal');
-  doc.setFontSize(options.fontSize);
-
-  const lineHeight = options.fontSize * 0.352778 * options.lineHeight;
-  let currentY = y;
-  const textLines = text.split('\n');
-
-  const pageHeight = doc.internal.pageSize.getHeight();
-  const marginBottom = 20;
-  const maxY = pageHeight - marginBottom;
-
-  for (let i = 0; i < textLines.length; i++) {
-    let line = textLines[i];
-    const baseIndentation = calculateIndentation(line);
-    line = line.trim();
-    
-    if (!line) {
-      currentY += lineHeight;
-      continue;
+// Breaks a line of code wherever it reaches the edge, keeping its spaces
+function breakCodeLine(measure: TextMeasurer, line: string, font: FontSpec, maxWidth: number): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (current && measure(current + char, font) > maxWidth) {
+      parts.push(current);
+      current = '';
     }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+function layoutCode(flow: LayoutFlow, code: CodeNode, x: number, options: PDFMarkdownOptions) {
+  const font: FontSpec = { family: options.blocks.codeFont, style: 'normal', size: options.fontSize * CODE_SIZE_SCALE };
+  const lineHeight = font.size * PT_TO_MM * options.lineHeight;
 
-    if (currentY + lineHeight > maxY) {
-      return currentY;
+  for (const sourceLine of code.value.replace(/\t/g, '    ').split('\n')) {
+    for (const line of breakCodeLine(flow.measure, sourceLine, font, options.maxWidth - CODE_BLOCK_INDENT)) {
+      const y = flow.nextLine(lineHeight);
+      if (line.trim()) flow.addText(line, x + CODE_BLOCK_INDENT, y, font);
     }
+  }
+}
 
-    const headerMatch = line.match(/^(#{1,6})\s+(.+)$/);
-    if (headerMatch) {
-      const level = headerMatch[1].length;
-      const content = headerMatch[2];
-      
-      currentY += lineHeight;
-      if (currentY > maxY) return currentY;
-      
-      doc.setFontSize(options.fontSize * (2.5 - (level * 0.3)));
-      doc.setFont(options.font, 'bold');
-      
-      const segments = parseInlineMarkdown(content);
-      const lines = splitTextToLines(doc, segments, options.maxWidth, baseIndentation, options.font);
-      
-      lines.forEach((lineSegments, lineIndex) => {
-        if (currentY > maxY) return;
-        
-        let xOffset = x + (baseIndentation * options.fontSize);
-        
-        if (options.align === 'justify') {
-          renderJustifiedLine(
-            doc,
-            lineSegments,
-            xOffset,
-            currentY,
-            options.maxWidth - (baseIndentation * options.fontSize),
-            lineIndex === lines.length - 1
-          );
-        } else {
-          let totalWidth = 0;
-          lineSegments.forEach(segment => {
-            applyStyle(doc, segment.style, options.fontSize, options.font);
-            totalWidth += doc.getTextWidth(segment.text);
-          });
-          
-          if (options.align === 'center') {
-            xOffset = x + (options.maxWidth - totalWidth) / 2;
-          } else if (options.align === 'right') {
-            xOffset = x + options.maxWidth - totalWidth;
-          }
-          
-          lineSegments.forEach(segment => {
-            applyStyle(doc, segment.style, options.fontSize, options.font);
-            doc.text(segment.text, xOffset, currentY);
-            xOffset += doc.getTextWidth(segment.text);
-          });
-        }
-        
-        if (lineIndex < lines.length - 1) {
-          currentY += lineHeight;
-        }
+// The same flow, drawing a piece of the quote rule beside every line so the
+// rule follows the quote across pages
+function quoteFlow(flow: LayoutFlow, ruleX: number, options: PDFMarkdownOptions): LayoutFlow {
+  const descent = options.fontSize * PT_TO_MM * 0.3;
+  return {
+    ...flow,
+    nextLine: (height, notes) => {
+      const y = flow.nextLine(height, notes);
+      flow.addLine({
+        x1: ruleX,
+        y1: y - height + descent,
+        x2: ruleX,
+        y2: y + descent,
+        width: QUOTE_RULE_WIDTH,
+        color: QUOTE_RULE_COLOR,
       });
-      
-      doc.setFontSize(options.fontSize);
-      doc.setFont(options.font, 'normal');
-      continue;
-    }
+      return y;
+    },
+  };
+}
 
-    const orderedListMatch = line.match(/^(\d+)\.\s+(.+)$/);
-    if (orderedListMatch) {
-      const content = orderedListMatch[2];
-      const listNumber = orderedListMatch[1];
-      const listIndent = baseIndentation * options.fontSize;
-      
-      currentY += lineHeight;
-      if (currentY > maxY) return currentY;
-      
-      doc.text(`${listNumber}.`, x + listIndent, currentY);
-      const segments = parseInlineMarkdown(content);
-      const lines = splitTextToLines(doc, segments, options.maxWidth - (listIndent + 5), baseIndentation, options.font);
-      
-      lines.forEach((lineSegments, lineIndex) => {
-        if (currentY > maxY) return;
-        
-        let xOffset = x + listIndent + 5;
-        
-        if (options.align === 'justify') {
-          renderJustifiedLine(
-            doc,
-            lineSegments,
-            xOffset,
-            currentY,
-            options.maxWidth - (listIndent + 5),
-            lineIndex === lines.length - 1
-          );
-        } else {
-          let totalWidth = 0;
-          lineSegments.forEach(segment => {
-            applyStyle(doc, segment.style, options.fontSize, options.font);
-            totalWidth += doc.getTextWidth(segment.text);
-          });
-          
-          if (options.align === 'center') {
-            xOffset = x + listIndent + 5 + (options.maxWidth - listIndent - 5 - totalWidth) / 2;
-          } else if (options.align === 'right') {
-            xOffset = x + options.maxWidth - totalWidth;
-          }
-          
-          lineSegments.forEach(segment => {
-            applyStyle(doc, segment.style, options.fontSize, options.font);
-            doc.text(segment.text, xOffset, currentY);
-            xOffset += doc.getTextWidth(segment.text);
-          });
-        }
-        
-        if (lineIndex < lines.length - 1) {
-          currentY += lineHeight;
-        }
+function layoutBlocks(flow: LayoutFlow, blocks: BlockNode[], x: number, options: PDFMarkdownOptions) {
+  const lineHeight = options.fontSize * PT_TO_MM * options.lineHeight;
+  const bodyFont = (style: TextStyle) => fontFor(style, options, options.fontSize);
+
+  const layoutList = (list: ListNode) => {
+    list.items.forEach((item, index) => {
+      const indent = calculateIndentation(item) * options.fontSize;
+      const marker = list.ordered ? `${list.start + index}.` : '•';
+      const textX = x + indent + 5;
+      const textWidth = options.maxWidth - indent - 5;
+      const lines = splitTextToLines(flow.measure, toSegments(item.children, options), bodyFont, textWidth);
+
+      layoutLines(flow, lines, textX, textWidth, lineHeight, bodyFont, options, (y) => {
+        flow.addText(marker, x + indent, y, bodyFont(plainStyle));
       });
-      continue;
-    }
+      item.sublists.forEach(layoutList);
+    });
+  };
 
-    const unorderedListMatch = line.match(/^[-*]\s+(.+)$/);
-    if (unorderedListMatch) {
-      const content = unorderedListMatch[1];
-      const listIndent = baseIndentation * options.fontSize;
-      
-      currentY += lineHeight;
-      if (currentY > maxY) return currentY;
-      
-      doc.text('•', x + listIndent, currentY);
-      const segments = parseInlineMarkdown(content);
-      const lines = splitTextToLines(doc, segments, options.maxWidth - (listIndent + 5), baseIndentation, options.font);
-      
-      lines.forEach((lineSegments, lineIndex) => {
-        if (currentY > maxY) return;
-        
-        let xOffset = x + listIndent + 5;
-        
-        if (options.align === 'justify') {
-          renderJustifiedLine(
-            doc,
-            lineSegments,
-            xOffset,
-            currentY,
-            options.maxWidth - (listIndent + 5),
-            lineIndex === lines.length - 1
-          );
-        } else {
-          let totalWidth = 0;
-          lineSegments.forEach(segment => {
-            applyStyle(doc, segment.style, options.fontSize, options.font);
-            totalWidth += doc.getTextWidth(segment.text);
-          });
-          
-          if (options.align === 'center') {
-            xOffset = x + listIndent + 5 + (options.maxWidth - listIndent - 5 - totalWidth) / 2;
-          } else if (options.align === 'right') {
-            xOffset = x + options.maxWidth - totalWidth;
-          }
-          
-          lineSegments.forEach(segment => {
-            applyStyle(doc, segment.style, options.fontSize, options.font);
-            doc.text(segment.text, xOffset, currentY);
-            xOffset += doc.getTextWidth(segment.text);
-          });
-        }
-        
-        if (lineIndex < lines.length - 1) {
-          currentY += lineHeight;
-        }
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      const indent = calculateIndentation(block) * options.fontSize;
+      const size = options.fontSize * (2.5 - (block.level * 0.3));
+      const headingFont = (style: TextStyle) => fontFor({ ...style, bold: true }, options, size);
+      const lines = splitTextToLines(flow.measure, toSegments(block.children, options), headingFont, options.maxWidth - indent);
+
+      layoutLines(flow, lines, x + indent, options.maxWidth - indent, size * PT_TO_MM * options.lineHeight, headingFont, options, (y) => {
+        flow.addDestination([block.id], y - size * PT_TO_MM);
       });
-      continue;
+    } else if (block.type === 'table') {
+      layoutTable(flow, block, x, options, lineHeight);
+    } else if (block.type === 'list') {
+      layoutList(block);
+    } else if (block.type === 'blockquote') {
+      const { quoteIndent, quoteRule } = options.blocks;
+      const innerFlow = quoteRule ? quoteFlow(flow, x + quoteIndent / 2, options) : flow;
+      layoutBlocks(innerFlow, block.children, x + quoteIndent, { ...options, maxWidth: options.maxWidth - quoteIndent });
+    } else if (block.type === 'code') {
+      layoutCode(flow, block, x, options);
+    } else if (block.type === 'thematicBreak') {
+      const y = flow.nextLine(lineHeight) - lineHeight / 2;
+      flow.addLine({ x1: x, y1: y, x2: x + options.maxWidth, y2: y, width: BREAK_RULE_WIDTH });
+    } else if (block.type === 'sceneBreak') {
+      // A blank line either side of the ornament, kept on one page with it
+      const y = flow.nextLine(lineHeight * 3) - lineHeight;
+      const font = bodyFont(plainStyle);
+      const width = flow.measure(options.blocks.sceneBreak, font);
+      flow.addText(options.blocks.sceneBreak, x + (options.maxWidth - width) / 2, y, font);
+    } else if (block.type === 'paragraph') {
+      const indent = calculateIndentation(block) * options.fontSize;
+      const lines = splitTextToLines(flow.measure, toSegments(block.children, options), bodyFont, options.maxWidth - indent);
+      layoutLines(flow, lines, x + indent, options.maxWidth - indent, lineHeight, bodyFont, options);
     }
-
-    currentY += lineHeight;
-    if (currentY > maxY) return currentY;
-    
-    const segments = parseInlineMarkdown(line);
-    const lines = splitTextToLines(doc, segments, options.maxWidth, baseIndentation, options.font);
-    
-    lines.forEach((lineSegments, lineIndex) => {
-      if (currentY > maxY) return;
-      
-      let xOffset = x + (baseIndentation * options.fontSize);
-      
-      if (options.align === 'justify') {
-        renderJustifiedLine(
-          doc,
-          lineSegments,
-          xOffset,
-          currentY,
-          options.maxWidth - (baseIndentation * options.fontSize),
-          lineIndex === lines.length - 1
-        );
-      } else {
-        let totalWidth = 0;
-        lineSegments.forEach(segment => {
-          applyStyle(doc, segment.style, options.fontSize, options.font);
-          totalWidth += doc.getTextWidth(segment.text);
-        });
-        
-        if (options.align === 'center') {
-          xOffset = x + (options.maxWidth - totalWidth) / 2;
-        } else if (options.align === 'right') {
-          xOffset = x + options.maxWidth - totalWidth;
-        }
-        
-        lineSegments.forEach(segment => {
-          applyStyle(doc, segment.style, options.fontSize, options.font);
-          doc.text(segment.text, xOffset, currentY);
-          xOffset += doc.getTextWidth(segment.text);
-        });
-      }
-      
-      if (lineIndex < lines.length - 1) {
-        currentY += lineHeight;
-      }
-    });
+    // Footnote definitions are placed where they are referenced
   }
+}
+
+// Lays out a chapter's markdown text into the flow
+export function layoutMarkdown(
+  flow: LayoutFlow,
+  text: string,
+  x: number,
+  options: PDFMarkdownOptions
+) {
+  layoutBlocks(flow, parseMarkdownAst(text), x, options);
+}
+
+// One endnote: its number, linking back to the reference, then its text
+export function layoutNote(flow: LayoutFlow, note: Note, x: number, options: PDFMarkdownOptions) {
+  const lineHeight = options.fontSize * PT_TO_MM * options.lineHeight;
+  const font = (style: TextStyle) => fontFor(style, options, options.fontSize);
+  const lines = splitTextToLines(flow.measure, toSegments(note.children, options), font, options.maxWidth - NOTE_INDENT);
+  if (lines.length === 0) lines.push([]);
 
-  return currentY;
-}
\ No newline at end of file
+  layoutLines(flow, lines, x + NOTE_INDENT, options.maxWidth - NOTE_INDENT, lineHeight, font, options, (y) => {
+    flow.addDestination([note.id], y - options.fontSize * PT_TO_MM);
+    flow.addText(String(note.number), x, y, font(plainStyle), `#${note.referenceId}`);
+  });
+}
@@ -0,0 +1,96 @@
+import type { jsPDF } from 'jspdf';
+import type { PDFDocument } from 'pdf-lib';
+import type { EbookSettings, PdfProfile } from '../types';
+import { pageDimensions } from './layout';
+
+const MM_TO_PT = 72 / 25.4;
+
+// Crop marks stop short of the bleed, so they are cut away with it
+const CROP_MARK_GAP = 2;
+const CROP_MARK_LENGTH = 5;
+const CROP_MARK_WIDTH = 0.1; // mm, about a quarter point
+
+// Where the trimmed page sits on the sheet jsPDF draws, in mm. The screen
+// profile has no bleed or marks, so its sheet is the trimmed page.
+export type PdfGeometry = {
+  profile: PdfProfile;
+  trimWidth: number;
+  trimHeight: number;
+  bleed: number;
+  offset: number; // from the sheet edge to the trim
+  sheetWidth: number;
+  sheetHeight: number;
+};
+
+// `trim` defaults to the book's page; the wraparound cover passes its own
+export function pdfGeometry(
+  settings: EbookSettings,
+  profile: PdfProfile,
+  trim: { width: number; height: number } = pageDimensions(settings)
+): PdfGeometry {
+  const { width, height } = trim;
+  const bleed = profile === 'print' ? Math.max(0, settings.print.bleed) : 0;
+  const marks = profile === 'print' && settings.print.cropMarks ? CROP_MARK_GAP + CROP_MARK_LENGTH : 0;
+  const offset = bleed + marks;
+  return {
+    profile,
+    trimWidth: width,
+    trimHeight: height,
+    bleed,
+    offset,
+    sheetWidth: width + 2 * offset,
+    sheetHeight: height + 2 * offset,
+  };
+}
+
+// Draws in page colours as they are, except that print output keeps to
+// process inks: greys stay DeviceGray (black text is pure K on press) and
+// other colours are converted to CMYK
+export function inkColor(doc: jsPDF, color: string, geometry: PdfGeometry, target: 'text' | 'draw' | 'fill') {
+  const setters = { text: doc.setTextColor, draw: doc.setDrawColor, fill: doc.setFillColor };
+  const set = setters[target].bind(doc);
+  const [r, g, b] = [1, 3, 5].map((i) => parseInt(color.slice(i, i + 2), 16) / 255);
+  if (geometry.profile === 'screen' || (r === g && g === b)) {
+    set(color);
+    return;
+  }
+
+  const k = 1 - Math.max(r, g, b);
+  const cmy = [r, g, b].map((channel) => (k === 1 ? 0 : (1 - channel - k) / (1 - k)));
+  set(cmy[0], cmy[1], cmy[2], k);
+}
+
+// Registration colour, so the marks show on every printing plate
+export function drawCropMarks(doc: jsPDF, geometry: PdfGeometry) {
+  const { offset, bleed, trimWidth, trimHeight } = geometry;
+  const reach = offset - bleed - CROP_MARK_GAP;
+  if (reach <= 0) return;
+
+  const xs = [offset, offset + trimWidth];
+  const ys = [offset, offset + trimHeight];
+  doc.setDrawColor(1, 1, 1, 1);
+  doc.setLineWidth(CROP_MARK_WIDTH);
+  for (const x of xs) {
+    doc.line(x, 0, x, reach);
+    doc.line(x, geometry.sheetHeight - reach, x, geometry.sheetHeight);
+  }
+  for (const y of ys) {
+    doc.line(0, y, reach, y);
+    doc.line(geometry.sheetWidth - reach, y, geometry.sheetWidth, y);
+  }
+}
+
+// Tells the printer where to cut and how far the artwork runs past the cut
+export function setPrintBoxes(pdf: PDFDocument, geometry: PdfGeometry) {
+  const bleedOffset = (geometry.offset - geometry.bleed) * MM_TO_PT;
+  const trimOffset = geometry.offset * MM_TO_PT;
+  for (const page of pdf.getPages()) {
+    page.setBleedBox(
+      bleedOffset,
+      bleedOffset,
+      (geometry.trimWidth + 2 * geometry.bleed) * MM_TO_PT,
+      (geometry.trimHeight + 2 * geometry.bleed) * MM_TO_PT
+    );
+    page.setTrimBox(trimOffset, trimOffset, geometry.trimWidth * MM_TO_PT, geometry.trimHeight * MM_TO_PT);
+  }
+}
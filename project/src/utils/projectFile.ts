@@ -0,0 +1,189 @@
+import JSZip from 'jszip';
+import type { BookData, Chapter } from '../types';
+import { extensionsByType, mapBookAssets, urlToBlob } from './bookAssets';
+import { CURRENT_SCHEMA_VERSION, ProjectValidationError, parseBookData } from './projectSchema';
+import type { ValidationIssue } from './projectSchema';
+
+export const PROJECT_FILE_EXTENSION = '.ebookproj';
+const PROJECT_FORMAT = 'ebookproj';
+const MANIFEST_PATH = 'manifest.json';
+
+type ManifestSubChapter = {
+  id: string;
+  title: string;
+  contentFile: string;
+};
+
+// Page numbers and labels come from the layout and are not saved
+type ManifestChapter = Pick<Chapter, 'id' | 'title' | 'type' | 'images' | 'indentation' | 'lineSpacing'> & {
+  contentFile: string;
+  subChapters: ManifestSubChapter[];
+};
+
+type Manifest = {
+  format: string;
+  schemaVersion: number;
+  exportedAt: string;
+  settings: Record<string, unknown>;
+  chapters: ManifestChapter[];
+};
+
+function slugify(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40) || 'untitled';
+}
+
+function pad(index: number) {
+  return String(index + 1).padStart(2, '0');
+}
+
+export async function exportProjectFile(book: BookData): Promise<Blob> {
+  const zip = new JSZip();
+  const assetPaths = new Map<string, string>();
+
+  const withAssetPaths = await mapBookAssets(book, async (url) => {
+    const existing = assetPaths.get(url);
+    if (existing) return existing;
+
+    const blob = await urlToBlob(url);
+    const extension = extensionsByType[blob.type] ?? 'bin';
+    const path = `assets/${crypto.randomUUID()}.${extension}`;
+    zip.file(path, blob);
+    assetPaths.set(url, path);
+    return path;
+  });
+
+  const chapters = withAssetPaths.chapters.map((chapter, i) => {
+    const folder = `chapters/${pad(i)}-${slugify(chapter.title)}`;
+    zip.file(`${folder}/content.md`, chapter.content);
+
+    return {
+      id: chapter.id,
+      title: chapter.title,
+      type: chapter.type,
+      images: chapter.images,
+      indentation: chapter.indentation,
+      lineSpacing: chapter.lineSpacing,
+      contentFile: `${folder}/content.md`,
+      subChapters: chapter.subChapters.map((subChapter, j) => {
+        const contentFile = `${folder}/${pad(j)}-${slugify(subChapter.title)}.md`;
+        zip.file(contentFile, subChapter.content);
+        return { id: subChapter.id, title: subChapter.title, contentFile };
+      }),
+    };
+  });
+
+  const manifest: Manifest = {
+    format: PROJECT_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings: withAssetPaths.settings,
+    chapters,
+  };
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+}
+
+function invalid(issues: ValidationIssue[]): never {
+  throw new ProjectValidationError('Not a valid project file', issues);
+}
+
+export async function importProjectFile(file: Blob): Promise<BookData> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    invalid([{ path: 'file', message: 'File is not a zip archive' }]);
+  }
+
+  const manifestFile = zip.file(MANIFEST_PATH);
+  if (!manifestFile) {
+    invalid([{ path: MANIFEST_PATH, message: 'Missing manifest.json' }]);
+  }
+
+  let manifest: Partial<Manifest>;
+  try {
+    manifest = JSON.parse(await manifestFile.async('string'));
+  } catch (err) {
+    invalid([{ path: MANIFEST_PATH, message: `Invalid JSON: ${(err as Error).message}` }]);
+  }
+
+  if (manifest.format !== PROJECT_FORMAT) {
+    invalid([{ path: 'format', message: `Expected "${PROJECT_FORMAT}", got ${JSON.stringify(manifest.format)}` }]);
+  }
+  if (typeof manifest.schemaVersion !== 'number' || !Number.isInteger(manifest.schemaVersion)) {
+    invalid([{ path: 'schemaVersion', message: 'Missing or non-integer schema version' }]);
+  }
+  if (!Array.isArray(manifest.chapters)) {
+    invalid([{ path: 'chapters', message: 'Expected an array of chapters' }]);
+  }
+
+  // Resolve every file reference before validating so missing files are reported per field
+  const issues: ValidationIssue[] = [];
+  const readText = async (path: unknown, field: string) => {
+    const entry = typeof path === 'string' ? zip.file(path) : null;
+    if (!entry) {
+      issues.push({ path: field, message: `Missing file ${JSON.stringify(path)}` });
+      return '';
+    }
+    return entry.async('string');
+  };
+
+  const chapters = await Promise.all(
+    manifest.chapters.map(async (chapter, i) => {
+      if (typeof chapter !== 'object' || chapter === null) return chapter;
+      const { contentFile, subChapters, ...rest } = chapter;
+      return {
+        ...rest,
+        content: await readText(contentFile, `chapters[${i}].contentFile`),
+        subChapters: Array.isArray(subChapters)
+          ? await Promise.all(
+              subChapters.map(async (subChapter, j) => {
+                if (typeof subChapter !== 'object' || subChapter === null) return subChapter;
+                const { contentFile: subFile, ...subRest } = subChapter;
+                return {
+                  ...subRest,
+                  content: await readText(subFile, `chapters[${i}].subChapters[${j}].contentFile`),
+                };
+              })
+            )
+          : subChapters,
+      };
+    })
+  );
+
+  let book: BookData;
+  try {
+    book = parseBookData({ chapters, settings: manifest.settings }, manifest.schemaVersion);
+  } catch (err) {
+    if (err instanceof ProjectValidationError) {
+      invalid([...issues, ...err.issues]);
+    }
+    throw err;
+  }
+  if (issues.length > 0) {
+    invalid(issues);
+  }
+
+  const missingAssets: ValidationIssue[] = [];
+  const resolved = await mapBookAssets(book, async (path) => {
+    const entry = zip.file(path);
+    if (!entry) {
+      missingAssets.push({ path, message: 'Referenced asset is missing from the archive' });
+      return '';
+    }
+    const data = await entry.async('blob');
+    const extension = path.split('.').pop() ?? '';
+    const type = Object.entries(extensionsByType).find(([, ext]) => ext === extension)?.[0] ?? '';
+    return URL.createObjectURL(new Blob([data], { type }));
+  });
+  if (missingAssets.length > 0) {
+    invalid(missingAssets);
+  }
+
+  return resolved;
+}
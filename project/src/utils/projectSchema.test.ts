@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { defaultSettings } from '../store/useEbookStore';
+import type { Chapter } from '../types';
+import { CURRENT_SCHEMA_VERSION, ProjectValidationError, migrateBook, parseBookData } from './projectSchema';
+
+const chapter: Chapter = {
+  id: 'c1',
+  title: 'One',
+  content: 'Text',
+  images: [{ id: 'i1', url: 'data:image/png;base64,', caption: '', alignment: 'center', width: 100 }],
+  type: 'chapter',
+  indentation: 0,
+  lineSpacing: 1.5,
+  subChapters: [{ id: 's1', title: 'Part', content: '' }],
+};
+
+// A stored copy, so tests can break fields without touching the fixtures
+function storedBook(settings: unknown = defaultSettings, chapters: unknown = [chapter]) {
+  return JSON.parse(JSON.stringify({ settings, chapters }));
+}
+
+function issuesOf(run: () => unknown) {
+  try {
+    run();
+  } catch (err) {
+    if (err instanceof ProjectValidationError) return err.issues;
+    throw err;
+  }
+  throw new Error('expected a ProjectValidationError');
+}
+
+describe('migrateBook', () => {
+  it('moves v1 page numbering into per-section schemes', () => {
+    const v1 = storedBook({
+      pageNumbering: { enabled: true, position: 'bottom', alignment: 'center', style: 'roman', startFrom: 3 },
+    });
+    const migrated = migrateBook(v1, 1).settings as { pageNumbering: Record<string, unknown> };
+
+    expect(migrated.pageNumbering).toEqual({
+      enabled: true,
+      position: 'bottom',
+      alignment: 'center',
+      sections: {
+        frontmatter: { style: 'lower-roman', restart: true, startFrom: 1 },
+        body: { style: 'lower-roman', restart: true, startFrom: 3 },
+        backmatter: { style: 'lower-roman', restart: false, startFrom: 1 },
+      },
+    });
+  });
+
+  it('defaults a v1 book without a style to decimal numbering from 1', () => {
+    const migrated = migrateBook(storedBook({ pageNumbering: { enabled: false } }), 1).settings as {
+      pageNumbering: { sections: { body: unknown } };
+    };
+    expect(migrated.pageNumbering.sections.body).toEqual({ style: 'decimal', restart: true, startFrom: 1 });
+  });
+
+  it('leaves a current book as it is', () => {
+    const book = storedBook();
+    expect(migrateBook(book, CURRENT_SCHEMA_VERSION)).toBe(book);
+  });
+
+  it('refuses books from a newer editor', () => {
+    expect(issuesOf(() => migrateBook(storedBook(), CURRENT_SCHEMA_VERSION + 1))).toEqual([
+      expect.objectContaining({ path: 'schemaVersion' }),
+    ]);
+  });
+});
+
+describe('parseBookData', () => {
+  it('accepts a valid book', () => {
+    const book = parseBookData(storedBook(), CURRENT_SCHEMA_VERSION);
+    expect(book.settings).toEqual(defaultSettings);
+    expect(book.chapters).toEqual([chapter]);
+  });
+
+  it('fills settings missing from older books with the defaults', () => {
+    const { toc, ...settings } = storedBook().settings;
+    expect(toc).toBeDefined();
+    expect(parseBookData(storedBook(settings), CURRENT_SCHEMA_VERSION).settings.toc).toEqual(defaultSettings.toc);
+  });
+
+  it('upgrades v1 books on the way in', () => {
+    const { pageNumbering, ...settings } = storedBook().settings;
+    const v1 = storedBook({ ...settings, pageNumbering: { ...pageNumbering, sections: undefined, style: 'decimal' } });
+    expect(parseBookData(v1, 1).settings.pageNumbering.sections).toEqual(defaultSettings.pageNumbering.sections);
+  });
+
+  it('lists every invalid field', () => {
+    const book = storedBook();
+    book.settings.margins.top = null;
+    book.settings.paperSize = 'A0';
+    book.chapters[0].lineSpacing = 'wide';
+
+    expect(issuesOf(() => parseBookData(book, CURRENT_SCHEMA_VERSION)).map((issue) => issue.path)).toEqual([
+      'settings.paperSize',
+      'settings.margins.top',
+      'chapters[0].lineSpacing',
+    ]);
+  });
+
+  it('repairs stored books by falling back to the defaults', () => {
+    const book = storedBook();
+    book.settings.margins.top = null;
+    book.settings.paperSize = 'A0';
+    book.settings.fonts.paragraph = 12;
+    book.chapters[0].indentation = null;
+    book.chapters[0].images[0].width = null;
+
+    const repaired = parseBookData(book, CURRENT_SCHEMA_VERSION, { repair: true });
+    expect(repaired.settings).toEqual(defaultSettings);
+    expect(repaired.chapters).toEqual([chapter]);
+  });
+
+  it('still rejects stored books with a broken structure', () => {
+    const book = storedBook();
+    book.chapters[0].subChapters = null;
+    expect(issuesOf(() => parseBookData(book, CURRENT_SCHEMA_VERSION, { repair: true }))).toEqual([
+      expect.objectContaining({ path: 'chapters[0].subChapters' }),
+    ]);
+  });
+});
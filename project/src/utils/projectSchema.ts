@@ -0,0 +1,328 @@
+import type { BookData, Chapter, EbookSettings } from '../types';
+import { defaultSettings } from '../store/useEbookStore';
+
+// Bump when the persisted shape of Chapter or EbookSettings changes in a way
+// defaults cannot fill in, and add a migration from the previous version below.
+export const CURRENT_SCHEMA_VERSION = 2;
+
+export type ValidationIssue = {
+  path: string;
+  message: string;
+};
+
+export class ProjectValidationError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[]) {
+    super(message);
+    this.name = 'ProjectValidationError';
+    this.issues = issues;
+  }
+}
+
+type RawBook = { chapters: unknown; settings: unknown };
+type Migration = (book: RawBook) => RawBook;
+
+// migrations[n] upgrades a book from schema version n to n + 1
+const migrations: Record<number, Migration> = {
+  // v1 had a single `style`/`startFrom` for the body; front matter was always lower roman
+  1: (book) => {
+    if (!isPlainObject(book.settings) || !isPlainObject(book.settings.pageNumbering)) return book;
+    const { style, startFrom, ...pageNumbering } = book.settings.pageNumbering;
+    const bodyStyle = style === 'roman' ? 'lower-roman' : style ?? 'decimal';
+    return {
+      ...book,
+      settings: {
+        ...book.settings,
+        pageNumbering: {
+          ...pageNumbering,
+          sections: {
+            frontmatter: { style: 'lower-roman', restart: true, startFrom: 1 },
+            body: { style: bodyStyle, restart: true, startFrom: startFrom ?? 1 },
+            backmatter: { style: bodyStyle, restart: false, startFrom: 1 },
+          },
+        },
+      },
+    };
+  },
+};
+
+export function migrateBook(book: RawBook, fromVersion: number): RawBook {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new ProjectValidationError('Unsupported project version', [
+      {
+        path: 'schemaVersion',
+        message: `Project was saved with schema version ${fromVersion}, this editor supports up to ${CURRENT_SCHEMA_VERSION}. Update the editor to open it.`,
+      },
+    ]);
+  }
+
+  let migrated = book;
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    const migration = migrations[version];
+    if (!migration) {
+      throw new ProjectValidationError('Unsupported project version', [
+        { path: 'schemaVersion', message: `No migration from schema version ${version}` },
+      ]);
+    }
+    migrated = migration(migrated);
+  }
+  return migrated;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Fills settings missing from older projects with the current defaults
+function mergeDefaults(template: unknown, value: unknown): unknown {
+  if (!isPlainObject(template) || !isPlainObject(value)) {
+    return value === undefined ? template : value;
+  }
+  const merged: Record<string, unknown> = { ...value };
+  for (const key of Object.keys(template)) {
+    merged[key] = mergeDefaults(template[key], value[key]);
+  }
+  return merged;
+}
+
+const fontAlignments = ['left', 'right', 'center', 'justify'];
+const blockAlignments = ['left', 'center', 'right'];
+
+// Allowed values for string settings that are unions in types.ts, keyed by path
+// with `*` matching any single key.
+const settingEnums: Record<string, string[]> = {
+  language: ['id', 'en'],
+  paperSize: ['A4', 'A5', 'B5', 'Letter', 'Legal', '5.5x8.5in', '6x9in', '14x21cm', '15.5x23cm', 'custom'],
+  'customPaperSize.unit': ['mm', 'in'],
+  orientation: ['portrait', 'landscape'],
+  'fonts.*.alignment': fontAlignments,
+  'pageNumbering.position': ['top', 'bottom'],
+  'pageNumbering.alignment': blockAlignments,
+  'toc.leader': ['dots', 'dashes', 'underscore', 'none'],
+  'toc.chapterPrefix': ['label', 'number', 'none'],
+  'notes.placement': ['footnotes', 'endnotes'],
+  'notes.numbering': ['chapter', 'book'],
+  'chapterStarts.sections.*': ['recto', 'any', 'continue'],
+  'pageNumbering.sections.*.style': ['decimal', 'lower-roman', 'upper-roman', 'lower-alpha', 'upper-alpha', 'none'],
+};
+
+// Settings that may legitimately be null
+const nullableSettings = ['coverImage', 'backCoverImage'];
+
+function matchesPattern(path: string, pattern: string) {
+  const parts = path.split('.');
+  const patternParts = pattern.split('.');
+  return parts.length === patternParts.length &&
+    patternParts.every((part, i) => part === '*' || part === parts[i]);
+}
+
+function validateSetting(template: unknown, value: unknown, path: string, issues: ValidationIssue[]) {
+  if (value === null && nullableSettings.includes(path)) return;
+  // List settings have their own validators below
+  if (Array.isArray(template)) return;
+
+  if (isPlainObject(template)) {
+    if (!isPlainObject(value)) {
+      issues.push({ path: `settings.${path}`, message: 'expected an object' });
+      return;
+    }
+    for (const key of Object.keys(template)) {
+      validateSetting(template[key], value[key], path ? `${path}.${key}` : key, issues);
+    }
+    return;
+  }
+
+  const expected = template === null ? 'string' : typeof template;
+  if (typeof value !== expected || (expected === 'number' && !Number.isFinite(value))) {
+    issues.push({ path: `settings.${path}`, message: `expected ${expected}, got ${describe(value)}` });
+    return;
+  }
+
+  const allowed = Object.entries(settingEnums).find(([pattern]) => matchesPattern(path, pattern))?.[1];
+  if (allowed && !allowed.includes(value as string)) {
+    issues.push({
+      path: `settings.${path}`,
+      message: `"${value}" is not one of ${allowed.join(', ')}`,
+    });
+  }
+}
+
+function describe(value: unknown) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function expectType(
+  record: Record<string, unknown>,
+  key: string,
+  type: 'string' | 'number',
+  path: string,
+  issues: ValidationIssue[]
+) {
+  const value = record[key];
+  if (typeof value !== type || (type === 'number' && !Number.isFinite(value))) {
+    issues.push({ path: `${path}.${key}`, message: `expected ${type}, got ${describe(value)}` });
+  }
+}
+
+function validateCustomFonts(fonts: unknown, issues: ValidationIssue[]) {
+  if (!Array.isArray(fonts)) {
+    issues.push({ path: 'settings.customFonts', message: `expected array, got ${describe(fonts)}` });
+    return;
+  }
+
+  fonts.forEach((font, i) => {
+    const path = `settings.customFonts[${i}]`;
+    if (!isPlainObject(font)) {
+      issues.push({ path, message: `expected an object, got ${describe(font)}` });
+      return;
+    }
+    (['id', 'family'] as const).forEach((key) => expectType(font, key, 'string', path, issues));
+
+    if (!isPlainObject(font.files)) {
+      issues.push({ path: `${path}.files`, message: `expected an object, got ${describe(font.files)}` });
+      return;
+    }
+    const files = font.files;
+    (['regular', 'bold', 'italic', 'bolditalic'] as const).forEach((variant) => {
+      if (files[variant] !== null && typeof files[variant] !== 'string') {
+        issues.push({ path: `${path}.files.${variant}`, message: `expected string or null, got ${describe(files[variant])}` });
+      }
+    });
+  });
+}
+
+function validateChapters(chapters: unknown, issues: ValidationIssue[]) {
+  if (!Array.isArray(chapters)) {
+    issues.push({ path: 'chapters', message: `expected array, got ${describe(chapters)}` });
+    return;
+  }
+
+  const ids = new Set<string>();
+  chapters.forEach((chapter, i) => {
+    const path = `chapters[${i}]`;
+    if (!isPlainObject(chapter)) {
+      issues.push({ path, message: `expected an object, got ${describe(chapter)}` });
+      return;
+    }
+
+    (['id', 'title', 'content'] as const).forEach((key) => expectType(chapter, key, 'string', path, issues));
+    (['indentation', 'lineSpacing'] as const).forEach((key) => expectType(chapter, key, 'number', path, issues));
+
+    if (!['frontmatter', 'chapter', 'backmatter', 'toc'].includes(chapter.type as string)) {
+      issues.push({ path: `${path}.type`, message: `"${chapter.type}" is not one of frontmatter, chapter, backmatter, toc` });
+    }
+    if (typeof chapter.id === 'string') {
+      if (ids.has(chapter.id)) {
+        issues.push({ path: `${path}.id`, message: `duplicate chapter id "${chapter.id}"` });
+      }
+      ids.add(chapter.id);
+    }
+
+    if (!Array.isArray(chapter.images)) {
+      issues.push({ path: `${path}.images`, message: `expected array, got ${describe(chapter.images)}` });
+    } else {
+      chapter.images.forEach((image, j) => {
+        const imagePath = `${path}.images[${j}]`;
+        if (!isPlainObject(image)) {
+          issues.push({ path: imagePath, message: `expected an object, got ${describe(image)}` });
+          return;
+        }
+        (['id', 'url', 'caption'] as const).forEach((key) => expectType(image, key, 'string', imagePath, issues));
+        expectType(image, 'width', 'number', imagePath, issues);
+        if (!blockAlignments.includes(image.alignment as string)) {
+          issues.push({ path: `${imagePath}.alignment`, message: `"${image.alignment}" is not one of ${blockAlignments.join(', ')}` });
+        }
+        if (image.bleed !== undefined && typeof image.bleed !== 'boolean') {
+          issues.push({ path: `${imagePath}.bleed`, message: `expected boolean, got ${describe(image.bleed)}` });
+        }
+      });
+    }
+
+    if (!Array.isArray(chapter.subChapters)) {
+      issues.push({ path: `${path}.subChapters`, message: `expected array, got ${describe(chapter.subChapters)}` });
+    } else {
+      chapter.subChapters.forEach((subChapter, j) => {
+        const subPath = `${path}.subChapters[${j}]`;
+        if (!isPlainObject(subChapter)) {
+          issues.push({ path: subPath, message: `expected an object, got ${describe(subChapter)}` });
+          return;
+        }
+        (['id', 'title', 'content'] as const).forEach((key) => expectType(subChapter, key, 'string', subPath, issues));
+      });
+    }
+  });
+}
+
+// Puts the default back wherever a setting failed validation
+function resetSettings(settings: Record<string, unknown>, issues: ValidationIssue[]) {
+  for (const { path } of issues) {
+    const keys = path.split('.').slice(1);
+    let target = settings;
+    let template = defaultSettings as unknown as Record<string, unknown>;
+    for (const key of keys.slice(0, -1)) {
+      target = target[key] as Record<string, unknown>;
+      template = template[key] as Record<string, unknown>;
+    }
+    const key = keys[keys.length - 1];
+    target[key] = structuredClone(template[key]);
+  }
+}
+
+// Chapter numbers the editor fills in for new chapters and images
+const chapterNumberDefaults = { indentation: 0, lineSpacing: 1.5 };
+const IMAGE_WIDTH_DEFAULT = 100;
+
+function resetChapterNumbers(chapters: unknown) {
+  if (!Array.isArray(chapters)) return;
+  for (const chapter of chapters) {
+    if (!isPlainObject(chapter)) continue;
+    for (const [key, fallback] of Object.entries(chapterNumberDefaults)) {
+      if (!Number.isFinite(chapter[key])) chapter[key] = fallback;
+    }
+    if (!Array.isArray(chapter.images)) continue;
+    for (const image of chapter.images) {
+      if (isPlainObject(image) && !Number.isFinite(image.width)) image.width = IMAGE_WIDTH_DEFAULT;
+    }
+  }
+}
+
+export type ParseOptions = {
+  // For the user's own stored books: settings and chapter numbers that fail
+  // validation fall back to their defaults instead of failing the load
+  repair?: boolean;
+};
+
+// Migrates a book read from storage or a project file to the current schema and
+// checks every field. Throws ProjectValidationError listing all problems found.
+export function parseBookData(raw: RawBook, schemaVersion: number, options: ParseOptions = {}): BookData {
+  const migrated = migrateBook(raw, schemaVersion);
+  const settings = mergeDefaults(defaultSettings, migrated.settings);
+
+  if (options.repair && isPlainObject(settings)) {
+    const settingIssues: ValidationIssue[] = [];
+    validateSetting(defaultSettings, settings, '', settingIssues);
+    resetSettings(settings, settingIssues);
+    resetChapterNumbers(migrated.chapters);
+  }
+
+  const issues: ValidationIssue[] = [];
+  if (!isPlainObject(migrated.settings)) {
+    issues.push({ path: 'settings', message: `expected an object, got ${describe(migrated.settings)}` });
+  } else {
+    validateSetting(defaultSettings, settings, '', issues);
+    validateCustomFonts((settings as Record<string, unknown>).customFonts, issues);
+  }
+  validateChapters(migrated.chapters, issues);
+
+  if (issues.length > 0) {
+    throw new ProjectValidationError('Project data is invalid', issues);
+  }
+
+  return {
+    chapters: migrated.chapters as Chapter[],
+    settings: settings as EbookSettings,
+  };
+}
@@ -0,0 +1,314 @@
+import type { BookData, ProjectMeta, SnapshotMeta } from '../types';
+import { mapBookAssets, urlToBlob } from './bookAssets';
+import { CURRENT_SCHEMA_VERSION, parseBookData } from './projectSchema';
+
+const DB_NAME = 'ebook-layouter';
+const DB_VERSION = 2;
+const PROJECTS_STORE = 'projects';
+const ASSETS_STORE = 'assets';
+const SNAPSHOTS_STORE = 'snapshots';
+const ASSET_PREFIX = 'asset:';
+
+type StoredProject = ProjectMeta & BookData & {
+  schemaVersion?: number;
+};
+
+type StoredAsset = {
+  projectId: string;
+  id: string;
+  blob: Blob;
+};
+
+// Holds the book exactly as the project record did when it was taken, asset
+// references included. `assetIds` keeps those assets from being dropped once
+// the current book stops using them.
+type StoredSnapshot = SnapshotMeta & BookData & {
+  projectId: string;
+  schemaVersion: number;
+  assetIds: string[];
+};
+
+// Object/data URLs handed to the UI, mapped back to the asset they came from so
+// autosave does not re-encode the same image on every keystroke.
+const assetIdsByUrl = new Map<string, string>();
+const urlsByAssetId = new Map<string, string>();
+const persistedAssets = new Set<string>();
+const objectUrls: string[] = [];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(ASSETS_STORE)) {
+          db.createObjectStore(ASSETS_STORE, { keyPath: ['projectId', 'id'] });
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+          db.createObjectStore(SNAPSHOTS_STORE, { keyPath: ['projectId', 'id'] });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function projectAssetRange(projectId: string) {
+  return IDBKeyRange.bound([projectId], [projectId, []]);
+}
+
+function toMeta({ id, title, createdAt, updatedAt }: StoredProject): ProjectMeta {
+  return { id, title, createdAt, updatedAt };
+}
+
+function releaseObjectUrls() {
+  objectUrls.splice(0).forEach((url) => {
+    URL.revokeObjectURL(url);
+    assetIdsByUrl.delete(url);
+  });
+  urlsByAssetId.clear();
+}
+
+function rememberAssetUrl(url: string, assetId: string) {
+  assetIdsByUrl.set(url, assetId);
+  urlsByAssetId.set(assetId, url);
+}
+
+async function referencedAssetIds(book: BookData): Promise<string[]> {
+  const ids: string[] = [];
+  await mapBookAssets(book, async (url) => {
+    if (url.startsWith(ASSET_PREFIX)) ids.push(url.slice(ASSET_PREFIX.length));
+    return url;
+  });
+  return ids;
+}
+
+export async function listProjects(): Promise<ProjectMeta[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(PROJECTS_STORE, 'readonly');
+  const projects = await promisify<StoredProject[]>(tx.objectStore(PROJECTS_STORE).getAll());
+  return projects.map(toMeta).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function saveProject(projectId: string, book: BookData): Promise<ProjectMeta> {
+  const db = await openDatabase();
+  const newAssets: StoredAsset[] = [];
+  const referenced = new Set<string>();
+
+  const stored = await mapBookAssets(book, async (url) => {
+    if (url.startsWith(ASSET_PREFIX)) {
+      referenced.add(url.slice(ASSET_PREFIX.length));
+      return url;
+    }
+
+    let assetId = assetIdsByUrl.get(url);
+    if (!assetId || !persistedAssets.has(`${projectId}/${assetId}`)) {
+      assetId = assetId ?? crypto.randomUUID();
+      newAssets.push({ projectId, id: assetId, blob: await urlToBlob(url) });
+      rememberAssetUrl(url, assetId);
+    }
+    referenced.add(assetId);
+    return ASSET_PREFIX + assetId;
+  });
+
+  const tx = db.transaction([PROJECTS_STORE, ASSETS_STORE, SNAPSHOTS_STORE], 'readwrite');
+  const projects = tx.objectStore(PROJECTS_STORE);
+  const assets = tx.objectStore(ASSETS_STORE);
+
+  const existing = await promisify<StoredProject | undefined>(projects.get(projectId));
+  const snapshots = await promisify<StoredSnapshot[]>(
+    tx.objectStore(SNAPSHOTS_STORE).getAll(projectAssetRange(projectId))
+  );
+  snapshots.forEach((snapshot) => snapshot.assetIds.forEach((id) => referenced.add(id)));
+  const now = Date.now();
+  const record: StoredProject = {
+    id: projectId,
+    title: stored.settings.title,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    chapters: stored.chapters,
+    settings: stored.settings,
+  };
+  projects.put(record);
+  newAssets.forEach((asset) => assets.put(asset));
+
+  // Drop assets neither the book nor a snapshot references (deleted images, replaced covers)
+  const assetKeys = await promisify(assets.getAllKeys(projectAssetRange(projectId)));
+  for (const key of assetKeys as [string, string][]) {
+    if (!referenced.has(key[1])) {
+      assets.delete(key);
+      persistedAssets.delete(`${projectId}/${key[1]}`);
+    }
+  }
+
+  await transactionDone(tx);
+  newAssets.forEach((asset) => persistedAssets.add(`${projectId}/${asset.id}`));
+  return toMeta(record);
+}
+
+export async function loadProject(projectId: string): Promise<BookData & { meta: ProjectMeta }> {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS_STORE, ASSETS_STORE], 'readonly');
+  const record = await promisify<StoredProject | undefined>(tx.objectStore(PROJECTS_STORE).get(projectId));
+  if (!record) {
+    throw new Error(`Project ${projectId} not found`);
+  }
+  const assets = await promisify<StoredAsset[]>(
+    tx.objectStore(ASSETS_STORE).getAll(projectAssetRange(projectId))
+  );
+
+  releaseObjectUrls();
+  const urlsById = new Map<string, string>();
+  assets.forEach((asset) => {
+    const url = URL.createObjectURL(asset.blob);
+    objectUrls.push(url);
+    urlsById.set(asset.id, url);
+    rememberAssetUrl(url, asset.id);
+    persistedAssets.add(`${projectId}/${asset.id}`);
+  });
+
+  // Records written before schema versioning was introduced are version 1
+  const parsed = parseBookData(record, record.schemaVersion ?? 1, { repair: true });
+  const book = await mapBookAssets(parsed, async (url) => {
+    if (!url.startsWith(ASSET_PREFIX)) return url;
+    return urlsById.get(url.slice(ASSET_PREFIX.length)) ?? '';
+  });
+
+  return { ...book, meta: toMeta(record) };
+}
+
+export async function duplicateProject(projectId: string, title: string): Promise<ProjectMeta> {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS_STORE, ASSETS_STORE], 'readwrite');
+  const projects = tx.objectStore(PROJECTS_STORE);
+  const assets = tx.objectStore(ASSETS_STORE);
+
+  const source = await promisify<StoredProject | undefined>(projects.get(projectId));
+  if (!source) {
+    throw new Error(`Project ${projectId} not found`);
+  }
+  const sourceAssets = await promisify<StoredAsset[]>(assets.getAll(projectAssetRange(projectId)));
+
+  const now = Date.now();
+  const copy: StoredProject = {
+    ...source,
+    id: crypto.randomUUID(),
+    title,
+    createdAt: now,
+    updatedAt: now,
+    settings: { ...source.settings, title },
+  };
+  projects.put(copy);
+  sourceAssets.forEach((asset) => assets.put({ ...asset, projectId: copy.id }));
+
+  await transactionDone(tx);
+  return toMeta(copy);
+}
+
+export async function deleteProject(projectId: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS_STORE, ASSETS_STORE, SNAPSHOTS_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).delete(projectId);
+  tx.objectStore(ASSETS_STORE).delete(projectAssetRange(projectId));
+  tx.objectStore(SNAPSHOTS_STORE).delete(projectAssetRange(projectId));
+  await transactionDone(tx);
+}
+
+function toSnapshotMeta({ id, name, createdAt }: StoredSnapshot): SnapshotMeta {
+  return { id, name, createdAt };
+}
+
+export async function listSnapshots(projectId: string): Promise<SnapshotMeta[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(SNAPSHOTS_STORE, 'readonly');
+  const snapshots = await promisify<StoredSnapshot[]>(
+    tx.objectStore(SNAPSHOTS_STORE).getAll(projectAssetRange(projectId))
+  );
+  return snapshots.map(toSnapshotMeta).sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// Copies the saved project, so save the current book first
+export async function createSnapshot(projectId: string, name: string): Promise<SnapshotMeta> {
+  const db = await openDatabase();
+  // One transaction, so a save cannot drop the assets before the snapshot holds them
+  const tx = db.transaction([PROJECTS_STORE, SNAPSHOTS_STORE], 'readwrite');
+  const record = await promisify<StoredProject | undefined>(tx.objectStore(PROJECTS_STORE).get(projectId));
+  if (!record) {
+    throw new Error(`Project ${projectId} not found`);
+  }
+
+  const snapshot: StoredSnapshot = {
+    projectId,
+    id: crypto.randomUUID(),
+    name,
+    createdAt: Date.now(),
+    schemaVersion: record.schemaVersion ?? 1,
+    chapters: record.chapters,
+    settings: record.settings,
+    assetIds: await referencedAssetIds(record),
+  };
+  tx.objectStore(SNAPSHOTS_STORE).put(snapshot);
+  await transactionDone(tx);
+  return toSnapshotMeta(snapshot);
+}
+
+export async function loadSnapshot(projectId: string, snapshotId: string): Promise<BookData> {
+  const db = await openDatabase();
+  const tx = db.transaction([SNAPSHOTS_STORE, ASSETS_STORE], 'readonly');
+  const record = await promisify<StoredSnapshot | undefined>(
+    tx.objectStore(SNAPSHOTS_STORE).get([projectId, snapshotId])
+  );
+  if (!record) {
+    throw new Error(`Snapshot ${snapshotId} not found`);
+  }
+  const assets = await promisify<StoredAsset[]>(
+    tx.objectStore(ASSETS_STORE).getAll(projectAssetRange(projectId))
+  );
+
+  // Assets the open book already shows keep their URL, so unchanged images
+  // compare equal; the rest get one for as long as the project is open
+  const parsed = parseBookData(record, record.schemaVersion, { repair: true });
+  return mapBookAssets(parsed, async (url) => {
+    if (!url.startsWith(ASSET_PREFIX)) return url;
+    const assetId = url.slice(ASSET_PREFIX.length);
+    const known = urlsByAssetId.get(assetId);
+    if (known) return known;
+    const asset = assets.find((a) => a.id === assetId);
+    if (!asset) return '';
+    const objectUrl = URL.createObjectURL(asset.blob);
+    objectUrls.push(objectUrl);
+    rememberAssetUrl(objectUrl, assetId);
+    persistedAssets.add(`${projectId}/${assetId}`);
+    return objectUrl;
+  });
+}
+
+export async function deleteSnapshot(projectId: string, snapshotId: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+  tx.objectStore(SNAPSHOTS_STORE).delete([projectId, snapshotId]);
+  await transactionDone(tx);
+}
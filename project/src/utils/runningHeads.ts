@@ -0,0 +1,47 @@
+import type { RunningHeadSettings } from '../types';
+
+export type RunningHeadContext = {
+  bookTitle: string;
+  author: string;
+  chapterTitle: string;
+  subChapterTitle: string;
+  page: string;
+};
+
+export const runningHeadVariables: (keyof RunningHeadContext)[] = [
+  'bookTitle',
+  'author',
+  'chapterTitle',
+  'subChapterTitle',
+  'page',
+];
+
+export function fillRunningHeadTemplate(template: string, context: RunningHeadContext): string {
+  return template
+    .replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in context ? context[name as keyof RunningHeadContext] : match
+    )
+    .trim();
+}
+
+// Verso pages (even, left-hand) use `evenText` when alternating; recto pages and
+// non-alternating books always use `text`.
+export function getRunningHeadText(
+  config: RunningHeadSettings,
+  isVerso: boolean,
+  context: RunningHeadContext
+): string {
+  if (!config.enabled) return '';
+  const template = config.alternateEvenOdd && isVerso ? config.evenText : config.text;
+  return fillRunningHeadTemplate(template, context);
+}
+
+// Mirrors left/right alignment so alternating heads sit on the outside edge of a spread
+export function getRunningHeadAlignment(
+  alignment: 'left' | 'center' | 'right',
+  config: RunningHeadSettings,
+  isVerso: boolean
+): 'left' | 'center' | 'right' {
+  if (!config.alternateEvenOdd || !isVerso || alignment === 'center') return alignment;
+  return alignment === 'left' ? 'right' : 'left';
+}
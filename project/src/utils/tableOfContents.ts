@@ -0,0 +1,156 @@
+import type { Chapter, EbookSettings, Language, PageLabels, TocLeader } from '../types';
+import { formatNumber, getBookText } from './bookText';
+import { PT_TO_MM, wrapText } from './layout';
+import type { FontSpec, TextBox, TextMeasurer } from './layout';
+
+export type TocEntry = {
+  id: string;
+  level: 1 | 2;
+  prefix: string;
+  title: string;
+  pageLabel: string;
+};
+
+type TocLayoutOptions = {
+  maxWidth: number;
+  fontSize: number;
+  lineHeight: number;
+  font: string;
+};
+
+const leaderChars: Record<TocLeader, string> = {
+  dots: '.',
+  dashes: '-',
+  underscore: '_',
+  none: '',
+};
+
+export function getChapterLabel(chapterNumber: number, language: Language): string {
+  return getBookText(language).chapterLabel(formatNumber(chapterNumber, language));
+}
+
+// Entries follow the chapter structure. Page labels come from a finished PDF
+// pass when available, otherwise from the store's estimate.
+export function buildTocEntries(
+  chapters: Chapter[],
+  settings: EbookSettings,
+  pageLabels?: PageLabels | null
+): TocEntry[] {
+  const { toc, language } = settings;
+  const number = (value: number) => formatNumber(value, language);
+  const labelFor = (id: string, estimate?: string) => pageLabels?.[id]?.pageLabel ?? estimate ?? '';
+  const entries: TocEntry[] = [];
+  let chapterNumber = 0;
+
+  for (const chapter of chapters) {
+    if (chapter.type === 'toc') continue;
+
+    if (chapter.type !== 'chapter') {
+      entries.push({
+        id: chapter.id,
+        level: 1,
+        prefix: '',
+        title: chapter.title,
+        pageLabel: labelFor(chapter.id, chapter.pageLabel),
+      });
+      continue;
+    }
+
+    chapterNumber++;
+    entries.push({
+      id: chapter.id,
+      level: 1,
+      prefix: toc.chapterPrefix === 'label'
+        ? getChapterLabel(chapterNumber, language)
+        : toc.chapterPrefix === 'number'
+          ? `${number(chapterNumber)}.`
+          : '',
+      title: chapter.title,
+      pageLabel: labelFor(chapter.id, chapter.pageLabel),
+    });
+
+    if (toc.depth < 2) continue;
+    chapter.subChapters.forEach((subChapter, index) => {
+      entries.push({
+        id: subChapter.id,
+        level: 2,
+        prefix: toc.numberSubChapters ? `${number(chapterNumber)}.${number(index + 1)}` : '',
+        title: subChapter.title,
+        pageLabel: labelFor(subChapter.id, subChapter.pageLabel),
+      });
+    });
+  }
+
+  return entries;
+}
+
+export function samePageLabels(a: PageLabels, b: PageLabels): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length &&
+    keys.every((key) => a[key].pageLabel === b[key]?.pageLabel);
+}
+
+// Lays out one entry below the baseline `y` and returns its boxes and last
+// baseline. Titles wrap inside the space left of the page number; the leader
+// follows the last title line.
+export function layoutTocEntry(
+  measure: TextMeasurer,
+  entry: TocEntry,
+  leader: TocLeader,
+  x: number,
+  y: number,
+  options: TocLayoutOptions
+): { boxes: TextBox[]; bottom: number } {
+  const lineHeight = options.fontSize * PT_TO_MM * options.lineHeight;
+  const indent = entry.level === 2 ? 10 : 0;
+  const prefixWidth = entry.prefix ? 15 : 0;
+  const pageNumberWidth = 12;
+  const right = x + options.maxWidth;
+  const titleX = x + indent + prefixWidth;
+  const titleWidth = right - pageNumberWidth - titleX;
+
+  const titleFont: FontSpec = {
+    family: options.font,
+    style: entry.level === 1 ? 'bold' : 'normal',
+    size: options.fontSize,
+  };
+  const plainFont: FontSpec = { ...titleFont, style: 'normal' };
+  const boxes: TextBox[] = [];
+  const text = (value: string, textX: number, baseline: number, font: FontSpec) => {
+    boxes.push({ type: 'text', x: textX, y: baseline, text: value, font });
+  };
+
+  const firstY = y + lineHeight;
+  if (entry.prefix) {
+    text(entry.prefix, x + indent, firstY, titleFont);
+  }
+
+  const titleLines = wrapText(measure, entry.title, titleFont, titleWidth);
+  titleLines.forEach((line, index) => {
+    text(line, titleX, firstY + index * lineHeight, titleFont);
+  });
+
+  const lastY = firstY + (titleLines.length - 1) * lineHeight;
+  const lastLineEnd = titleX + measure(titleLines[titleLines.length - 1] ?? '', titleFont);
+  const pageLabelWidth = measure(entry.pageLabel, plainFont);
+
+  const leaderChar = leaderChars[leader];
+  if (leaderChar) {
+    const gap = 2;
+    const leaderStart = lastLineEnd + gap;
+    const leaderEnd = right - pageLabelWidth - gap;
+    const charWidth = measure(leaderChar, plainFont);
+    const spacing = leader === 'underscore' ? 0 : measure(' ', plainFont);
+    const count = Math.floor((leaderEnd - leaderStart) / (charWidth + spacing));
+    if (count > 0) {
+      const fill = leader === 'underscore'
+        ? leaderChar.repeat(count)
+        : Array(count).fill(leaderChar).join(' ');
+      text(fill, leaderEnd - measure(fill, plainFont), lastY, plainFont);
+    }
+  }
+
+  text(entry.pageLabel, right - pageLabelWidth, lastY, plainFont);
+
+  return { boxes, bottom: entry.level === 1 ? lastY + lineHeight * 0.25 : lastY };
+}
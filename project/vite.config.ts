@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -7,4 +8,11 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  test: {
+    // The EPUB code parses and serializes XHTML with the DOM APIs
+    environment: 'jsdom',
+    // Node would resolve mammoth's Node build, which reads files by path; the
+    // app bundles its browser build, which reads the array buffer it is given
+    alias: { mammoth: 'mammoth/mammoth.browser.js' },
+  },
 });